@@ -0,0 +1,68 @@
+/**
+ * File-backed response cache store
+ * Lets short-lived CLI invocations share cached responses (SOL price, metadata, ...)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CacheEntry, CacheStore } from '@clawdvault/sdk';
+
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 1000;
+
+/**
+ * Cache store persisted as one JSON file, written after every change
+ * Unreadable files are treated as empty; write failures are ignored
+ */
+export class FileCacheStore implements CacheStore {
+  private entries: Map<string, CacheEntry> | null = null;
+
+  constructor(private filePath: string) {}
+
+  get(key: string): CacheEntry | undefined {
+    return this.load().get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    const entries = this.load();
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value!);
+    }
+    this.save();
+  }
+
+  delete(key: string): void {
+    if (this.load().delete(key)) this.save();
+  }
+
+  clear(): void {
+    this.entries = new Map();
+    this.save();
+  }
+
+  private load(): Map<string, CacheEntry> {
+    if (this.entries) return this.entries;
+    this.entries = new Map();
+    try {
+      const now = Date.now();
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, CacheEntry>;
+      for (const [key, entry] of Object.entries(stored)) {
+        if (entry.expiresAt > now) this.entries.set(key, entry);
+      }
+    } catch {
+      // Missing or corrupt - start empty
+    }
+    return this.entries;
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.entries!)));
+    } catch {
+      // Caching is best-effort
+    }
+  }
+}
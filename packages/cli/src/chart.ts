@@ -0,0 +1,100 @@
+/**
+ * Terminal price charts - Unicode candlesticks or a close-price line over a volume strip
+ */
+
+import chalk from 'chalk';
+import type { Candle } from '@clawdvault/sdk';
+
+export type ChartStyle = 'candles' | 'line';
+
+export interface ChartOptions {
+  style?: ChartStyle;
+  /** Rows for the price area, at least 2 (default: 16) */
+  height?: number;
+  /** Total width in columns (default: terminal width) */
+  width?: number;
+  /** Price axis label, e.g. `$` prefix for USD */
+  formatPrice?: (price: number) => string;
+}
+
+const VOLUME_BLOCKS = ' ▁▂▃▄▅▆▇█';
+
+// Price labels every this many rows
+const LABEL_EVERY = 4;
+
+/**
+ * Compact price label: 4 significant digits, plain notation
+ */
+export function formatChartPrice(price: number): string {
+  if (price === 0) return '0';
+  const digits = Math.max(0, 3 - Math.floor(Math.log10(Math.abs(price))));
+  return price.toFixed(Math.min(digits, 12));
+}
+
+/**
+ * Render candles as a chart string. Only the most recent candles that fit the width are drawn.
+ */
+export function renderChart(candles: Candle[], options: ChartOptions = {}): string {
+  const {
+    style = 'candles',
+    height = 16,
+    width = process.stdout.columns || 80,
+    formatPrice = formatChartPrice,
+  } = options;
+  if (candles.length === 0) return '';
+
+  // Size the axis from a first pass over every candle so the layout is stable
+  const axisWidth = Math.max(...candles.flatMap(c => [c.high, c.low]).map(p => formatPrice(p).length)) + 1;
+  const room = Math.max(1, width - axisWidth - 2);
+  const spaced = candles.length * 2 <= room;
+  const shown = candles.slice(-(spaced ? Math.floor(room / 2) : room));
+
+  const max = Math.max(...shown.map(c => (style === 'line' ? c.close : c.high)));
+  const min = Math.min(...shown.map(c => (style === 'line' ? c.close : c.low)));
+  const span = max - min || Math.abs(max) || 1;
+  const rowOf = (price: number) => Math.round(((max - price) / span) * (height - 1));
+
+  const grid: string[][] = Array.from({ length: height }, () => []);
+  shown.forEach((c, i) => {
+    const color = c.close >= c.open ? chalk.green : chalk.red;
+    const cells = new Array<string>(height).fill(' ');
+
+    if (style === 'line') {
+      const row = rowOf(c.close);
+      const prev = i > 0 ? rowOf(shown[i - 1].close) : row;
+      for (let r = Math.min(row, prev) + 1; r < Math.max(row, prev); r++) cells[r] = chalk.gray('│');
+      cells[row] = color('•');
+    } else {
+      for (let r = rowOf(c.high); r <= rowOf(c.low); r++) cells[r] = color('│');
+      for (let r = rowOf(Math.max(c.open, c.close)); r <= rowOf(Math.min(c.open, c.close)); r++) cells[r] = color('┃');
+    }
+
+    cells.forEach((cell, r) => {
+      grid[r].push(cell);
+      if (spaced) grid[r].push(' ');
+    });
+  });
+
+  const lines = grid.map((cells, r) => {
+    const label = r % LABEL_EVERY === 0 || r === height - 1
+      ? formatPrice(max - (r / (height - 1)) * span)
+      : '';
+    return `${chalk.gray(label.padStart(axisWidth))} ┤${cells.join('')}`;
+  });
+
+  const maxVolume = Math.max(...shown.map(c => c.volume));
+  const volume = shown.map(c => {
+    const level = maxVolume > 0 ? Math.ceil((c.volume / maxVolume) * (VOLUME_BLOCKS.length - 1)) : 0;
+    const block = (c.close >= c.open ? chalk.green : chalk.red)(VOLUME_BLOCKS[level]);
+    return spaced ? `${block} ` : block;
+  });
+  lines.push(`${chalk.gray('vol'.padStart(axisWidth))} ┤${volume.join('')}`);
+
+  const first = new Date(shown[0].time * 1000).toLocaleString();
+  const last = new Date(shown[shown.length - 1].time * 1000).toLocaleString();
+  const plotWidth = shown.length * (spaced ? 2 : 1);
+  const gap = Math.max(1, plotWidth - first.length - last.length);
+  lines.push(chalk.gray(`${' '.repeat(axisWidth + 2)}${first}${' '.repeat(gap)}${last}`));
+
+  return lines.join('\n');
+}
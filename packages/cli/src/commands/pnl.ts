@@ -0,0 +1,128 @@
+/**
+ * PnL command - cost basis and realized/unrealized PnL rebuilt from trade history
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { Portfolio, type CostBasisMethod } from '@clawdvault/sdk';
+import {
+  spinner,
+  formatSol,
+  formatTokens,
+  formatUsd,
+  shortenAddress,
+  handleError,
+  info,
+  warn,
+  createClientWithWallet,
+  requireWallet,
+} from '../utils';
+
+/**
+ * Signed SOL amount, green for gains and red for losses
+ */
+function formatPnl(value: number | null): string {
+  if (value === null) return chalk.gray('N/A');
+  const text = `${value >= 0 ? '+' : ''}${value.toFixed(4)} SOL`;
+  return value >= 0 ? chalk.green(text) : chalk.red(text);
+}
+
+export const pnlCommand = new Command('pnl')
+  .description('Show cost basis and realized/unrealized PnL from trade history')
+  .argument('[address]', 'Wallet address (default: your wallet)')
+  .option('-w, --wallet <path>', 'Wallet file path')
+  .option('-m, --mint <mints...>', 'Only these mints (default: tokens held or traded)')
+  .option('--method <method>', 'Cost basis method: fifo or average', 'fifo')
+  .option('--since <date>', 'Ignore trades before this date')
+  .option('--max-signatures <number>', 'Recent transactions to scan for closed positions', '1000')
+  .option('--json', 'Output as JSON')
+  .action(async (address: string | undefined, options) => {
+    if (options.method !== 'fifo' && options.method !== 'average') {
+      handleError(new Error(`Unknown cost basis method "${options.method}" (expected fifo or average)`));
+    }
+    if (options.since !== undefined && Number.isNaN(new Date(options.since).getTime())) {
+      handleError(new Error(`Invalid --since date "${options.since}"`));
+    }
+    const maxSignatures = Number(options.maxSignatures);
+    if (!Number.isInteger(maxSignatures) || maxSignatures < 1) {
+      handleError(new Error(`Invalid --max-signatures "${options.maxSignatures}" (expected a whole number of at least 1)`));
+    }
+
+    const { client, signer } = createClientWithWallet(options.wallet);
+    if (!address) {
+      requireWallet(signer);
+    }
+    const wallet = address ?? signer!.publicKey.toBase58();
+
+    const spin = spinner('Rebuilding positions from trade history...').start();
+
+    try {
+      const portfolio = await Portfolio.load(client, wallet, {
+        method: options.method as CostBasisMethod,
+        mints: options.mint,
+        since: options.since,
+        maxSignatures,
+      });
+      const positions = portfolio.positions();
+      const totals = portfolio.totals();
+
+      spin.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify({ wallet, method: portfolio.method, positions, totals }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`\n📒 PnL ${shortenAddress(wallet)} (${portfolio.method === 'fifo' ? 'FIFO' : 'average cost'})\n`));
+
+      if (positions.length === 0) {
+        info('No trades found for this wallet');
+        return;
+      }
+
+      const table = new Table({
+        head: ['Token', 'Held', 'Avg Cost', 'Cost Basis', 'Value', 'Unrealized', 'Realized', 'Fees'].map(h => chalk.cyan(h)),
+        style: { head: [], border: [] },
+      });
+
+      for (const p of positions) {
+        table.push([
+          chalk.bold(p.symbol ?? shortenAddress(p.mint)),
+          formatTokens(p.amount),
+          p.averageCostSol !== null ? formatSol(p.averageCostSol) : '-',
+          formatSol(p.costBasisSol),
+          p.valueSol !== null ? formatSol(p.valueSol) : 'N/A',
+          formatPnl(p.unrealizedPnlSol),
+          formatPnl(p.realizedPnlSol),
+          `${p.feesEstimated ? '~' : ''}${formatSol(p.feesSol)}`,
+        ]);
+      }
+
+      console.log(table.toString());
+
+      const summary = new Table({
+        style: { head: [], border: [] },
+      });
+      summary.push(
+        { [chalk.cyan('Cost Basis')]: formatSol(totals.costBasisSol) },
+        { [chalk.cyan('Value')]: `${formatSol(totals.valueSol)}${totals.valueUsd !== null ? ` (${formatUsd(totals.valueUsd)})` : ''}` },
+        { [chalk.cyan('Unrealized PnL')]: formatPnl(totals.unrealizedPnlSol) },
+        { [chalk.cyan('Realized PnL')]: formatPnl(totals.realizedPnlSol) },
+        { [chalk.cyan('Fees Paid')]: formatSol(totals.feesSol) },
+      );
+      console.log(summary.toString());
+
+      if (positions.some(p => p.feesEstimated)) {
+        info(`~ Fees estimated at ${portfolio.feeBps / 100}% for trades from history`);
+      }
+      const unmatched = positions.filter(p => p.unmatchedTokens > 0);
+      if (unmatched.length > 0) {
+        warn(`Sold tokens with no matching buy in ${unmatched.map(p => p.symbol ?? shortenAddress(p.mint)).join(', ')} - excluded from realized PnL`);
+      }
+      console.log();
+    } catch (err) {
+      spin.stop();
+      handleError(err);
+    }
+  });
@@ -0,0 +1,197 @@
+/**
+ * Portfolio command - every ClawdVault position in a wallet with its value
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { NotFoundError, toCsv, type ClawdVaultClient, type Token } from '@clawdvault/sdk';
+import {
+  spinner,
+  formatSol,
+  formatTokens,
+  formatUsd,
+  formatPriceChange,
+  shortenAddress,
+  handleError,
+  info,
+  createClientWithWallet,
+  requireWallet,
+} from '../utils';
+
+// getToken lookups in flight at once
+const LOOKUP_CONCURRENCY = 5;
+
+export interface Position {
+  mint: string;
+  symbol: string;
+  name: string;
+  amount: number;
+  priceSol: number;
+  valueSol: number;
+  valueUsd: number | null;
+  change24h: number | null;
+  graduated: boolean;
+}
+
+export interface Portfolio {
+  wallet: string;
+  solPrice: number | null;
+  /** Native SOL held by the wallet, `null` if it could not be fetched */
+  solBalance: number | null;
+  positions: Position[];
+  totalValueSol: number;
+  totalValueUsd: number | null;
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, preserving order
+ */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Join wallet balances with token data and the SOL price
+ * Mints ClawdVault doesn't know about are skipped
+ */
+export async function loadPortfolio(client: ClawdVaultClient, wallet: string): Promise<Portfolio> {
+  const [{ balances = {} }, solPrice, solBalance] = await Promise.all([
+    client.getWalletBalances(wallet),
+    client.getSolPrice().then(r => r.price ?? null).catch(() => null),
+    client.rpc.call<{ value: number }>('getBalance', [wallet]).then(r => r.value / LAMPORTS_PER_SOL).catch(() => null),
+  ]);
+
+  const tokens = await mapConcurrent(Object.keys(balances), LOOKUP_CONCURRENCY, async (mint): Promise<Token | null> => {
+    try {
+      return (await client.getToken(mint)).token ?? null;
+    } catch (err) {
+      if (err instanceof NotFoundError) return null;
+      throw err;
+    }
+  });
+
+  const positions = tokens
+    .filter((token): token is Token & { mint: string } => token?.mint !== undefined)
+    .map((token): Position => {
+      const amount = balances[token.mint];
+      const priceSol = token.price_sol ?? 0;
+      const valueSol = amount * priceSol;
+      return {
+        mint: token.mint,
+        symbol: token.symbol ?? '???',
+        name: token.name ?? 'Unknown',
+        amount,
+        priceSol,
+        valueSol,
+        valueUsd: solPrice !== null ? valueSol * solPrice : null,
+        change24h: token.price_change_24h ?? null,
+        graduated: token.graduated ?? false,
+      };
+    })
+    .sort((a, b) => b.valueSol - a.valueSol);
+
+  const totalValueSol = positions.reduce((sum, p) => sum + p.valueSol, 0);
+  return {
+    wallet,
+    solPrice,
+    solBalance,
+    positions,
+    totalValueSol,
+    totalValueUsd: solPrice !== null ? totalValueSol * solPrice : null,
+  };
+}
+
+export const portfolioCommand = new Command('portfolio')
+  .description('Show ClawdVault token positions and their value')
+  .argument('[address]', 'Wallet address (default: your wallet)')
+  .option('-w, --wallet <path>', 'Wallet file path')
+  .option('--json', 'Output as JSON')
+  .option('--csv', 'Output positions as CSV')
+  .action(async (address: string | undefined, options) => {
+    const { client, signer } = createClientWithWallet(options.wallet);
+    if (!address) {
+      requireWallet(signer);
+    }
+    const wallet = address ?? signer!.publicKey.toBase58();
+
+    const spin = spinner('Loading portfolio...').start();
+
+    try {
+      const portfolio = await loadPortfolio(client, wallet);
+
+      spin.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(portfolio, null, 2));
+        return;
+      }
+
+      if (options.csv) {
+        console.log(toCsv(
+          ['mint', 'symbol', 'name', 'amount', 'price_sol', 'value_sol', 'value_usd', 'change_24h', 'graduated'],
+          portfolio.positions.map(p => [
+            p.mint, p.symbol, p.name, p.amount, p.priceSol, p.valueSol, p.valueUsd, p.change24h, p.graduated,
+          ])
+        ));
+        return;
+      }
+
+      console.log(chalk.bold(`\n💼 Portfolio ${shortenAddress(wallet)}\n`));
+
+      if (portfolio.positions.length === 0) {
+        info('No ClawdVault tokens in this wallet');
+      } else {
+        const table = new Table({
+          head: ['Symbol', 'Amount', 'Price', 'Value (SOL)', 'Value (USD)', '24h', 'Status', 'Mint'].map(h => chalk.cyan(h)),
+          style: { head: [], border: [] },
+        });
+
+        for (const p of portfolio.positions) {
+          table.push([
+            chalk.bold(p.symbol),
+            formatTokens(p.amount),
+            formatSol(p.priceSol),
+            formatSol(p.valueSol),
+            p.valueUsd !== null ? formatUsd(p.valueUsd) : 'N/A',
+            formatPriceChange(p.change24h),
+            p.graduated ? chalk.green('🎓 Graduated') : chalk.yellow('📈 Bonding'),
+            shortenAddress(p.mint),
+          ]);
+        }
+
+        console.log(table.toString());
+      }
+
+      const summary = new Table({
+        style: { head: [], border: [] },
+      });
+      const usd = (sol: number) => portfolio.solPrice !== null ? ` (${formatUsd(sol * portfolio.solPrice)})` : '';
+      summary.push(
+        { [chalk.cyan('Positions')]: String(portfolio.positions.length) },
+        { [chalk.cyan('Token Value')]: `${formatSol(portfolio.totalValueSol)}${usd(portfolio.totalValueSol)}` },
+      );
+      if (portfolio.solBalance !== null) {
+        const total = portfolio.totalValueSol + portfolio.solBalance;
+        summary.push(
+          { [chalk.cyan('SOL Balance')]: `${formatSol(portfolio.solBalance)}${usd(portfolio.solBalance)}` },
+          { [chalk.cyan('Total Value')]: chalk.bold(`${formatSol(total)}${usd(total)}`) },
+        );
+      }
+      console.log(summary.toString());
+      console.log();
+    } catch (err) {
+      spin.stop();
+      handleError(err);
+    }
+  });
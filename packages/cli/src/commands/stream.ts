@@ -0,0 +1,273 @@
+/**
+ * Streaming commands - live trades, price and chat over SSE
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  formatSol,
+  formatTokens,
+  formatUsd,
+  shortenAddress,
+  error,
+  createStreamingClient,
+} from '../utils';
+import { NetworkError } from '@clawdvault/sdk';
+import type {
+  StreamConnection,
+  StreamTrade,
+  StreamTokenUpdate,
+  StreamChatMessage,
+} from '@clawdvault/sdk';
+
+type OutputMode = 'table' | 'append' | 'json';
+
+export interface StreamOptions {
+  /** Print one line per event instead of redrawing a table */
+  append?: boolean;
+  /** Print one JSON object per line (NDJSON) */
+  json?: boolean;
+  /** Rows kept in table mode */
+  limit?: string;
+}
+
+function getOutputMode(options: StreamOptions): OutputMode {
+  if (options.json) return 'json';
+  if (options.append) return 'append';
+  return 'table';
+}
+
+/**
+ * Status messages go to stderr so NDJSON on stdout stays machine-readable
+ */
+function status(message: string): void {
+  console.error(chalk.gray(message));
+}
+
+function formatTime(value?: string | number): string {
+  return new Date(value ?? Date.now()).toLocaleTimeString();
+}
+
+/**
+ * Keep a stream running until Ctrl+C, reporting connection changes
+ * Only a NetworkError (reconnects exhausted) ends the stream - a malformed event is skipped
+ */
+function follow(conn: StreamConnection, label: string): void {
+  let stopping = false;
+  conn.onConnect(() => status(`● Connected to ${label} (Ctrl+C to stop)`));
+  conn.onDisconnect(() => {
+    if (!stopping) status('○ Disconnected - reconnecting...');
+  });
+  conn.onError((err) => {
+    if (!(err instanceof NetworkError)) {
+      console.error(chalk.yellow('⚠'), err.message);
+      return;
+    }
+    error(err.message);
+    conn.disconnect();
+    process.exit(1);
+  });
+
+  process.once('SIGINT', () => {
+    stopping = true;
+    conn.disconnect();
+    process.exit(0);
+  });
+
+  status(`Connecting to ${label}...`);
+  conn.connect();
+}
+
+/**
+ * Stream trades for a token
+ */
+export function runTradeStream(mint: string, options: StreamOptions): void {
+  const mode = getOutputMode(options);
+  const limit = parseInt(options.limit ?? '20');
+  const recent: StreamTrade[] = [];
+  const conn = createStreamingClient().streamTrades(mint);
+
+  conn.on<StreamTrade>('trade', (trade) => {
+    if (mode === 'json') {
+      console.log(JSON.stringify(trade));
+      return;
+    }
+
+    const typeStr = trade.type === 'buy' ? chalk.green('BUY ') : chalk.red('SELL');
+
+    if (mode === 'append') {
+      console.log(
+        chalk.gray(formatTime(trade.created_at)),
+        typeStr,
+        formatSol(trade.sol_amount ?? 0),
+        formatTokens(trade.token_amount ?? 0),
+        chalk.gray('@'),
+        formatSol(trade.price_sol ?? 0),
+        shortenAddress(trade.trader ?? '')
+      );
+      return;
+    }
+
+    recent.unshift(trade);
+    recent.length = Math.min(recent.length, limit);
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Time'),
+        chalk.cyan('Type'),
+        chalk.cyan('SOL'),
+        chalk.cyan('Tokens'),
+        chalk.cyan('Price'),
+        chalk.cyan('Trader'),
+      ],
+      style: { head: [], border: [] },
+    });
+    for (const t of recent) {
+      table.push([
+        formatTime(t.created_at),
+        t.type === 'buy' ? chalk.green('BUY') : chalk.red('SELL'),
+        formatSol(t.sol_amount ?? 0),
+        formatTokens(t.token_amount ?? 0),
+        formatSol(t.price_sol ?? 0),
+        shortenAddress(t.trader ?? ''),
+      ]);
+    }
+
+    console.clear();
+    console.log(chalk.bold(`\n📈 Live Trades - ${shortenAddress(mint)}\n`));
+    console.log(table.toString());
+  });
+
+  follow(conn, `trade stream for ${shortenAddress(mint)}`);
+}
+
+/**
+ * Stream price / market cap updates for a token
+ */
+export function runTokenStream(mint: string, options: StreamOptions): void {
+  const mode = getOutputMode(options);
+  const conn = createStreamingClient().streamToken(mint);
+  let lastPrice: number | undefined;
+
+  const render = (update: StreamTokenUpdate) => {
+    if (mode === 'json') {
+      console.log(JSON.stringify(update));
+      return;
+    }
+
+    const price = update.price_sol ?? 0;
+    const change = lastPrice ? ((price - lastPrice) / lastPrice) * 100 : 0;
+    const arrow = change > 0 ? chalk.green('▲') : change < 0 ? chalk.red('▼') : chalk.gray('•');
+    lastPrice = price;
+
+    if (mode === 'append') {
+      console.log(
+        chalk.gray(formatTime(update.timestamp)),
+        arrow,
+        formatSol(price),
+        update.price_usd != null ? chalk.gray(`(${formatUsd(update.price_usd)})`) : '',
+        chalk.gray('mcap'),
+        formatSol(update.market_cap_sol ?? 0)
+      );
+      return;
+    }
+
+    const table = new Table({ style: { head: [], border: [] } });
+    table.push(
+      { 'Price': `${arrow} ${formatSol(price)}` },
+      { 'Price (USD)': update.price_usd != null ? formatUsd(update.price_usd) : '-' },
+      { 'Market Cap': formatSol(update.market_cap_sol ?? 0) },
+      { 'Market Cap (USD)': update.market_cap_usd != null ? formatUsd(update.market_cap_usd) : '-' },
+      { 'Volume 24h': update.volume_24h != null ? formatSol(update.volume_24h) : '-' },
+      { 'Holders': String(update.holders ?? '-') },
+      { 'Graduated': update.graduated ? chalk.green('Yes') : 'No' },
+      { 'Updated': formatTime(update.timestamp) },
+    );
+
+    console.clear();
+    console.log(chalk.bold(`\n🪙 Live Token - ${shortenAddress(mint)}\n`));
+    console.log(table.toString());
+  };
+
+  conn.on<StreamTokenUpdate>('connected', render);
+  conn.on<StreamTokenUpdate>('update', render);
+
+  follow(conn, `token stream for ${shortenAddress(mint)}`);
+}
+
+/**
+ * Stream chat messages for a token
+ */
+export function runChatStream(mint: string, options: StreamOptions): void {
+  const mode = getOutputMode(options);
+  const limit = parseInt(options.limit ?? '20');
+  const recent: StreamChatMessage[] = [];
+  const conn = createStreamingClient().streamChat(mint);
+
+  conn.on<StreamChatMessage>('message', (msg) => {
+    if (mode === 'json') {
+      console.log(JSON.stringify(msg));
+      return;
+    }
+
+    const author = msg.username || shortenAddress(msg.wallet ?? '');
+
+    if (mode === 'append') {
+      console.log(chalk.gray(`[${formatTime(msg.created_at)}]`), chalk.cyan(`${author}:`), msg.message ?? '');
+      return;
+    }
+
+    recent.unshift(msg);
+    recent.length = Math.min(recent.length, limit);
+
+    const table = new Table({
+      head: [chalk.cyan('Time'), chalk.cyan('User'), chalk.cyan('Message')],
+      style: { head: [], border: [] },
+      colWidths: [12, 16, 60],
+      wordWrap: true,
+    });
+    for (const m of recent) {
+      table.push([
+        formatTime(m.created_at),
+        m.username || shortenAddress(m.wallet ?? ''),
+        m.message ?? '',
+      ]);
+    }
+
+    console.clear();
+    console.log(chalk.bold(`\n💬 Live Chat - ${shortenAddress(mint)}\n`));
+    console.log(table.toString());
+  });
+
+  follow(conn, `chat stream for ${shortenAddress(mint)}`);
+}
+
+export const streamCommand = new Command('stream')
+  .description('Real-time streams (trades, price, chat)');
+
+streamCommand
+  .command('trades')
+  .description('Stream trades for a token')
+  .requiredOption('-m, --mint <address>', 'Token mint address')
+  .option('-l, --limit <number>', 'Rows to keep in table mode', '20')
+  .option('--append', 'Print one line per trade instead of a live table')
+  .option('--json', 'Output one JSON object per line (NDJSON)')
+  .action((options) => runTradeStream(options.mint, options));
+
+streamCommand
+  .command('token')
+  .description('Stream price and market cap updates for a token')
+  .requiredOption('-m, --mint <address>', 'Token mint address')
+  .option('--append', 'Print one line per update instead of a live table')
+  .option('--json', 'Output one JSON object per line (NDJSON)')
+  .action((options) => runTokenStream(options.mint, options));
+
+streamCommand
+  .command('chat')
+  .description('Stream chat messages for a token')
+  .requiredOption('-m, --mint <address>', 'Token mint address')
+  .option('-l, --limit <number>', 'Rows to keep in table mode', '20')
+  .option('--append', 'Print one line per message instead of a live table')
+  .option('--json', 'Output one JSON object per line (NDJSON)')
+  .action((options) => runChatStream(options.mint, options));
@@ -22,6 +22,25 @@ import {
   createReadOnlyClient,
   requireWallet,
 } from '../utils';
+import { runTokenStream } from './stream';
+import { renderChart, formatChartPrice } from '../chart';
+import {
+  loadCandles,
+  toCsv,
+  analyzeHolders,
+  diffHolders,
+  isBondingCurveHolder,
+  type HolderDiff,
+  type HolderInfo,
+} from '@clawdvault/sdk';
+
+/** File written by `token holders --save` */
+interface HolderSnapshot {
+  mint: string;
+  takenAt: string;
+  holders: HolderInfo[];
+}
+
 export const tokenCommand = new Command('token')
   .description('Token operations');
 
@@ -247,19 +266,43 @@ tokenCommand
 // Get holders
 tokenCommand
   .command('holders <mint>')
-  .description('Get top token holders')
+  .description('Get top token holders and concentration metrics')
+  .option('--creator <address>', 'Creator wallet for labeling (default: the token creator)')
+  .option('--save <path>', 'Save this holder snapshot to a file')
+  .option('--diff <path>', 'Compare against a snapshot saved with --save')
   .option('--json', 'Output as JSON')
   .action(async (mint: string, options) => {
     const spin = spinner('Fetching holders...').start();
     
     try {
       const client = createReadOnlyClient();
-      const result = await client.getHolders(mint);
+      const creator: string | undefined = options.creator
+        ?? (await client.getToken(mint)).token?.creator;
+      const result = await client.getHolders(mint, creator);
+      const holders = result.holders ?? [];
+      const analytics = analyzeHolders(holders, { creator });
+
+      let diff: HolderDiff | null = null;
+      if (options.diff) {
+        const snapshot = JSON.parse(fs.readFileSync(options.diff, 'utf-8')) as HolderSnapshot;
+        if (snapshot.mint !== mint) {
+          throw new Error(`Snapshot ${options.diff} is for ${snapshot.mint}, not ${mint}`);
+        }
+        diff = diffHolders(
+          snapshot.holders.filter(h => !isBondingCurveHolder(h)),
+          holders.filter(h => !isBondingCurveHolder(h))
+        );
+        diff.changes = diff.changes.filter(c => c.kind !== 'unchanged');
+      }
+      if (options.save) {
+        const snapshot: HolderSnapshot = { mint, takenAt: new Date().toISOString(), holders };
+        fs.writeFileSync(options.save, JSON.stringify(snapshot, null, 2));
+      }
       
       spin.stop();
       
       if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
+        console.log(JSON.stringify({ ...result, analytics, ...(diff && { diff }) }, null, 2));
         return;
       }
       
@@ -276,7 +319,7 @@ tokenCommand
         style: { head: [], border: [] },
       });
       
-      (result.holders ?? []).forEach((holder, i) => {
+      holders.forEach((holder, i) => {
         table.push([
           i + 1,
           shortenAddress(holder.address ?? ''),
@@ -287,6 +330,148 @@ tokenCommand
       });
       
       console.log(table.toString());
+
+      console.log(chalk.bold(`\n📊 Concentration (excluding bonding curve)\n`));
+
+      const stats = new Table({
+        style: { head: [], border: [] },
+      });
+      stats.push(
+        { [chalk.cyan('Holders')]: String(analytics.holders) },
+        { [chalk.cyan('Top 10')]: `${analytics.top10Share.toFixed(2)}%` },
+        { [chalk.cyan('Top 20')]: `${analytics.top20Share.toFixed(2)}%` },
+        { [chalk.cyan('Creator')]: analytics.creatorShare !== null ? `${analytics.creatorShare.toFixed(2)}%` : 'N/A' },
+        { [chalk.cyan('Gini')]: analytics.gini.toFixed(3) },
+        { [chalk.cyan('HHI')]: analytics.hhi.toFixed(0) },
+        ...analytics.thresholds.map(t => ({ [chalk.cyan(`≥ ${t.percent}%`)]: `${t.count} holders` })),
+      );
+      console.log(stats.toString());
+
+      if (options.save) {
+        success(`Snapshot saved to ${options.save}`);
+      }
+
+      if (diff) {
+        console.log(chalk.bold(`\n🔀 Changes since snapshot\n`));
+
+        if (diff.changes.length === 0) {
+          info('No changes');
+        } else {
+          const changes = new Table({
+            head: ['Address', 'Change', 'Before', 'After', 'Share Δ'].map(h => chalk.cyan(h)),
+            style: { head: [], border: [] },
+          });
+          for (const c of diff.changes) {
+            const kind = c.kind === 'new' ? chalk.green('new')
+              : c.kind === 'exited' ? chalk.red('exited')
+              : c.kind === 'accumulated' ? chalk.green(`+${formatTokens(c.change)}`)
+              : chalk.red(`-${formatTokens(-c.change)}`);
+            changes.push([
+              shortenAddress(c.address),
+              kind,
+              formatTokens(c.before),
+              formatTokens(c.after),
+              `${c.shareChange >= 0 ? '+' : ''}${c.shareChange.toFixed(2)} pts`,
+            ]);
+          }
+          console.log(changes.toString());
+        }
+        info(`Accumulated ${formatTokens(diff.accumulated)}, distributed ${formatTokens(diff.distributed)}, ` +
+          `${diff.newHolders} new, ${diff.exitedHolders} exited`);
+      }
+      console.log();
+    } catch (err) {
+      spin.stop();
+      handleError(err);
+    }
+  });
+
+// Price history
+tokenCommand
+  .command('candles <mint>')
+  .description('Show price history as a terminal chart')
+  .option('-i, --interval <interval>', 'Candle interval: 1m, 5m, 15m, 1h, 1d or e.g. 4h, 1w', '1h')
+  .option('-c, --currency <currency>', 'Price currency: sol or usd', 'sol')
+  .option('-l, --limit <number>', 'Number of candles to fetch', '100')
+  .option('--from <date>', 'Start time (inclusive)')
+  .option('--to <date>', 'End time (inclusive)')
+  .option('--line', 'Draw a line chart instead of candlesticks')
+  .option('--height <rows>', 'Chart height in rows', '16')
+  .option('--json', 'Output as JSON')
+  .option('--csv', 'Output as CSV')
+  .action(async (mint: string, options) => {
+    if (options.currency !== 'sol' && options.currency !== 'usd') {
+      handleError(new Error(`Unknown currency "${options.currency}" (expected sol or usd)`));
+    }
+    const limit = Number(options.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      handleError(new Error(`Invalid --limit "${options.limit}" (expected a whole number of at least 1)`));
+    }
+    const height = Number(options.height);
+    if (!Number.isInteger(height) || height < 2) {
+      handleError(new Error(`Invalid --height "${options.height}" (expected a whole number of at least 2)`));
+    }
+    const bounds: { from?: string; to?: string } = {};
+    for (const bound of ['from', 'to'] as const) {
+      if (options[bound] === undefined) continue;
+      const date = new Date(options[bound]);
+      if (Number.isNaN(date.getTime())) {
+        handleError(new Error(`Invalid --${bound} date "${options[bound]}"`));
+      }
+      bounds[bound] = date.toISOString();
+    }
+
+    const spin = spinner('Fetching candles...').start();
+
+    try {
+      const client = createReadOnlyClient();
+      const candles = await loadCandles(client, {
+        mint,
+        interval: options.interval,
+        currency: options.currency,
+        limit,
+        ...bounds,
+      });
+
+      spin.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify({ mint, interval: options.interval, currency: options.currency, candles }, null, 2));
+        return;
+      }
+
+      if (options.csv) {
+        console.log(toCsv(
+          ['time', 'open', 'high', 'low', 'close', 'volume'],
+          candles.map(c => [new Date(c.time * 1000).toISOString(), c.open, c.high, c.low, c.close, c.volume])
+        ));
+        return;
+      }
+
+      if (candles.length === 0) {
+        info('No candles in this range');
+        return;
+      }
+
+      const usd = options.currency === 'usd';
+      const first = candles[0];
+      const last = candles[candles.length - 1];
+      const change = first.open > 0 ? ((last.close - first.open) / first.open) * 100 : null;
+      const price = (value: number) => `${usd ? '$' : ''}${formatChartPrice(value)}${usd ? '' : ' SOL'}`;
+
+      console.log(chalk.bold(`\n🕯️  ${shortenAddress(mint)} · ${options.interval} · ${options.currency.toUpperCase()}\n`));
+      console.log(renderChart(candles, {
+        style: options.line ? 'line' : 'candles',
+        height,
+        formatPrice: value => `${usd ? '$' : ''}${formatChartPrice(value)}`,
+      }));
+      console.log();
+      console.log(
+        `${chalk.cyan('Last')} ${price(last.close)}  ` +
+        `${chalk.cyan('High')} ${price(Math.max(...candles.map(c => c.high)))}  ` +
+        `${chalk.cyan('Low')} ${price(Math.min(...candles.map(c => c.low)))}  ` +
+        `${chalk.cyan('Change')} ${formatPriceChange(change)}`
+      );
       console.log();
     } catch (err) {
       spin.stop();
@@ -294,4 +479,10 @@ tokenCommand
     }
   });
 
-// NOTE: Token watch command removed (streaming not yet supported)
+// Watch token price (alias for `stream token`)
+tokenCommand
+  .command('watch <mint>')
+  .description('Watch live price and market cap updates')
+  .option('--append', 'Print one line per update instead of a live table')
+  .option('--json', 'Output one JSON object per line (NDJSON)')
+  .action((mint: string, options) => runTokenStream(mint, options));
@@ -5,8 +5,46 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { createClient } from '@clawdvault/sdk';
-import { spinner, formatSol, formatTokens, formatPriceChange, shortenAddress, handleError } from '../utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import { compileFilter, screenTokens, type SavedScreen } from '@clawdvault/sdk';
+import {
+  spinner,
+  formatSol,
+  formatTokens,
+  formatUsd,
+  formatPriceChange,
+  shortenAddress,
+  handleError,
+  success,
+  info,
+  getConfigDir,
+  createReadOnlyClient,
+} from '../utils';
+
+function getScreensPath(): string {
+  return path.join(getConfigDir(), 'screens.json');
+}
+
+function loadScreens(): Record<string, SavedScreen> {
+  const screensPath = getScreensPath();
+  if (!fs.existsSync(screensPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(screensPath, 'utf-8')) as Record<string, SavedScreen>;
+  } catch {
+    return {};
+  }
+}
+
+function saveScreens(screens: Record<string, SavedScreen>): void {
+  const configDir = getConfigDir();
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true });
+  }
+  fs.writeFileSync(getScreensPath(), JSON.stringify(screens, null, 2));
+}
 
 export const tokensCommand = new Command('tokens')
   .description('List tokens');
@@ -24,7 +62,7 @@ tokensCommand
     const spin = spinner('Fetching tokens...').start();
     
     try {
-      const client = createClient();
+      const client = createReadOnlyClient();
       
       let graduated: boolean | undefined;
       if (options.graduated) graduated = true;
@@ -83,6 +121,139 @@ tokensCommand
     }
   });
 
+// Screen tokens with a filter expression
+tokensCommand
+  .command('screen [expression]')
+  .description('Find tokens matching a filter expression')
+  .option('-s, --sort <field>', 'Sort matches by any token field, or age')
+  .option('--asc', 'Sort ascending (default: descending)')
+  .option('-l, --limit <number>', 'Maximum matches to show (default: 20)')
+  .option('--graduated', 'Only scan graduated tokens')
+  .option('--not-graduated', 'Only scan non-graduated tokens')
+  .option('--scan <number>', 'Maximum tokens to scan', '1000')
+  .option('-n, --name <name>', 'Run a saved screen')
+  .option('--save <name>', 'Save this screen under a name')
+  .option('--screens', 'List saved screens')
+  .option('--json', 'Output as JSON')
+  .action(async (expression: string | undefined, options) => {
+    const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      handleError(new Error(`Invalid --limit "${options.limit}" (expected a whole number of at least 1)`));
+    }
+    const maxScanned = Number(options.scan);
+    if (!Number.isInteger(maxScanned) || maxScanned < 1) {
+      handleError(new Error(`Invalid --scan "${options.scan}" (expected a whole number of at least 1)`));
+    }
+    const screens = loadScreens();
+
+    if (options.screens) {
+      const names = Object.keys(screens);
+      if (names.length === 0) {
+        info('No saved screens');
+        return;
+      }
+      const table = new Table({
+        head: ['Name', 'Filter', 'Sort', 'Limit'].map(h => chalk.cyan(h)),
+        style: { head: [], border: [] },
+      });
+      for (const name of names) {
+        const screen = screens[name];
+        table.push([
+          chalk.bold(name),
+          screen.filter,
+          screen.sort ? `${screen.sort} ${screen.order ?? 'desc'}` : '-',
+          screen.limit ?? '-',
+        ]);
+      }
+      console.log(table.toString());
+      return;
+    }
+
+    let screen: SavedScreen;
+    if (options.name) {
+      if (!screens[options.name]) {
+        handleError(new Error(`No saved screen named "${options.name}"`));
+      }
+      // Flags given on the command line override the saved ones
+      screen = { ...screens[options.name] };
+      if (expression) screen.filter = expression;
+      if (options.sort) screen.sort = options.sort;
+      if (options.asc) screen.order = 'asc';
+    } else {
+      if (!expression) {
+        handleError(new Error('Provide a filter expression or --name <saved screen>'));
+      }
+      screen = { filter: expression, sort: options.sort, order: options.asc ? 'asc' : 'desc' };
+    }
+    screen.limit = limit ?? screen.limit ?? 20;
+    if (options.graduated) screen.graduated = true;
+    if (options.notGraduated) screen.graduated = false;
+
+    try {
+      // Validate before saving or scanning
+      compileFilter(screen.filter);
+    } catch (err) {
+      handleError(err);
+    }
+
+    if (options.save) {
+      screens[options.save] = screen;
+      saveScreens(screens);
+      success(`Saved screen "${options.save}"`);
+    }
+
+    const spin = spinner('Screening tokens...').start();
+
+    try {
+      const client = createReadOnlyClient();
+      const tokens = await screenTokens(client, screen.filter, {
+        sort: screen.sort,
+        order: screen.order,
+        limit: screen.limit,
+        graduated: screen.graduated,
+        maxScanned,
+      });
+
+      spin.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify({ screen, tokens }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`\n🔎 ${tokens.length} token${tokens.length === 1 ? '' : 's'} matching ${chalk.cyan(screen.filter)}\n`));
+
+      if (tokens.length === 0) {
+        return;
+      }
+
+      const table = new Table({
+        head: ['Symbol', 'Name', 'Market Cap', 'Volume 24h', 'Holders', '24h Change', 'Age', 'Mint'].map(h => chalk.cyan(h)),
+        style: { head: [], border: [] },
+      });
+
+      for (const token of tokens) {
+        const ageHours = token.created_at ? (Date.now() - Date.parse(token.created_at)) / 3_600_000 : null;
+        table.push([
+          chalk.bold(token.symbol ?? '???'),
+          token.name ?? 'Unknown',
+          token.market_cap_usd !== undefined ? formatUsd(token.market_cap_usd) : formatSol(token.market_cap_sol ?? 0),
+          formatSol(token.volume_24h ?? 0),
+          token.holders ?? '-',
+          formatPriceChange(token.price_change_24h),
+          ageHours === null ? '-' : ageHours < 48 ? `${ageHours.toFixed(1)}h` : `${(ageHours / 24).toFixed(0)}d`,
+          shortenAddress(token.mint ?? ''),
+        ]);
+      }
+
+      console.log(table.toString());
+      console.log();
+    } catch (err) {
+      spin.stop();
+      handleError(err);
+    }
+  });
+
 // Add shortcut so `clawdvault tokens` without subcommand also lists
 tokensCommand.action(async () => {
   const listCmd = tokensCommand.commands.find(c => c.name() === 'list');
@@ -5,6 +5,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import Table from 'cli-table3';
+import * as fs from 'fs';
 import { 
   spinner, 
   formatSol, 
@@ -20,6 +21,78 @@ import {
   createReadOnlyClient,
   requireWallet,
 } from '../utils';
+import { runTradeStream } from './stream';
+import {
+  exportTrades,
+  formatTradeExport,
+  type ClawdVaultClient,
+  type TradeExportFormat,
+  type TransactionSimulation,
+} from '@clawdvault/sdk';
+
+/**
+ * Build the trade transaction (bonding curve or Jupiter) and simulate it without signing
+ */
+async function simulateTrade(
+  client: ClawdVaultClient,
+  wallet: string,
+  mint: string,
+  type: 'buy' | 'sell',
+  amount: number,
+  slippage: number
+): Promise<TransactionSimulation> {
+  const jupiterStatus = await client.getJupiterStatus(mint);
+  let transaction: string | undefined;
+  if (jupiterStatus.graduated) {
+    const quote = await client.getJupiterQuote({
+      mint,
+      action: type,
+      // Lamports for buys, 6-decimal base units for sells (same as buyJupiter/sellJupiter)
+      amount: Math.floor(amount * (type === 'buy' ? 1e9 : 1e6)).toString(),
+      userPublicKey: wallet,
+      slippageBps: Math.floor(slippage * 10000),
+    });
+    transaction = quote.transaction;
+  } else {
+    const prepared = await client.prepareTrade({ mint, type, amount, wallet, slippage });
+    transaction = prepared.transaction;
+  }
+  if (!transaction) {
+    throw new Error('API did not return a transaction to simulate');
+  }
+  return client.simulateTransaction(transaction);
+}
+
+function printSimulation(simulation: TransactionSimulation, wallet: string): void {
+  console.log(chalk.bold('\n🧪 Simulation\n'));
+
+  const table = new Table({
+    style: { head: [], border: [] },
+  });
+  table.push(
+    { [chalk.cyan('Result')]: simulation.success ? chalk.green('Success') : chalk.red(`Failed: ${JSON.stringify(simulation.err)}`) },
+    { [chalk.cyan('Compute Units')]: simulation.unitsConsumed?.toLocaleString() ?? 'N/A' },
+  );
+  for (const balance of simulation.balances) {
+    if (balance.address === wallet) {
+      const change = ((balance.postLamports ?? 0) - (balance.preLamports ?? 0)) / 1e9;
+      table.push({ [chalk.cyan('SOL Change')]: formatSol(change) });
+    } else if (balance.mint) {
+      // ClawdVault tokens have 6 decimals
+      const change = Number((balance.postTokenAmount ?? 0n) - (balance.preTokenAmount ?? 0n)) / 1e6;
+      table.push({ [chalk.cyan(`Tokens ${shortenAddress(balance.mint)}`)]: `${change >= 0 ? '+' : '-'}${formatTokens(Math.abs(change))}` });
+    }
+  }
+  console.log(table.toString());
+
+  if (!simulation.success && simulation.logs.length > 0) {
+    console.log(chalk.bold('\nLogs\n'));
+    for (const line of simulation.logs) {
+      console.log(chalk.gray(`  ${line}`));
+    }
+  }
+}
+
 export const tradeCommand = new Command('trade')
   .description('Trading operations');
 
@@ -31,7 +104,7 @@ tradeCommand
   .requiredOption('-a, --sol <amount>', 'Amount of SOL to spend')
   .option('-s, --slippage <percent>', 'Slippage tolerance (default: 1%)', '1')
   .option('-w, --wallet <path>', 'Wallet file path')
-  .option('--simulate', 'Only simulate, don\'t execute')
+  .option('--simulate', 'Simulate the transaction on-chain without executing')
   .action(async (options) => {
     const { client, signer, walletAddress } = createClientWithWallet(options.wallet);
     requireWallet(signer);
@@ -71,7 +144,12 @@ tradeCommand
       console.log(table.toString());
       
       if (options.simulate) {
+        const simSpin = spinner('Simulating transaction...').start();
+        const simulation = await simulateTrade(client, signer.publicKey.toBase58(), options.mint, 'buy', solAmount, slippage);
+        simSpin.stop();
+        printSimulation(simulation, signer.publicKey.toBase58());
         info('Simulation only - no transaction executed');
+        if (!simulation.success) process.exit(1);
         return;
       }
       
@@ -119,7 +197,7 @@ tradeCommand
   .option('-p, --percent <percent>', 'Percentage of holdings to sell')
   .option('-s, --slippage <percent>', 'Slippage tolerance (default: 1%)', '1')
   .option('-w, --wallet <path>', 'Wallet file path')
-  .option('--simulate', 'Only simulate, don\'t execute')
+  .option('--simulate', 'Simulate the transaction on-chain without executing')
   .action(async (options) => {
     const { client, signer, walletAddress } = createClientWithWallet(options.wallet);
     requireWallet(signer);
@@ -186,7 +264,12 @@ tradeCommand
       console.log(table.toString());
       
       if (options.simulate) {
+        const simSpin = spinner('Simulating transaction...').start();
+        const simulation = await simulateTrade(client, signer.publicKey.toBase58(), options.mint, 'sell', tokenAmount, slippage);
+        simSpin.stop();
+        printSimulation(simulation, signer.publicKey.toBase58());
         info('Simulation only - no transaction executed');
+        if (!simulation.success) process.exit(1);
         return;
       }
       
@@ -340,4 +423,70 @@ tradeCommand
     }
   });
 
-// NOTE: Trade stream command removed (streaming not yet supported)
+// Export trade history for accounting
+tradeCommand
+  .command('export')
+  .description('Export trade history as CSV or NDJSON')
+  .requiredOption('-m, --mint <mints...>', 'Token mint address(es)')
+  .option('--mine', 'Only trades by your wallet')
+  .option('--trader <address>', 'Only trades by this wallet')
+  .option('-w, --wallet <path>', 'Wallet file path (with --mine)')
+  .option('--from <date>', 'Earliest trade to include (inclusive)')
+  .option('--to <date>', 'Latest trade to include (exclusive)')
+  .option('-f, --format <format>', 'Output format: csv or ndjson', 'csv')
+  .option('-o, --output <path>', 'Write to a file instead of stdout')
+  .action(async (options) => {
+    if (options.format !== 'csv' && options.format !== 'ndjson') {
+      handleError(new Error(`Unknown format "${options.format}" (expected csv or ndjson)`));
+    }
+    for (const bound of ['from', 'to'] as const) {
+      if (options[bound] !== undefined && Number.isNaN(new Date(options[bound]).getTime())) {
+        handleError(new Error(`Invalid --${bound} date "${options[bound]}"`));
+      }
+    }
+
+    let trader: string | undefined = options.trader;
+    if (options.mine) {
+      const { signer } = createClientWithWallet(options.wallet);
+      requireWallet(signer);
+      trader = signer.publicKey.toBase58();
+    }
+
+    const spin = spinner('Exporting trades...').start();
+
+    try {
+      const client = createReadOnlyClient();
+      const network = await client.getNetworkStatus().then(s => s.network).catch(() => undefined);
+
+      const rows = await exportTrades(client, {
+        mints: options.mint,
+        trader,
+        from: options.from,
+        to: options.to,
+        network,
+      });
+      const output = formatTradeExport(rows, options.format as TradeExportFormat);
+
+      spin.stop();
+
+      if (options.output) {
+        fs.writeFileSync(options.output, output + '\n');
+        success(`Exported ${rows.length} trades to ${options.output}`);
+      } else {
+        console.log(output);
+      }
+    } catch (err) {
+      spin.stop();
+      handleError(err);
+    }
+  });
+
+// Stream trades (alias for `stream trades`)
+tradeCommand
+  .command('stream')
+  .description('Stream live trades for a token')
+  .requiredOption('-m, --mint <address>', 'Token mint address')
+  .option('-l, --limit <number>', 'Rows to keep in table mode', '20')
+  .option('--append', 'Print one line per trade instead of a live table')
+  .option('--json', 'Output one JSON object per line (NDJSON)')
+  .action((options) => runTradeStream(options.mint, options));
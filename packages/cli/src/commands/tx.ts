@@ -0,0 +1,150 @@
+/**
+ * Transaction commands - decode and review transactions before signing
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import * as fs from 'fs';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import {
+  decodeTransaction,
+  inspectTransaction,
+  type DecodedAccount,
+  type DecodedTransaction,
+  type DecodedTransfer,
+} from '@clawdvault/sdk';
+import {
+  formatSol,
+  handleError,
+  success,
+  warn,
+  loadSigner,
+} from '../utils';
+
+export const txCommand = new Command('tx')
+  .description('Transaction tools');
+
+// Decode a base64 transaction
+txCommand
+  .command('decode [transaction]')
+  .description('Decode a base64 transaction (reads stdin if omitted)')
+  .option('-f, --file <path>', 'Read the base64 transaction from a file')
+  .option('-w, --wallet <path>', 'Wallet to run the pre-sign safety check against')
+  .option('--json', 'Output as JSON')
+  .action(async (transaction: string | undefined, options) => {
+    try {
+      const base64 = (transaction ?? (options.file ? fs.readFileSync(options.file, 'utf-8') : await readStdin())).trim();
+      if (!base64) {
+        throw new Error('No transaction provided');
+      }
+
+      const decoded = decodeTransaction(base64);
+      const signer = loadSigner(options.wallet);
+      const inspection = signer ? inspectTransaction(base64, signer.publicKey) : null;
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...decoded, issues: inspection?.issues }, jsonReplacer, 2));
+        return;
+      }
+
+      printDecoded(decoded);
+
+      if (inspection) {
+        const wallet = signer!.publicKey.toBase58();
+        if (inspection.issues.length === 0) {
+          success(`Safety check passed for ${wallet}`);
+        } else {
+          warn(`Safety check failed for ${wallet}:`);
+          for (const issue of inspection.issues) {
+            console.log(chalk.red(`  - ${issue.message}`));
+          }
+        }
+        console.log();
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return Promise.resolve('');
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => { data += chunk; });
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+}
+
+/** JSON.stringify can't serialize bigint amounts */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function formatAccount(account: DecodedAccount): string {
+  const address = account.address ?? chalk.gray(`lookup ${account.lookupTable}[${account.lookupIndex}]`);
+  const flags = [account.signer ? chalk.yellow('signer') : '', account.writable ? chalk.magenta('writable') : '']
+    .filter(Boolean)
+    .join(' ');
+  return flags ? `${address} ${flags}` : address;
+}
+
+function formatTransfer(transfer: DecodedTransfer): string {
+  if (transfer.kind === 'sol') {
+    return formatSol(Number(transfer.amount) / LAMPORTS_PER_SOL);
+  }
+  if (transfer.decimals !== undefined) {
+    return `${Number(transfer.amount) / 10 ** transfer.decimals} tokens`;
+  }
+  return `${transfer.amount} base units`;
+}
+
+function printDecoded(decoded: DecodedTransaction): void {
+  console.log(chalk.bold('\n🧾 Transaction\n'));
+
+  const summary = new Table({
+    style: { head: [], border: [] },
+  });
+  summary.push(
+    { [chalk.cyan('Version')]: String(decoded.version) },
+    { [chalk.cyan('Fee Payer')]: decoded.feePayer },
+    { [chalk.cyan('Blockhash')]: decoded.recentBlockhash },
+  );
+  for (const { signer, signature } of decoded.signatures) {
+    summary.push({ [chalk.cyan('Signer')]: `${signer} ${signature ? chalk.green('signed') : chalk.gray('unsigned')}` });
+  }
+  const { unitLimit, unitPrice, heapFrameBytes } = decoded.computeBudget;
+  if (unitLimit !== undefined) summary.push({ [chalk.cyan('Compute Limit')]: `${unitLimit.toLocaleString()} CU` });
+  if (unitPrice !== undefined) summary.push({ [chalk.cyan('Priority Fee')]: `${unitPrice} micro-lamports/CU` });
+  if (heapFrameBytes !== undefined) summary.push({ [chalk.cyan('Heap Frame')]: `${heapFrameBytes} bytes` });
+  console.log(summary.toString());
+
+  console.log(chalk.bold('\nInstructions\n'));
+  for (const ix of decoded.instructions) {
+    const label = ix.program ? `${ix.program}${ix.name ? `: ${ix.name}` : ''}` : chalk.red('Unknown program');
+    console.log(`${chalk.bold(`#${ix.index}`)} ${label} ${chalk.gray(ix.programId)}`);
+    ix.accounts.forEach((account, i) => console.log(`   ${chalk.gray(String(i).padStart(2))} ${formatAccount(account)}`));
+    if (!ix.name && ix.data) console.log(`   ${chalk.gray(`data ${ix.data}`)}`);
+  }
+
+  if (decoded.transfers.length > 0) {
+    console.log(chalk.bold('\nTransfers\n'));
+    const table = new Table({
+      head: ['#', 'Type', 'Amount', 'From', 'To'].map(h => chalk.cyan(h)),
+      style: { head: [], border: [] },
+    });
+    for (const transfer of decoded.transfers) {
+      table.push([
+        String(transfer.instruction),
+        transfer.kind.toUpperCase(),
+        formatTransfer(transfer),
+        transfer.from ?? chalk.gray('lookup'),
+        transfer.to ?? chalk.gray('lookup'),
+      ]);
+    }
+    console.log(table.toString());
+  }
+  console.log();
+}
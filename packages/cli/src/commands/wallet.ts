@@ -40,10 +40,12 @@ import {
   loadSigner,
   requireWallet,
   loadAuthConfig,
-  saveAuthConfig,
   clearAuthConfig,
   getAuthConfigPath,
+  getSessionStore,
+  getEnvironment,
 } from '../utils';
+import { explorerTxUrl, type ClawdVaultClient, type KeypairSigner } from '@clawdvault/sdk';
 
 export const walletCommand = new Command('wallet')
   .description('Wallet operations');
@@ -299,9 +301,9 @@ walletCommand
     }
   });
 
-// Helper to get RPC URL
+// Helper to get RPC URL - SOLANA_RPC_URL or the selected environment's RPC
 function getRpcUrl(): string {
-  return process.env.SOLANA_RPC_URL || process.env.RPC_URL || 'https://api.devnet.solana.com';
+  return getEnvironment().rpcUrl;
 }
 
 // Check if on devnet
@@ -309,12 +311,60 @@ function isDevnet(rpcUrl: string): boolean {
   return rpcUrl.includes('devnet');
 }
 
+interface WalletConnection {
+  connection: Connection;
+  /** Requests go through the ClawdVault /rpc proxy */
+  proxied: boolean;
+  rpc: string;
+  network: string;
+}
+
+// Explicit --rpc / SOLANA_RPC_URL wins, otherwise use the ClawdVault /rpc proxy (no API key needed)
+async function getConnection(client: ClawdVaultClient, rpcOption?: string): Promise<WalletConnection> {
+  const rpcUrl = rpcOption || process.env.SOLANA_RPC_URL || process.env.RPC_URL;
+  if (rpcUrl) {
+    return {
+      connection: new Connection(rpcUrl, 'confirmed'),
+      proxied: false,
+      rpc: rpcUrl,
+      network: isDevnet(rpcUrl) ? 'devnet' : 'mainnet',
+    };
+  }
+  const status = await client.getNetworkStatus();
+  return {
+    connection: client.rpc.connection('confirmed'),
+    proxied: true,
+    rpc: client.rpc.endpoint,
+    network: status.network ?? 'mainnet',
+  };
+}
+
+// Sign, send and confirm a transaction
+async function sendAndConfirm(
+  client: ClawdVaultClient,
+  conn: WalletConnection,
+  transaction: Transaction,
+  signer: KeypairSigner
+): Promise<string> {
+  if (!conn.proxied) {
+    return sendAndConfirmTransaction(conn.connection, transaction, [signer.keypair], { commitment: 'confirmed' });
+  }
+  // The proxy is HTTP-only, so confirm by polling rather than a websocket subscription
+  const { blockhash } = await conn.connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = signer.publicKey;
+  transaction.sign(signer.keypair);
+  const signature = await conn.connection.sendRawTransaction(transaction.serialize());
+  await client.rpc.confirmTransaction(signature, { commitment: 'confirmed' });
+  return signature;
+}
+
 // SOL balance
 walletCommand
   .command('sol-balance')
   .description('Get SOL balance with USD value')
   .option('-w, --wallet <path>', 'Wallet file path')
-  .option('--rpc <url>', 'Solana RPC URL')
+  .option('--rpc <url>', 'Solana RPC URL (default: ClawdVault RPC proxy)')
   .option('--json', 'Output as JSON')
   .action(async (options) => {
     const spin = spinner('Fetching SOL balance...').start();
@@ -323,8 +373,7 @@ walletCommand
       const { client, signer, walletAddress } = createClientWithWallet(options.wallet);
       requireWallet(signer);
       
-      const rpcUrl = options.rpc || getRpcUrl();
-      const connection = new Connection(rpcUrl, 'confirmed');
+      const { connection, rpc, network } = await getConnection(client, options.rpc);
       
       // Get SOL balance
       const balanceLamports = await connection.getBalance(signer.publicKey);
@@ -349,8 +398,8 @@ walletCommand
         lamports: balanceLamports,
         usdValue: usdValue,
         solPrice: solPrice,
-        rpc: rpcUrl,
-        network: isDevnet(rpcUrl) ? 'devnet' : 'mainnet',
+        rpc,
+        network,
       };
       
       if (options.json) {
@@ -388,10 +437,10 @@ walletCommand
   .option('-m, --mint <address>', 'Token mint address (for token transfers)')
   .option('-a, --amount <amount>', 'Amount of tokens to send')
   .option('-w, --wallet <path>', 'Wallet file path')
-  .option('--rpc <url>', 'Solana RPC URL')
+  .option('--rpc <url>', 'Solana RPC URL (default: ClawdVault RPC proxy)')
   .action(async (options) => {
     try {
-      const { signer, walletAddress } = createClientWithWallet(options.wallet);
+      const { client, signer, walletAddress } = createClientWithWallet(options.wallet);
       requireWallet(signer);
       
       // Validate inputs
@@ -405,8 +454,8 @@ walletCommand
         process.exit(1);
       }
       
-      const rpcUrl = options.rpc || getRpcUrl();
-      const connection = new Connection(rpcUrl, 'confirmed');
+      const conn = await getConnection(client, options.rpc);
+      const { connection } = conn;
       const recipient = new PublicKey(options.to);
       
       if (options.sol) {
@@ -429,22 +478,13 @@ walletCommand
           })
         );
         
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [signer.keypair],
-          { commitment: 'confirmed' }
-        );
+        const signature = await sendAndConfirm(client, conn, transaction, signer);
         
         spin.stop();
         success(`Sent ${solAmount} SOL to ${options.to}`);
         console.log();
         info(`Transaction: ${signature}`);
-        if (isDevnet(rpcUrl)) {
-          info(`Explorer: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
-        } else {
-          info(`Explorer: https://explorer.solana.com/tx/${signature}`);
-        }
+        info(`Explorer: ${explorerTxUrl(signature, conn.network)}`);
         console.log();
         
       } else if (options.mint) {
@@ -511,22 +551,13 @@ walletCommand
           )
         );
         
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [signer.keypair],
-          { commitment: 'confirmed' }
-        );
+        const signature = await sendAndConfirm(client, conn, transaction, signer);
         
         spin.stop();
         success(`Sent ${tokenAmount} tokens to ${options.to}`);
         console.log();
         info(`Transaction: ${signature}`);
-        if (isDevnet(rpcUrl)) {
-          info(`Explorer: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
-        } else {
-          info(`Explorer: https://explorer.solana.com/tx/${signature}`);
-        }
+        info(`Explorer: ${explorerTxUrl(signature, conn.network)}`);
         console.log();
       }
     } catch (err) {
@@ -552,7 +583,7 @@ walletCommand
       if (!isDevnet(rpcUrl)) {
         error('Airdrop only works on devnet!');
         info(`Current RPC: ${rpcUrl}`);
-        info('Use --rpc https://api.devnet.solana.com or set SOLANA_RPC_URL');
+        info('Use --env devnet, --rpc https://api.devnet.solana.com or set SOLANA_RPC_URL');
         process.exit(1);
       }
       
@@ -614,35 +645,20 @@ walletCommand
       const walletAddress = signer.publicKey.toBase58();
       
       const { createClient } = require('@clawdvault/sdk');
-      const baseUrl = process.env.CLAWDVAULT_API_URL;
-      const client = createClient({ signer, baseUrl });
-      
-      // Create session via wallet signature
-      const session = await client.createSession();
-      
-      if (!session.token) {
-        spin.stop();
-        error('Failed to get session token');
-        process.exit(1);
-      }
-      
-      // Calculate expiry (default 7 days if not provided)
-      // expiresIn is in seconds
-      const expiresInMs = (session.expiresIn || 7 * 24 * 60 * 60) * 1000;
-      const expiresAt = new Date(Date.now() + expiresInMs).toISOString();
-      
-      // Save auth config
-      saveAuthConfig({
-        sessionToken: session.token,
-        wallet: walletAddress!,
-        expiresAt,
+      const client: ClawdVaultClient = createClient({
+        signer,
+        environment: getEnvironment(),
+        session: { store: getSessionStore() },
       });
       
+      // Create session via wallet signature and save it to auth.json
+      const session = await client.session!.renew();
+      
       spin.stop();
       success('Logged in successfully!');
       console.log();
       info(`Wallet: ${walletAddress}`);
-      info(`Session expires: ${new Date(expiresAt).toLocaleString()}`);
+      info(`Session expires: ${session.expiresAt ? new Date(session.expiresAt).toLocaleString() : 'Unknown'}`);
       info(`Config saved to: ${getAuthConfigPath()}`);
       console.log();
     } catch (err) {
@@ -12,13 +12,19 @@ import { tradeCommand } from './commands/trade';
 import { walletCommand } from './commands/wallet';
 import { chatCommand } from './commands/chat';
 import { agentCommand } from './commands/agent';
+import { streamCommand } from './commands/stream';
+import { txCommand } from './commands/tx';
+import { portfolioCommand } from './commands/portfolio';
+import { pnlCommand } from './commands/pnl';
+import { setEnvironmentName, isEnvironmentSelected, verifyEnvironment } from './utils';
 
 const program = new Command();
 
 program
   .name('clawdvault')
   .description('CLI for ClawdVault - Solana token launchpad')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--env <name>', 'Environment: mainnet, devnet, localnet or custom (default: CLAWDVAULT_ENV or mainnet)');
 
 // Register commands
 program.addCommand(tokensCommand);
@@ -27,10 +33,32 @@ program.addCommand(tradeCommand);
 program.addCommand(walletCommand);
 program.addCommand(chatCommand);
 program.addCommand(agentCommand);
+program.addCommand(streamCommand);
+program.addCommand(txCommand);
+program.addCommand(portfolioCommand);
+program.addCommand(pnlCommand);
+
+// Commands that never call the API or RPC, so they work offline whatever the environment
+const OFFLINE_COMMANDS = new Set([
+  'wallet info',
+  'wallet init',
+  'wallet address',
+  'wallet logout',
+  'wallet status',
+  'tx decode',
+]);
 
 // Global error handling
-program.hook('preAction', () => {
-  // Can add global setup here
+program.hook('preAction', async (_program, actionCommand) => {
+  const { env } = program.opts();
+  if (env) {
+    setEnvironmentName(env);
+  }
+  // An explicitly chosen environment is checked before anything runs against it
+  const commandPath = `${actionCommand.parent?.name()} ${actionCommand.name()}`;
+  if (isEnvironmentSelected() && !OFFLINE_COMMANDS.has(commandPath)) {
+    await verifyEnvironment();
+  }
 });
 
 program.configureOutput({
@@ -39,4 +67,4 @@ program.configureOutput({
   },
 });
 
-program.parse();
+program.parseAsync();
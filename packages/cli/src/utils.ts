@@ -2,12 +2,31 @@
  * CLI Utility Functions
  */
 
-import { createClient, ClawdVaultClient, KeypairSigner } from '@clawdvault/sdk';
+import {
+  createClient,
+  createStreaming,
+  ClawdVaultClient,
+  ClawdVaultStreaming,
+  KeypairSigner,
+  ClawdVaultApiError,
+  RateLimitError,
+  AuthError,
+  TokenGraduatedError,
+  NetworkError,
+  UnsafeTransactionError,
+  FileSessionStore,
+  EnvironmentMismatchError,
+  ENVIRONMENTS,
+  resolveEnvironment,
+  validateEnvironment,
+  type Environment,
+} from '@clawdvault/sdk';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { FileCacheStore } from './cache';
 
 /**
  * Auth config stored in ~/.clawdvault/auth.json
@@ -77,6 +96,13 @@ export function saveAuthConfig(config: AuthConfig): void {
   fs.chmodSync(configPath, 0o600); // Secure permissions
 }
 
+/**
+ * Session store backed by auth.json, so SDK renewals update the CLI login
+ */
+export function getSessionStore(): FileSessionStore {
+  return new FileSessionStore(getAuthConfigPath());
+}
+
 /**
  * Clear auth config (logout)
  */
@@ -140,10 +166,76 @@ export function loadSigner(walletPathOrKey?: string): KeypairSigner | null {
 }
 
 /**
- * Get API base URL from environment or default
+ * Environment picked with the global --env flag
+ */
+let environmentName: string | undefined;
+
+export function setEnvironmentName(name: string): void {
+  environmentName = name;
+}
+
+/**
+ * Whether an environment was chosen explicitly (--env or CLAWDVAULT_ENV)
+ */
+export function isEnvironmentSelected(): boolean {
+  return Boolean(environmentName ?? process.env.CLAWDVAULT_ENV);
+}
+
+/**
+ * Selected environment (default: mainnet) with CLAWDVAULT_API_URL,
+ * SOLANA_RPC_URL and CLAWDVAULT_PROGRAM_ID overrides applied
+ * `custom` starts from mainnet and expects the overrides to be set
+ */
+export function getEnvironment(): Environment {
+  const name = environmentName ?? process.env.CLAWDVAULT_ENV ?? 'mainnet';
+  const environment = name === 'custom'
+    ? { ...ENVIRONMENTS.mainnet, name, network: process.env.CLAWDVAULT_NETWORK ?? ENVIRONMENTS.mainnet.network }
+    : resolveEnvironment(name);
+  return {
+    ...environment,
+    baseUrl: process.env.CLAWDVAULT_API_URL || environment.baseUrl,
+    rpcUrl: process.env.SOLANA_RPC_URL || process.env.RPC_URL || environment.rpcUrl,
+    programId: process.env.CLAWDVAULT_PROGRAM_ID || environment.programId,
+  };
+}
+
+/**
+ * Check the selected environment against the API and RPC, exiting on a mismatch
+ */
+export async function verifyEnvironment(): Promise<void> {
+  const environment = getEnvironment();
+  if (!environment.baseUrl) {
+    error(`Environment "${environment.name}" has no public API`);
+    info('Set CLAWDVAULT_API_URL to a deployment on this network');
+    process.exit(1);
+  }
+  try {
+    await validateEnvironment(createClient({ environment, retry: true }));
+  } catch (err) {
+    if (err instanceof EnvironmentMismatchError) {
+      error(`Environment "${err.environment}" does not match the server:`);
+      for (const mismatch of err.mismatches) {
+        console.error(chalk.red(`  - ${mismatch}`));
+      }
+      info('Check --env, CLAWDVAULT_API_URL and SOLANA_RPC_URL');
+      process.exit(1);
+    }
+    handleError(err);
+  }
+}
+
+/**
+ * Response cache shared by every client in this process, persisted to
+ * ~/.clawdvault/cache.json. Set CLAWDVAULT_NO_CACHE=1 to disable.
  */
-function getBaseUrl(): string | undefined {
-  return process.env.CLAWDVAULT_API_URL;
+let cacheStore: FileCacheStore | undefined;
+
+function getCacheOptions(): { store: FileCacheStore } | false {
+  if (process.env.CLAWDVAULT_NO_CACHE) {
+    return false;
+  }
+  cacheStore ??= new FileCacheStore(path.join(getConfigDir(), 'cache.json'));
+  return { store: cacheStore };
 }
 
 /**
@@ -155,16 +247,14 @@ export function createClientWithWallet(walletPath?: string): {
   walletAddress: string | null;
 } {
   const signer = loadSigner(walletPath);
-  const baseUrl = getBaseUrl();
-  
-  // Load auth config for session token
-  const authConfig = loadAuthConfig();
-  const sessionToken = authConfig?.sessionToken;
   
+  // Session from `wallet login`, renewed with the wallet when it nears expiry
   const client = createClient({ 
     signer: signer || undefined, 
-    baseUrl,
-    sessionToken,
+    environment: getEnvironment(),
+    session: { store: getSessionStore() },
+    retry: true,
+    cache: getCacheOptions(),
   });
   
   return {
@@ -211,8 +301,14 @@ export function requireAuth(): AuthConfig {
  * Use for operations that don't require signing
  */
 export function createReadOnlyClient(): ClawdVaultClient {
-  const baseUrl = getBaseUrl();
-  return createClient({ baseUrl });
+  return createClient({ environment: getEnvironment(), retry: true, cache: getCacheOptions() });
+}
+
+/**
+ * Create streaming client (auto-reconnects on dropped connections)
+ */
+export function createStreamingClient(): ClawdVaultStreaming {
+  return createStreaming(getEnvironment().baseUrl, { autoReconnect: true });
 }
 
 /**
@@ -316,13 +412,29 @@ export function link(url: string): string {
  * Handle command errors
  */
 export function handleError(err: unknown): never {
-  if (err instanceof Error) {
-    const apiError = err as any;
-    if (apiError.response?.error) {
-      error(apiError.response.error);
-    } else {
-      error(err.message);
+  if (err instanceof TokenGraduatedError) {
+    error(err.message);
+    info('Token has graduated - it now trades on Jupiter');
+  } else if (err instanceof RateLimitError) {
+    error(err.message);
+    if (err.retryAfter !== undefined) {
+      info(`Rate limited - retry in ${Math.ceil(err.retryAfter)}s`);
+    }
+  } else if (err instanceof AuthError) {
+    error(err.message);
+    info('Session expired or invalid - run: clawdvault wallet login');
+  } else if (err instanceof ClawdVaultApiError) {
+    error(err.message);
+  } else if (err instanceof NetworkError) {
+    error(err.message);
+    info('Check your connection, --env or CLAWDVAULT_API_URL');
+  } else if (err instanceof UnsafeTransactionError) {
+    error('Refusing to sign transaction returned by the server:');
+    for (const issue of err.issues) {
+      console.error(chalk.red(`  - ${issue.message}`));
     }
+  } else if (err instanceof Error) {
+    error(err.message);
   } else {
     error(String(err));
   }
@@ -0,0 +1,86 @@
+/**
+ * Cancellation helpers for client requests
+ * Combines a caller's AbortSignal with the global request timeout
+ */
+
+import { RequestAbortedError } from './errors';
+
+/**
+ * Per-call options accepted by every public client method
+ */
+export interface CallOptions {
+  /** Abort the call (and any remaining steps of a prepare → sign → execute chain) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Signal for a single HTTP attempt
+ */
+export interface AttemptSignal {
+  /** Fires when the caller aborts or the timeout elapses */
+  signal?: AbortSignal;
+  /** Whether the attempt was cut short by the timeout (as opposed to the caller) */
+  timedOut(): boolean;
+  /** Clear the timer and detach listeners - call once the attempt settles */
+  cleanup(): void;
+}
+
+/**
+ * Link the caller's signal with an optional timeout
+ * AbortSignal.any() is Node 20+, so listeners are wired by hand
+ */
+export function createAttemptSignal(signal: AbortSignal | undefined, timeoutMs: number | undefined): AttemptSignal {
+  if (!timeoutMs) {
+    return { signal, timedOut: () => false, cleanup: () => {} };
+  }
+
+  const controller = new AbortController();
+  let didTimeOut = false;
+  const timer = setTimeout(() => {
+    didTimeOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    cleanup: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Throw RequestAbortedError if the signal has already fired
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, what = 'Request'): void {
+  if (signal?.aborted) {
+    throw new RequestAbortedError(`${what} aborted`, signal.reason);
+  }
+}
+
+/**
+ * Sleep that rejects with RequestAbortedError when the signal fires
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError('Request aborted', signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
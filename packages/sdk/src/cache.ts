@@ -0,0 +1,238 @@
+/**
+ * Client-side response cache
+ * Transport middleware that serves repeated GETs from a pluggable store with
+ * per-route TTLs and coalesces identical requests already in flight
+ */
+
+import { routePattern, type Middleware, type TransportNext, type TransportRequest } from './transport';
+
+/**
+ * Stored response
+ */
+export interface CacheEntry {
+  status: number;
+  headers: [string, string][];
+  body: string;
+  /** Unix ms */
+  storedAt: number;
+  /** Unix ms, `Number.MAX_SAFE_INTEGER` for sticky entries */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend - may be sync or async
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * How long one route is cached
+ */
+export interface CacheRule {
+  ttlMs: number;
+  /** Keep the response forever once this returns true for its JSON body */
+  sticky?: (body: any) => boolean;
+}
+
+/**
+ * Rules by API path; `*` matches one path segment, e.g. `/tokens/*`
+ * A number is shorthand for `{ ttlMs }`; `null` turns caching off for a default route
+ */
+export type CacheRoutes = Record<string, number | CacheRule | null>;
+
+export interface CacheOptions {
+  /** Where responses live (default: `new MemoryCacheStore()`) */
+  store?: CacheStore;
+  /** Merged over `DEFAULT_CACHE_ROUTES` */
+  routes?: CacheRoutes;
+}
+
+/**
+ * Default TTLs - routes not listed here are never cached
+ */
+export const DEFAULT_CACHE_ROUTES: Readonly<Record<string, CacheRule>> = {
+  // Matches the server's own SOL price cache
+  '/sol-price': { ttlMs: 60_000 },
+  // Metadata is immutable once a token is created
+  '/metadata/*': { ttlMs: 24 * 60 * 60_000 },
+  // Graduation never reverts
+  '/graduate': { ttlMs: 15_000, sticky: body => body?.data?.graduated === true },
+  '/trade/jupiter': { ttlMs: 15_000, sticky: body => body?.graduated === true },
+  '/tokens/*': { ttlMs: 5_000 },
+};
+
+/**
+ * In-memory LRU store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+interface InFlight {
+  entry: Promise<CacheEntry>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Response cache - pass `cache: true` or options to the client, or add
+ * `cache.middleware` to a `middleware` chain yourself
+ *
+ * @example
+ * const client = createClient({ cache: { routes: { '/sol-price': 30_000, '/tokens/*': null } } });
+ * await client.cache?.invalidate('/tokens/*');
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  private routes: [RegExp, CacheRule][];
+  private inFlight = new Map<string, InFlight>();
+  // Invalidation time by pattern; entries stored before it are misses
+  private invalidations = new Map<string, { pattern: RegExp; at: number }>();
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    const merged: CacheRoutes = { ...DEFAULT_CACHE_ROUTES, ...options.routes };
+    this.routes = Object.entries(merged)
+      .filter((route): route is [string, number | CacheRule] => route[1] !== null)
+      .map(([pattern, rule]) => [routePattern(pattern), typeof rule === 'number' ? { ttlMs: rule } : rule]);
+  }
+
+  /** Caching middleware for the client's transport */
+  readonly middleware: Middleware = async (request, next) => {
+    const rule = this.ruleFor(request);
+    if (!rule) return next(request);
+
+    const key = request.url;
+    const cached = await this.store.get(key);
+    if (cached && cached.expiresAt > Date.now() && !this.isInvalidated(request.path, cached)) {
+      return toResponse(cached);
+    }
+
+    return toResponse(await this.shared(key, request, next, rule));
+  };
+
+  /**
+   * Drop cached responses whose path matches `pattern` (same syntax as routes), or everything
+   */
+  async invalidate(pattern?: string): Promise<void> {
+    if (pattern === undefined) {
+      this.invalidations.clear();
+      await this.store.clear();
+      return;
+    }
+    // Stores are keyed by URL and not enumerable, so matching entries are skipped on read
+    this.invalidations.set(pattern, { pattern: routePattern(pattern), at: Date.now() });
+  }
+
+  private isInvalidated(path: string, entry: CacheEntry): boolean {
+    for (const { pattern, at } of this.invalidations.values()) {
+      if (entry.storedAt <= at && pattern.test(path)) return true;
+    }
+    return false;
+  }
+
+  private ruleFor(request: TransportRequest): CacheRule | undefined {
+    // Authenticated responses are per-user; never share them
+    if (request.method !== 'GET' || request.headers['Authorization']) return undefined;
+    return this.routes.find(([pattern]) => pattern.test(request.path))?.[1];
+  }
+
+  /**
+   * Fetch once for every caller waiting on `key`
+   * The shared request is only aborted once every waiter has given up
+   */
+  private shared(key: string, request: TransportRequest, next: TransportNext, rule: CacheRule): Promise<CacheEntry> {
+    let flight = this.inFlight.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const entry = this.fetchEntry(key, { ...request, signal: controller.signal }, next, rule)
+        .finally(() => this.inFlight.delete(key));
+      // Waiters that gave up have already rejected; don't surface it as unhandled
+      entry.catch(() => undefined);
+      flight = { entry, controller, waiters: 0 };
+      this.inFlight.set(key, flight);
+    }
+    return this.wait(flight, request.signal);
+  }
+
+  private wait(flight: InFlight, signal?: AbortSignal): Promise<CacheEntry> {
+    flight.waiters++;
+    if (!signal) return flight.entry;
+
+    return new Promise<CacheEntry>((resolve, reject) => {
+      const onAbort = () => {
+        if (--flight.waiters === 0) flight.controller.abort(signal.reason);
+        reject(signal.reason);
+      };
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      flight.entry.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async fetchEntry(key: string, request: TransportRequest, next: TransportNext, rule: CacheRule): Promise<CacheEntry> {
+    const response = await next(request);
+    const body = await response.text();
+    const now = Date.now();
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+    const entry: CacheEntry = {
+      status: response.status,
+      headers,
+      body,
+      storedAt: now,
+      expiresAt: now + rule.ttlMs,
+    };
+    if (!response.ok) return entry;
+
+    if (rule.sticky) {
+      try {
+        if (rule.sticky(JSON.parse(body))) entry.expiresAt = Number.MAX_SAFE_INTEGER;
+      } catch {
+        // Not JSON - cache with the plain TTL
+      }
+    }
+    await this.store.set(key, entry);
+    return entry;
+  }
+}
+
+function toResponse(entry: CacheEntry): Response {
+  return new Response(entry.body, { status: entry.status, headers: entry.headers });
+}
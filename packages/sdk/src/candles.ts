@@ -0,0 +1,292 @@
+/**
+ * Candle utilities
+ * Gap-filling, resampling to custom intervals and technical indicators on
+ * `getCandles` data. Indicator outputs are `Float64Array`s aligned index for
+ * index with the input candles, `NaN` until enough candles are seen.
+ */
+
+import type { ClawdVaultClient } from './client';
+import type { CandleData, CandlesParams } from './types';
+import type { CallOptions } from './abort';
+
+/** Intervals the candles endpoint serves */
+export type ServerInterval = NonNullable<CandlesParams['interval']>;
+
+/** A complete candle; `time` is the bucket start in unix seconds */
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BollingerBands {
+  middle: Float64Array;
+  upper: Float64Array;
+  lower: Float64Array;
+}
+
+export interface FillGapsOptions {
+  /** First bucket to emit (unix seconds, default: first candle) */
+  from?: number;
+  /** Last bucket to emit (unix seconds, default: last candle) */
+  to?: number;
+}
+
+export interface LoadCandlesOptions extends CallOptions {
+  /** Fill empty intervals with flat zero-volume candles (default: true) */
+  fillGaps?: boolean;
+}
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86_400, w: 604_800 };
+
+const SERVER_INTERVALS: ServerInterval[] = ['1d', '1h', '15m', '5m', '1m'];
+
+// The unix epoch is a Thursday; weekly buckets start on Monday 00:00 UTC
+const WEEK_OFFSET = 4 * 86_400;
+
+/**
+ * Length of an interval such as `15m`, `4h`, `1d` or `1w` in seconds
+ */
+export function intervalSeconds(interval: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(interval);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid candle interval "${interval}" (expected e.g. 5m, 4h, 1d, 1w)`);
+  }
+  return Number(match[1]) * UNIT_SECONDS[match[2]];
+}
+
+/**
+ * Start of the bucket containing `time` (unix seconds)
+ */
+export function bucketStart(time: number, seconds: number): number {
+  const offset = seconds % UNIT_SECONDS.w === 0 ? WEEK_OFFSET : 0;
+  return Math.floor((time - offset) / seconds) * seconds + offset;
+}
+
+/**
+ * Drop incomplete candles, sort by time and keep the last candle for each time
+ */
+export function normalizeCandles(data: CandleData[]): Candle[] {
+  const byTime = new Map<number, Candle>();
+  for (const c of data) {
+    if (c.time === undefined || c.open === undefined || c.high === undefined ||
+        c.low === undefined || c.close === undefined) continue;
+    byTime.set(c.time, { time: c.time, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume ?? 0 });
+  }
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Insert a flat, zero-volume candle at the previous close for every empty interval
+ * Leading buckets before the first candle (when `from` is earlier) are not invented
+ */
+export function fillGaps(candles: Candle[], interval: string, options: FillGapsOptions = {}): Candle[] {
+  if (candles.length === 0) return [];
+  const seconds = intervalSeconds(interval);
+  const first = bucketStart(Math.max(options.from ?? candles[0].time, candles[0].time), seconds);
+  const last = bucketStart(options.to ?? candles[candles.length - 1].time, seconds);
+  const byTime = new Map(candles.map(c => [bucketStart(c.time, seconds), c]));
+
+  const filled: Candle[] = [];
+  let prevClose = candles[0].open;
+  for (let time = first; time <= last; time += seconds) {
+    const candle = byTime.get(time);
+    if (candle) {
+      filled.push(candle);
+      prevClose = candle.close;
+    } else {
+      filled.push({ time, open: prevClose, high: prevClose, low: prevClose, close: prevClose, volume: 0 });
+    }
+  }
+  return filled;
+}
+
+/**
+ * Aggregate candles into a coarser interval such as `4h` or `1w`
+ * Weekly buckets start Monday 00:00 UTC, others are aligned to the unix epoch
+ */
+export function resample(candles: Candle[], interval: string): Candle[] {
+  const seconds = intervalSeconds(interval);
+  const out: Candle[] = [];
+  let current: Candle | null = null;
+
+  for (const c of candles) {
+    const time = bucketStart(c.time, seconds);
+    if (current && current.time === time) {
+      current.high = Math.max(current.high, c.high);
+      current.low = Math.min(current.low, c.low);
+      current.close = c.close;
+      current.volume += c.volume;
+    } else {
+      current = { time, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume };
+      out.push(current);
+    }
+  }
+  return out;
+}
+
+/**
+ * Fetch candles at any interval
+ * Native intervals come straight from `getCandles`; others are resampled from the
+ * largest server interval that divides them (`limit` applies to the server candles)
+ */
+export async function loadCandles(
+  client: ClawdVaultClient,
+  params: Omit<CandlesParams, 'interval'> & { interval?: string },
+  options: LoadCandlesOptions = {}
+): Promise<Candle[]> {
+  const { interval = '5m', ...rest } = params;
+  const seconds = intervalSeconds(interval);
+  const source = SERVER_INTERVALS.find(i => seconds % intervalSeconds(i) === 0);
+  if (!source) {
+    throw new Error(`Candle interval "${interval}" is not a multiple of a server interval (${SERVER_INTERVALS.join(', ')})`);
+  }
+
+  const { candles = [] } = await client.getCandles({ ...rest, interval: source }, { signal: options.signal });
+  let result = normalizeCandles(candles);
+  if (options.fillGaps ?? true) result = fillGaps(result, source);
+  return source === interval ? result : resample(result, interval);
+}
+
+// ============ Indicators ============
+
+/** Closing prices as a typed array */
+export function closes(candles: Candle[]): Float64Array {
+  return Float64Array.from(candles, c => c.close);
+}
+
+/** Candle times as a typed array */
+export function times(candles: Candle[]): Float64Array {
+  return Float64Array.from(candles, c => c.time);
+}
+
+/**
+ * Simple moving average over `period` values
+ */
+export function sma(values: ArrayLike<number>, period: number): Float64Array {
+  assertPeriod(period);
+  const out = new Float64Array(values.length).fill(NaN);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: ArrayLike<number>, period: number): Float64Array {
+  assertPeriod(period);
+  return smoothed(values, period, 2 / (period + 1));
+}
+
+/**
+ * Relative Strength Index with Wilder smoothing (default period: 14)
+ */
+export function rsi(values: ArrayLike<number>, period = 14): Float64Array {
+  assertPeriod(period);
+  const out = new Float64Array(values.length).fill(NaN);
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) continue;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    out[i] = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+  }
+  return out;
+}
+
+/**
+ * Volume-weighted average price of the typical price (high + low + close) / 3
+ * Cumulative from the first candle, or restarting every `resetInterval` (e.g. `1d`)
+ */
+export function vwap(candles: Candle[], resetInterval?: string): Float64Array {
+  const reset = resetInterval ? intervalSeconds(resetInterval) : null;
+  const out = new Float64Array(candles.length).fill(NaN);
+  let session: number | null = null;
+  let pv = 0;
+  let volume = 0;
+
+  candles.forEach((c, i) => {
+    const start = reset !== null ? bucketStart(c.time, reset) : 0;
+    if (start !== session) {
+      session = start;
+      pv = 0;
+      volume = 0;
+    }
+    pv += ((c.high + c.low + c.close) / 3) * c.volume;
+    volume += c.volume;
+    if (volume > 0) out[i] = pv / volume;
+  });
+  return out;
+}
+
+/**
+ * Bollinger bands: SMA ± `multiplier` population standard deviations (defaults: 20, 2)
+ */
+export function bollinger(values: ArrayLike<number>, period = 20, multiplier = 2): BollingerBands {
+  const middle = sma(values, period);
+  const upper = new Float64Array(values.length).fill(NaN);
+  const lower = new Float64Array(values.length).fill(NaN);
+
+  for (let i = period - 1; i < values.length; i++) {
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (values[j] - middle[i]) ** 2;
+    }
+    const band = multiplier * Math.sqrt(variance / period);
+    upper[i] = middle[i] + band;
+    lower[i] = middle[i] - band;
+  }
+  return { middle, upper, lower };
+}
+
+/**
+ * Average True Range with Wilder smoothing (default period: 14)
+ */
+export function atr(candles: Candle[], period = 14): Float64Array {
+  assertPeriod(period);
+  const trueRange = Float64Array.from(candles, (c, i) => i === 0
+    ? c.high - c.low
+    : Math.max(c.high - c.low, Math.abs(c.high - candles[i - 1].close), Math.abs(c.low - candles[i - 1].close)));
+  return smoothed(trueRange, period, 1 / period);
+}
+
+/**
+ * Exponential smoothing with factor `alpha`, seeded with the SMA of the first `period` values
+ */
+function smoothed(values: ArrayLike<number>, period: number, alpha: number): Float64Array {
+  const out = new Float64Array(values.length).fill(NaN);
+  if (values.length < period) return out;
+
+  let value = 0;
+  for (let i = 0; i < period; i++) value += values[i] / period;
+  out[period - 1] = value;
+  for (let i = period; i < values.length; i++) {
+    value = alpha * values[i] + (1 - alpha) * value;
+    out[i] = value;
+  }
+  return out;
+}
+
+function assertPeriod(period: number): void {
+  if (!Number.isInteger(period) || period <= 0) {
+    throw new Error(`Indicator period must be a positive integer, got ${period}`);
+  }
+}
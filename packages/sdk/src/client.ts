@@ -37,6 +37,7 @@ import type {
   SessionValidateResponse,
   UploadResponse,
   NetworkStatusResponse,
+  WalletBalancesResponse,
   TokenListParams,
   QuoteParams,
   TradesParams,
@@ -51,27 +52,166 @@ import type {
   SiteStatsResponse,
   AgentsListParams,
   UsersListParams,
+  AgentEntry,
+  UserEntry,
 } from './types';
 import { WalletSigner, signAndSerialize, createAuthSignature } from './wallet';
+import {
+  ClawdVaultApiError,
+  AuthError,
+  NetworkError,
+  TimeoutError,
+  RequestAbortedError,
+  AbortedAfterSigningError,
+  SimulationFailedError,
+  createApiError,
+} from './errors';
+import { RetryOptions, RetryPolicy, resolveRetryPolicy, isRetryableError, getRetryDelay } from './retry';
+import { CallOptions, createAttemptSignal, throwIfAborted, abortableSleep } from './abort';
+import { IterateOptions, paginateByPage, paginateByCursor, applyStopConditions } from './pagination';
+import { TransactionGuardOptions, assertSafeTransaction } from './inspect';
+import {
+  SimulateOptions,
+  TransactionOptions,
+  TransactionSimulation,
+  Simulated,
+  MultipleAccountsResult,
+  SimulateTransactionResult,
+  writableAccounts,
+  simulationCalls,
+  parseSimulation,
+} from './simulate';
+import { RpcClient, RpcOptions, unwrapRpcResponse } from './rpc';
+import { TradeWatcher, TokenWatcher, WatchOptions, WatchTradesOptions } from './watcher';
+import { FetchLike, Middleware, TransportNext, composeMiddleware, globalFetch } from './transport';
+import { ResponseCache, type CacheOptions } from './cache';
+import { RateLimiter, type RateLimitOptions } from './ratelimit';
+import { SessionManager, type SessionOptions } from './session';
+import { resolveEnvironment, type Environment, type EnvironmentName } from './environment';
 
 export interface ClawdVaultConfig {
+  /**
+   * Deployment to talk to (default: 'mainnet'). Sets the base URL and tells
+   * `validateEnvironment` which network, RPC and program to expect.
+   */
+  environment?: EnvironmentName | Environment;
+  /** API base URL, overriding the environment's */
   baseUrl?: string;
   signer?: WalletSigner;
   sessionToken?: string;
   onError?: (error: Error) => void;
+  /**
+   * Retry transient failures of idempotent calls (GETs and prepare/quote endpoints).
+   * `true` uses the defaults; execute endpoints are never retried.
+   */
+  retry?: boolean | RetryOptions;
+  /** Abort any single HTTP attempt that takes longer than this (ms) */
+  timeoutMs?: number;
+  /** Custom `fetch` implementation (proxies, test doubles, non-standard runtimes) */
+  fetch?: FetchLike;
+  /** Request/response interceptors, run in order around every HTTP attempt */
+  middleware?: Middleware[];
+  /**
+   * Inspect server-built transactions before signing (default: true).
+   * Pass options to allow extra programs or recipients; `false` disables the check.
+   */
+  transactionGuard?: boolean | TransactionGuardOptions;
+  /** Options for `client.rpc`, the Solana JSON-RPC client over the /rpc proxy */
+  rpc?: RpcOptions;
+  /**
+   * Cache GET responses with per-route TTLs and coalesce identical in-flight requests.
+   * `true` uses an in-memory LRU and `DEFAULT_CACHE_ROUTES`.
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Pace requests with per-route-group token buckets, queueing trade calls ahead of bulk reads.
+   * `true` uses `DEFAULT_RATE_LIMIT` and `DEFAULT_RATE_LIMIT_GROUPS`.
+   */
+  rateLimit?: boolean | RateLimitOptions;
+  /**
+   * Manage session tokens for `auth: true` calls: create with the signer on first use,
+   * renew before expiry and retry once on 401. `true` keeps the session in memory.
+   * An explicit `sessionToken` takes precedence.
+   */
+  session?: boolean | SessionOptions;
+}
+
+/**
+ * Options for a single API request
+ */
+interface ApiRequestOptions {
+  params?: Record<string, any>;
+  body?: any;
+  auth?: boolean;
+  formData?: FormData;
+  action?: string;
+  headers?: Record<string, string>;
+  /** Safe to send more than once (defaults to true for GET) */
+  idempotent?: boolean;
+  signal?: AbortSignal;
+}
+
+function isClientError(err: unknown): boolean {
+  return err instanceof ClawdVaultApiError || err instanceof NetworkError || err instanceof RequestAbortedError;
 }
 
 export class ClawdVaultClient {
+  /** Solana JSON-RPC over the /rpc proxy */
+  readonly rpc: RpcClient;
+  /** Response cache, when enabled with `cache` */
+  readonly cache: ResponseCache | null;
+  /** Rate limiter, when enabled with `rateLimit` */
+  readonly rateLimiter: RateLimiter | null;
+  /** Session manager, when enabled with `session` */
+  readonly session: SessionManager | null;
+  /** Deployment this client targets, with `baseUrl` applied */
+  readonly environment: Environment;
   private baseUrl: string;
   private signer?: WalletSigner;
   private sessionToken?: string;
   private onError?: (error: Error) => void;
+  private retryPolicy: RetryPolicy | null;
+  private timeoutMs?: number;
+  private transport: TransportNext;
+  private transactionGuard: TransactionGuardOptions | null;
 
   constructor(config: ClawdVaultConfig = {}) {
-    this.baseUrl = config.baseUrl?.replace(/\/$/, '') || 'https://clawdvault.com/api';
+    const environment = resolveEnvironment(config.environment ?? 'mainnet');
+    this.baseUrl = (config.baseUrl || environment.baseUrl).replace(/\/$/, '');
+    this.environment = { ...environment, baseUrl: this.baseUrl };
     this.signer = config.signer;
     this.sessionToken = config.sessionToken;
     this.onError = config.onError;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.timeoutMs = config.timeoutMs;
+    this.cache = config.cache ? new ResponseCache(config.cache === true ? {} : config.cache) : null;
+    this.rateLimiter = config.rateLimit
+      ? new RateLimiter(config.rateLimit === true ? {} : config.rateLimit)
+      : null;
+    // Cache hits skip the rest of the chain, including the rate limiter
+    this.transport = composeMiddleware(
+      [
+        ...(this.cache ? [this.cache.middleware] : []),
+        ...(this.rateLimiter ? [this.rateLimiter.middleware] : []),
+        ...(config.middleware ?? []),
+      ],
+      config.fetch ?? globalFetch
+    );
+    this.transactionGuard = typeof config.transactionGuard === 'object'
+      ? config.transactionGuard
+      : config.transactionGuard === false ? null : {};
+    this.session = config.session
+      ? new SessionManager(
+        { create: () => this.createSession(), wallet: () => this.getWalletAddress() },
+        config.session === true ? {} : config.session
+      )
+      : null;
+    this.rpc = new RpcClient(
+      (body, { idempotent, signal }) => this.request('POST', '/rpc', { body, idempotent, signal }),
+      `${this.baseUrl}/rpc`,
+      // The rate limiter's `rpc` group already paces /rpc - a second throttle would disagree with it
+      this.rateLimiter ? { requestsPerMinute: Infinity, ...config.rpc } : config.rpc
+    );
   }
 
   /**
@@ -98,13 +238,65 @@ export class ClawdVaultClient {
   private async request<T>(
     method: 'GET' | 'POST' | 'DELETE',
     path: string,
-    options: {
-      params?: Record<string, any>;
-      body?: any;
-      auth?: boolean;
-      formData?: FormData;
-      action?: string;
-    } = {}
+    options: ApiRequestOptions = {}
+  ): Promise<T> {
+    if (!this.baseUrl) {
+      throw new Error(`Environment "${this.environment.name}" has no public API - pass baseUrl`);
+    }
+    const policy = this.retryPolicy;
+    const idempotent = options.idempotent ?? method === 'GET';
+    const maxAttempts = policy && idempotent ? policy.maxAttempts : 1;
+    let renewedSession = false;
+
+    for (let attempt = 1; ; attempt++) {
+      let sessionToken: string | undefined;
+      try {
+        throwIfAborted(options.signal);
+        sessionToken = options.auth ? await this.resolveSessionToken(options) : undefined;
+        return await this.send<T>(method, path, options, attempt, sessionToken);
+      } catch (err) {
+        // A managed session the server rejected gets one retry with a fresh session,
+        // outside the retry budget
+        if (!renewedSession && sessionToken && sessionToken !== this.sessionToken
+          && err instanceof AuthError && err.status === 401) {
+          renewedSession = true;
+          attempt--;
+          await this.session!.invalidate(sessionToken).catch(() => undefined);
+          continue;
+        }
+        if (!policy || attempt >= maxAttempts || !isRetryableError(err, policy)) {
+          this.onError?.(err as Error);
+          throw err;
+        }
+        try {
+          await abortableSleep(getRetryDelay(attempt, err, policy), options.signal);
+        } catch (abortErr) {
+          this.onError?.(abortErr as Error);
+          throw abortErr;
+        }
+      }
+    }
+  }
+
+  /**
+   * Session token for an `auth: true` call - the explicit one, else the managed one
+   */
+  private async resolveSessionToken(options: ApiRequestOptions): Promise<string | undefined> {
+    if (this.sessionToken) return this.sessionToken;
+    // createSession itself authenticates with a wallet signature
+    if (!this.session || options.action === 'session') return undefined;
+    return (await this.session.getToken()) ?? undefined;
+  }
+
+  /**
+   * Perform a single HTTP attempt
+   */
+  private async send<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    options: ApiRequestOptions,
+    attempt = 1,
+    sessionToken?: string
   ): Promise<T> {
     const { params, body, auth, formData, action } = options;
     
@@ -120,12 +312,12 @@ export class ClawdVaultClient {
       if (qs) url += `?${qs}`;
     }
 
-    const headers: Record<string, string> = {};
+    const headers: Record<string, string> = { ...options.headers };
     
     // Add authentication headers
     if (auth) {
-      if (this.sessionToken) {
-        headers['Authorization'] = `Bearer ${this.sessionToken}`;
+      if (sessionToken) {
+        headers['Authorization'] = `Bearer ${sessionToken}`;
       } else if (this.signer && body) {
         const { signature, wallet } = await createAuthSignature(this.signer, body, action);
         headers['X-Wallet'] = wallet;
@@ -136,7 +328,7 @@ export class ClawdVaultClient {
       }
     }
 
-    let requestBody: any;
+    let requestBody: BodyInit | undefined;
     if (formData) {
       requestBody = formData;
     } else if (body) {
@@ -144,22 +336,108 @@ export class ClawdVaultClient {
       requestBody = JSON.stringify(body);
     }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: requestBody,
-    });
+    const attemptSignal = createAttemptSignal(options.signal, this.timeoutMs);
+    // Distinguish our own timeout from the caller's abort from a plain network failure
+    const abortReason = (): Error | null => {
+      if (attemptSignal.timedOut()) {
+        return new TimeoutError(this.timeoutMs!, { method, path });
+      }
+      if (options.signal?.aborted) {
+        return new RequestAbortedError(`Request aborted: ${method} ${path}`, options.signal.reason);
+      }
+      return null;
+    };
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: response.statusText }));
-      const err = new Error(error.error || error.message || `HTTP ${response.status}`);
-      (err as any).status = response.status;
-      (err as any).response = error;
-      this.onError?.(err);
-      throw err;
+    try {
+      let response: Response;
+      try {
+        response = await this.transport({
+          method,
+          url,
+          path,
+          headers,
+          body: requestBody,
+          signal: attemptSignal.signal,
+          attempt,
+        });
+      } catch (cause) {
+        // Typed errors raised by middleware pass through untouched
+        if (isClientError(cause)) throw cause;
+        throw abortReason() ?? new NetworkError(
+          `Network request failed: ${method} ${path}${cause instanceof Error ? ` (${cause.message})` : ''}`,
+          cause,
+          { method, path }
+        );
+      }
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({ error: response.statusText }));
+        throw abortReason() ?? createApiError(response.status, errorBody, {
+          method,
+          path,
+          retryAfter: response.headers.get('Retry-After'),
+        });
+      }
+
+      try {
+        return await response.json();
+      } catch (cause) {
+        throw abortReason() ?? cause;
+      }
+    } finally {
+      attemptSignal.cleanup();
     }
+  }
+
+  /**
+   * Sign a prepared transaction, honoring an abort that fired while preparing
+   * and refusing anything that fails the transaction guard
+   */
+  private async signPrepared(transaction: string, signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal, 'Transaction');
+    if (this.transactionGuard) {
+      assertSafeTransaction(transaction, this.signer!.publicKey, this.transactionGuard);
+    }
+    return signAndSerialize(transaction, this.signer!);
+  }
 
-    return response.json();
+  /**
+   * Submit a signed transaction, reporting aborts distinctly since the
+   * wallet has already signed and the transaction may be valid on-chain.
+   * With `simulate`, the transaction is only submitted if simulation succeeds.
+   */
+  private async executeSigned<T extends object>(
+    signedTransaction: string,
+    options: TransactionOptions,
+    execute: () => Promise<T>
+  ): Promise<Simulated<T>> {
+    const { signal } = options;
+    let simulation: TransactionSimulation | undefined;
+    if (options.simulate) {
+      try {
+        simulation = await this.simulateTransaction(signedTransaction, { signal });
+      } catch (err) {
+        if (err instanceof RequestAbortedError) {
+          throw new AbortedAfterSigningError(signedTransaction, false, err.reason);
+        }
+        throw err;
+      }
+      if (!simulation.success) {
+        throw new SimulationFailedError(simulation);
+      }
+    }
+    if (signal?.aborted) {
+      throw new AbortedAfterSigningError(signedTransaction, false, signal.reason);
+    }
+    try {
+      const result: T = await execute();
+      return simulation ? { ...result, simulation } : result;
+    } catch (err) {
+      if (err instanceof RequestAbortedError) {
+        throw new AbortedAfterSigningError(signedTransaction, true, err.reason);
+      }
+      throw err;
+    }
   }
 
   // ============ Token Operations ============
@@ -167,36 +445,50 @@ export class ClawdVaultClient {
   /**
    * List tokens with optional filters
    */
-  async listTokens(params: Partial<TokenListParams> = {}): Promise<TokenListResponse> {
-    return this.request('GET', '/tokens', { params });
+  async listTokens(params: Partial<TokenListParams> = {}, options: CallOptions = {}): Promise<TokenListResponse> {
+    return this.request('GET', '/tokens', { params, ...options });
+  }
+
+  /**
+   * Iterate all tokens, fetching pages on demand
+   */
+  iterateTokens(
+    params: Partial<Omit<TokenListParams, 'page'>> = {},
+    options: IterateOptions<Token> = {}
+  ): AsyncGenerator<Token, void, undefined> {
+    const pages = paginateByPage(async (page) => {
+      const res = await this.listTokens({ ...params, page }, { signal: options.signal });
+      return { items: res.tokens ?? [], total: res.total, perPage: res.per_page };
+    }, (token) => token.mint, params.per_page);
+    return applyStopConditions(pages, options);
   }
 
   /**
    * Get token details
    */
-  async getToken(mint: string): Promise<TokenDetailResponse> {
-    return this.request('GET', `/tokens/${mint}`);
+  async getToken(mint: string, options: CallOptions = {}): Promise<TokenDetailResponse> {
+    return this.request('GET', `/tokens/${mint}`, options);
   }
 
   /**
    * Get token metadata (Metaplex format)
    */
-  async getMetadata(mint: string): Promise<{ name: string; symbol: string; description: string; image: string }> {
-    return this.request('GET', `/metadata/${mint}`);
+  async getMetadata(mint: string, options: CallOptions = {}): Promise<{ name: string; symbol: string; description: string; image: string }> {
+    return this.request('GET', `/metadata/${mint}`, options);
   }
 
   /**
    * Prepare token creation (step 1)
    */
-  async prepareCreate(params: PrepareCreateRequest): Promise<PrepareCreateResponse> {
-    return this.request('POST', '/token/prepare-create', { body: params });
+  async prepareCreate(params: PrepareCreateRequest, options: CallOptions = {}): Promise<PrepareCreateResponse> {
+    return this.request('POST', '/token/prepare-create', { body: params, idempotent: true, ...options });
   }
 
   /**
    * Execute token creation (step 2)
    */
-  async executeCreate(params: ExecuteCreateRequest): Promise<ExecuteCreateResponse> {
-    return this.request('POST', '/token/execute-create', { body: params });
+  async executeCreate(params: ExecuteCreateRequest, options: CallOptions = {}): Promise<ExecuteCreateResponse> {
+    return this.request('POST', '/token/execute-create', { body: params, ...options });
   }
 
   /**
@@ -212,7 +504,7 @@ export class ClawdVaultClient {
     twitter?: string;
     telegram?: string;
     website?: string;
-  }): Promise<ExecuteCreateResponse> {
+  }, options: TransactionOptions = {}): Promise<Simulated<ExecuteCreateResponse>> {
     if (!this.signer) {
       throw new Error('Signer required for createToken');
     }
@@ -225,13 +517,13 @@ export class ClawdVaultClient {
       name: params.name,
       symbol: params.symbol,
       initialBuy: params.initialBuy,
-    });
+    }, options);
 
     // Step 2: Sign (transaction is guaranteed by API contract)
-    const signedTx = await signAndSerialize(prepared.transaction!, this.signer);
+    const signedTx = await this.signPrepared(prepared.transaction!, options.signal);
 
     // Step 3: Execute
-    return this.executeCreate({
+    return this.executeSigned(signedTx, options, () => this.executeCreate({
       signedTransaction: signedTx,
       mint: prepared.mint!,
       creator: wallet,
@@ -242,7 +534,7 @@ export class ClawdVaultClient {
       twitter: params.twitter,
       telegram: params.telegram,
       website: params.website,
-    });
+    }, options));
   }
 
   // ============ Trading Operations ============
@@ -250,28 +542,28 @@ export class ClawdVaultClient {
   /**
    * Get price quote
    */
-  async getQuote(params: QuoteParams): Promise<QuoteResponse> {
-    return this.request('GET', '/trade', { params });
+  async getQuote(params: QuoteParams, options: CallOptions = {}): Promise<QuoteResponse> {
+    return this.request('GET', '/trade', { params, ...options });
   }
 
   /**
    * Prepare trade transaction (step 1)
    */
-  async prepareTrade(params: PrepareTradeRequest): Promise<PrepareTradeResponse> {
-    return this.request('POST', '/trade/prepare', { body: params });
+  async prepareTrade(params: PrepareTradeRequest, options: CallOptions = {}): Promise<PrepareTradeResponse> {
+    return this.request('POST', '/trade/prepare', { body: params, idempotent: true, ...options });
   }
 
   /**
    * Execute trade (step 2)
    */
-  async executeTrade(params: ExecuteTradeRequest): Promise<ExecuteTradeResponse> {
-    return this.request('POST', '/trade/execute', { body: params });
+  async executeTrade(params: ExecuteTradeRequest, options: CallOptions = {}): Promise<ExecuteTradeResponse> {
+    return this.request('POST', '/trade/execute', { body: params, ...options });
   }
 
   /**
    * Buy tokens with automatic signing
    */
-  async buy(mint: string, solAmount: number, slippage = 0.01): Promise<ExecuteTradeResponse> {
+  async buy(mint: string, solAmount: number, slippage = 0.01, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
     if (!this.signer) {
       throw new Error('Signer required for buy');
     }
@@ -285,24 +577,24 @@ export class ClawdVaultClient {
       amount: solAmount,
       wallet,
       slippage,
-    });
+    }, options);
 
     // Sign (transaction is guaranteed by API contract)
-    const signedTx = await signAndSerialize(prepared.transaction!, this.signer);
+    const signedTx = await this.signPrepared(prepared.transaction!, options.signal);
 
     // Execute
-    return this.executeTrade({
+    return this.executeSigned(signedTx, options, () => this.executeTrade({
       signedTransaction: signedTx,
       mint,
       type: 'buy',
       wallet,
-    });
+    }, options));
   }
 
   /**
    * Sell tokens with automatic signing
    */
-  async sell(mint: string, tokenAmount: number, slippage = 0.01): Promise<ExecuteTradeResponse> {
+  async sell(mint: string, tokenAmount: number, slippage = 0.01, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
     if (!this.signer) {
       throw new Error('Signer required for sell');
     }
@@ -316,30 +608,30 @@ export class ClawdVaultClient {
       amount: tokenAmount,
       wallet,
       slippage,
-    });
+    }, options);
 
     // Sign (transaction is guaranteed by API contract)
-    const signedTx = await signAndSerialize(prepared.transaction!, this.signer);
+    const signedTx = await this.signPrepared(prepared.transaction!, options.signal);
 
     // Execute
-    return this.executeTrade({
+    return this.executeSigned(signedTx, options, () => this.executeTrade({
       signedTransaction: signedTx,
       mint,
       type: 'sell',
       wallet,
-    });
+    }, options));
   }
 
   /**
    * Sell percentage of token holdings
    */
-  async sellPercent(mint: string, percent: number, slippage = 0.01): Promise<ExecuteTradeResponse> {
+  async sellPercent(mint: string, percent: number, slippage = 0.01, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
     if (!this.signer) {
       throw new Error('Signer required for sellPercent');
     }
 
     const wallet = this.signer.publicKey.toBase58();
-    const balanceResponse = await this.getBalance(wallet, mint);
+    const balanceResponse = await this.getBalance(wallet, mint, options);
     const balance = balanceResponse.balance ?? 0;
     
     if (balance <= 0) {
@@ -347,7 +639,7 @@ export class ClawdVaultClient {
     }
 
     const tokenAmount = balance * (percent / 100);
-    return this.sell(mint, tokenAmount, slippage);
+    return this.sell(mint, tokenAmount, slippage, options);
   }
 
   // ============ Price Data ============
@@ -355,53 +647,74 @@ export class ClawdVaultClient {
   /**
    * Get trade history
    */
-  async getTrades(params: TradesParams): Promise<TradeHistoryResponse> {
-    return this.request('GET', '/trades', { params });
+  async getTrades(params: TradesParams, options: CallOptions = {}): Promise<TradeHistoryResponse> {
+    return this.request('GET', '/trades', { params, ...options });
+  }
+
+  /**
+   * Iterate a token's trade history, newest first, following the `before` cursor
+   */
+  iterateTrades(
+    params: Omit<TradesParams, 'before'>,
+    options: IterateOptions<Trade> = {}
+  ): AsyncGenerator<Trade, void, undefined> {
+    const pages = paginateByCursor(async (before) => {
+      const res = await this.getTrades({ ...params, before }, { signal: options.signal });
+      return res.trades ?? [];
+    });
+    return applyStopConditions(pages, options);
   }
 
   /**
    * Get OHLCV candles
    */
-  async getCandles(params: CandlesParams): Promise<CandlesResponse> {
-    return this.request('GET', '/candles', { params });
+  async getCandles(params: CandlesParams, options: CallOptions = {}): Promise<CandlesResponse> {
+    return this.request('GET', '/candles', { params, ...options });
   }
 
   /**
    * Get on-chain stats
    */
-  async getStats(mint: string): Promise<StatsResponse> {
-    return this.request('GET', '/stats', { params: { mint } });
+  async getStats(mint: string, options: CallOptions = {}): Promise<StatsResponse> {
+    return this.request('GET', '/stats', { params: { mint }, ...options });
   }
 
   /**
    * Get top holders
    */
-  async getHolders(mint: string, creator?: string): Promise<HoldersResponse> {
-    return this.request('GET', '/holders', { params: { mint, creator } });
+  async getHolders(mint: string, creator?: string, options: CallOptions = {}): Promise<HoldersResponse> {
+    return this.request('GET', '/holders', { params: { mint, creator }, ...options });
   }
 
   /**
    * Get wallet token balance
    */
-  async getBalance(wallet: string, mint: string): Promise<BalanceResponse> {
-    return this.request('GET', '/balance', { params: { wallet, mint } });
+  async getBalance(wallet: string, mint: string, options: CallOptions = {}): Promise<BalanceResponse> {
+    return this.request('GET', '/balance', { params: { wallet, mint }, ...options });
+  }
+
+  /**
+   * Get every non-zero SPL token balance of a wallet, keyed by mint
+   */
+  async getWalletBalances(wallet: string, options: CallOptions = {}): Promise<WalletBalancesResponse> {
+    return this.request('GET', '/wallet/balances', { params: { wallet }, ...options });
   }
 
   /**
    * Get my balance for a token
    */
-  async getMyBalance(mint: string): Promise<BalanceResponse> {
+  async getMyBalance(mint: string, options: CallOptions = {}): Promise<BalanceResponse> {
     if (!this.signer) {
       throw new Error('Signer required for getMyBalance');
     }
-    return this.getBalance(this.signer.publicKey.toBase58(), mint);
+    return this.getBalance(this.signer.publicKey.toBase58(), mint, options);
   }
 
   /**
    * Get SOL/USD price
    */
-  async getSolPrice(): Promise<SolPriceResponse> {
-    return this.request('GET', '/sol-price');
+  async getSolPrice(options: CallOptions = {}): Promise<SolPriceResponse> {
+    return this.request('GET', '/sol-price', options);
   }
 
   // ============ Graduation / Jupiter ============
@@ -409,35 +722,35 @@ export class ClawdVaultClient {
   /**
    * Check graduation status
    */
-  async getGraduationStatus(mint: string): Promise<GraduationStatusResponse> {
-    return this.request('GET', '/graduate', { params: { mint } });
+  async getGraduationStatus(mint: string, options: CallOptions = {}): Promise<GraduationStatusResponse> {
+    return this.request('GET', '/graduate', { params: { mint }, ...options });
   }
 
   /**
    * Check Jupiter availability
    */
-  async getJupiterStatus(mint: string): Promise<JupiterStatusResponse> {
-    return this.request('GET', '/trade/jupiter', { params: { mint } });
+  async getJupiterStatus(mint: string, options: CallOptions = {}): Promise<JupiterStatusResponse> {
+    return this.request('GET', '/trade/jupiter', { params: { mint }, ...options });
   }
 
   /**
    * Get Jupiter swap quote
    */
-  async getJupiterQuote(params: JupiterSwapRequest): Promise<JupiterQuoteResponse> {
-    return this.request('POST', '/trade/jupiter', { body: params });
+  async getJupiterQuote(params: JupiterSwapRequest, options: CallOptions = {}): Promise<JupiterQuoteResponse> {
+    return this.request('POST', '/trade/jupiter', { body: params, idempotent: true, ...options });
   }
 
   /**
    * Execute Jupiter swap
    */
-  async executeJupiterSwap(params: JupiterExecuteRequest): Promise<ExecuteTradeResponse> {
-    return this.request('POST', '/trade/jupiter/execute', { body: params });
+  async executeJupiterSwap(params: JupiterExecuteRequest, options: CallOptions = {}): Promise<ExecuteTradeResponse> {
+    return this.request('POST', '/trade/jupiter/execute', { body: params, ...options });
   }
 
   /**
    * Buy graduated token via Jupiter
    */
-  async buyJupiter(mint: string, solAmount: number, slippageBps = 50): Promise<ExecuteTradeResponse> {
+  async buyJupiter(mint: string, solAmount: number, slippageBps = 50, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
     if (!this.signer) {
       throw new Error('Signer required for buyJupiter');
     }
@@ -452,24 +765,24 @@ export class ClawdVaultClient {
       amount: lamports.toString(),
       userPublicKey: wallet,
       slippageBps,
-    });
+    }, options);
 
     // Sign (transaction is guaranteed by API contract)
-    const signedTx = await signAndSerialize(quote.transaction!, this.signer);
+    const signedTx = await this.signPrepared(quote.transaction!, options.signal);
 
     // Execute
-    return this.executeJupiterSwap({
+    return this.executeSigned(signedTx, options, () => this.executeJupiterSwap({
       mint,
       signedTransaction: signedTx,
       type: 'buy',
       wallet,
-    });
+    }, options));
   }
 
   /**
    * Sell graduated token via Jupiter
    */
-  async sellJupiter(mint: string, tokenAmount: number, slippageBps = 50): Promise<ExecuteTradeResponse> {
+  async sellJupiter(mint: string, tokenAmount: number, slippageBps = 50, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
     if (!this.signer) {
       throw new Error('Signer required for sellJupiter');
     }
@@ -483,40 +796,58 @@ export class ClawdVaultClient {
       amount: Math.floor(tokenAmount * 1e6).toString(), // Assuming 6 decimals
       userPublicKey: wallet,
       slippageBps,
-    });
+    }, options);
 
     // Sign (transaction is guaranteed by API contract)
-    const signedTx = await signAndSerialize(quote.transaction!, this.signer);
+    const signedTx = await this.signPrepared(quote.transaction!, options.signal);
 
     // Execute
-    return this.executeJupiterSwap({
+    return this.executeSigned(signedTx, options, () => this.executeJupiterSwap({
       mint,
       signedTransaction: signedTx,
       type: 'sell',
       wallet,
-    });
+    }, options));
   }
 
   /**
    * Smart buy - automatically routes to bonding curve or Jupiter
    */
-  async smartBuy(mint: string, solAmount: number, slippage = 0.01): Promise<ExecuteTradeResponse> {
-    const status = await this.getJupiterStatus(mint);
+  async smartBuy(mint: string, solAmount: number, slippage = 0.01, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
+    const status = await this.getJupiterStatus(mint, options);
     if (status.graduated) {
-      return this.buyJupiter(mint, solAmount, Math.floor(slippage * 10000));
+      return this.buyJupiter(mint, solAmount, Math.floor(slippage * 10000), options);
     }
-    return this.buy(mint, solAmount, slippage);
+    return this.buy(mint, solAmount, slippage, options);
   }
 
   /**
    * Smart sell - automatically routes to bonding curve or Jupiter
    */
-  async smartSell(mint: string, tokenAmount: number, slippage = 0.01): Promise<ExecuteTradeResponse> {
-    const status = await this.getJupiterStatus(mint);
+  async smartSell(mint: string, tokenAmount: number, slippage = 0.01, options: TransactionOptions = {}): Promise<Simulated<ExecuteTradeResponse>> {
+    const status = await this.getJupiterStatus(mint, options);
     if (status.graduated) {
-      return this.sellJupiter(mint, tokenAmount, Math.floor(slippage * 10000));
+      return this.sellJupiter(mint, tokenAmount, Math.floor(slippage * 10000), options);
     }
-    return this.sell(mint, tokenAmount, slippage);
+    return this.sell(mint, tokenAmount, slippage, options);
+  }
+
+  // ============ Simulation ============
+
+  /**
+   * Simulate a base64 transaction (signed or not) through the /rpc proxy
+   * Returns logs, compute units and before/after balances; never submits
+   */
+  async simulateTransaction(transaction: string, options: SimulateOptions = {}): Promise<TransactionSimulation> {
+    const accounts = options.accounts ?? writableAccounts(transaction);
+    const [before, simulation] = await this.rpc.batch(simulationCalls(transaction, accounts, options), {
+      signal: options.signal,
+    });
+    return parseSimulation(
+      accounts,
+      unwrapRpcResponse<MultipleAccountsResult>(before),
+      unwrapRpcResponse<SimulateTransactionResult>(simulation)
+    );
   }
 
   // ============ Chat ============
@@ -524,36 +855,52 @@ export class ClawdVaultClient {
   /**
    * Get chat messages
    */
-  async getChat(params: ChatParams): Promise<ChatMessagesResponse> {
-    return this.request('GET', '/chat', { params });
+  async getChat(params: ChatParams, options: CallOptions = {}): Promise<ChatMessagesResponse> {
+    return this.request('GET', '/chat', { params, ...options });
+  }
+
+  /**
+   * Iterate a token's chat messages, newest first, following the `before` cursor
+   */
+  iterateChat(
+    params: Omit<ChatParams, 'before'>,
+    options: IterateOptions<ChatMessage> = {}
+  ): AsyncGenerator<ChatMessage, void, undefined> {
+    const pages = paginateByCursor(async (before) => {
+      const res = await this.getChat({ ...params, before }, { signal: options.signal });
+      return res.messages ?? [];
+    });
+    return applyStopConditions(pages, options);
   }
 
   /**
    * Send chat message
    */
-  async sendChat(params: SendChatRequest): Promise<{ success: boolean; message: ChatMessage }> {
-    return this.request('POST', '/chat', { body: params, auth: true, action: 'chat' });
+  async sendChat(params: SendChatRequest, options: CallOptions = {}): Promise<{ success: boolean; message: ChatMessage }> {
+    return this.request('POST', '/chat', { body: params, auth: true, action: 'chat', ...options });
   }
 
   /**
    * Add reaction
    */
-  async addReaction(messageId: string, emoji: string): Promise<void> {
+  async addReaction(messageId: string, emoji: string, options: CallOptions = {}): Promise<void> {
     await this.request('POST', '/reactions', { 
       body: { messageId, emoji }, 
       auth: true,
-      action: 'react'
+      action: 'react',
+      ...options,
     });
   }
 
   /**
    * Remove reaction
    */
-  async removeReaction(messageId: string, emoji: string): Promise<void> {
+  async removeReaction(messageId: string, emoji: string, options: CallOptions = {}): Promise<void> {
     await this.request('DELETE', '/reactions', { 
       params: { messageId, emoji },
       auth: true,
-      action: 'unreact'
+      action: 'unreact',
+      ...options,
     });
   }
 
@@ -562,29 +909,29 @@ export class ClawdVaultClient {
   /**
    * Get user profile
    */
-  async getProfile(wallet: string): Promise<UserProfile> {
-    return this.request('GET', '/profile', { params: { wallet } });
+  async getProfile(wallet: string, options: CallOptions = {}): Promise<UserProfile> {
+    return this.request('GET', '/profile', { params: { wallet }, ...options });
   }
 
   /**
    * Update profile
    */
-  async updateProfile(params: UpdateProfileRequest): Promise<void> {
-    await this.request('POST', '/profile', { body: params, auth: true, action: 'profile' });
+  async updateProfile(params: UpdateProfileRequest, options: CallOptions = {}): Promise<void> {
+    await this.request('POST', '/profile', { body: params, auth: true, action: 'profile', ...options });
   }
 
   /**
    * Create session token
    */
-  async createSession(): Promise<SessionResponse> {
-    return this.request('POST', '/auth/session', { body: {}, auth: true, action: 'session' });
+  async createSession(options: CallOptions = {}): Promise<SessionResponse> {
+    return this.request('POST', '/auth/session', { body: {}, auth: true, action: 'session', ...options });
   }
 
   /**
    * Validate session token
    */
-  async validateSession(): Promise<SessionValidateResponse> {
-    return this.request('GET', '/auth/session', { auth: true });
+  async validateSession(options: CallOptions = {}): Promise<SessionValidateResponse> {
+    return this.request('GET', '/auth/session', { auth: true, ...options });
   }
 
   // ============ Uploads ============
@@ -592,7 +939,7 @@ export class ClawdVaultClient {
   /**
    * Upload image file
    */
-  async uploadImage(file: File | Buffer | Uint8Array, filename = 'image.png'): Promise<UploadResponse> {
+  async uploadImage(file: File | Buffer | Uint8Array, filename = 'image.png', options: CallOptions = {}): Promise<UploadResponse> {
     const formData = new FormData();
 
     // Infer MIME type from filename extension for proper server validation
@@ -611,18 +958,18 @@ export class ClawdVaultClient {
       formData.append('file', blob, filename);
     }
 
-    return this.request('POST', '/upload', { formData });
+    return this.request('POST', '/upload', { formData, ...options });
   }
 
   /**
    * Upload image from file path (Node.js only)
    */
-  async uploadImageFromPath(filePath: string): Promise<UploadResponse> {
+  async uploadImageFromPath(filePath: string, options: CallOptions = {}): Promise<UploadResponse> {
     const fs = require('fs');
     const path = require('path');
     const buffer = fs.readFileSync(filePath);
     const filename = path.basename(filePath);
-    return this.uploadImage(buffer, filename);
+    return this.uploadImage(buffer, filename, options);
   }
 
   // ============ Agent Operations ============
@@ -630,36 +977,64 @@ export class ClawdVaultClient {
   /**
    * Register a new agent
    */
-  async registerAgent(params: AgentRegisterRequest): Promise<AgentRegisterResponse> {
-    return this.request('POST', '/agent/register', { body: params });
+  async registerAgent(params: AgentRegisterRequest, options: CallOptions = {}): Promise<AgentRegisterResponse> {
+    return this.request('POST', '/agent/register', { body: params, ...options });
   }
 
   /**
    * Verify agent via Twitter claim
    */
-  async claimAgent(params: AgentClaimRequest): Promise<AgentClaimResponse> {
-    return this.request('POST', '/agent/claim', { body: params });
+  async claimAgent(params: AgentClaimRequest, options: CallOptions = {}): Promise<AgentClaimResponse> {
+    return this.request('POST', '/agent/claim', { body: params, ...options });
   }
 
   /**
    * List agents (leaderboard)
    */
-  async listAgents(params: Partial<AgentsListParams> = {}): Promise<AgentsListResponse> {
-    return this.request('GET', '/agents', { params });
+  async listAgents(params: Partial<AgentsListParams> = {}, options: CallOptions = {}): Promise<AgentsListResponse> {
+    return this.request('GET', '/agents', { params, ...options });
+  }
+
+  /**
+   * Iterate the whole agents leaderboard
+   */
+  iterateAgents(
+    params: Partial<Omit<AgentsListParams, 'page'>> = {},
+    options: IterateOptions<AgentEntry> = {}
+  ): AsyncGenerator<AgentEntry, void, undefined> {
+    const pages = paginateByPage(async (page) => {
+      const res = await this.listAgents({ ...params, page }, { signal: options.signal });
+      return { items: res.agents ?? [], total: res.total, perPage: res.per_page };
+    }, (agent) => agent.id ?? agent.wallet, params.limit);
+    return applyStopConditions(pages, options);
   }
 
   /**
    * List users (leaderboard)
    */
-  async listUsers(params: Partial<UsersListParams> = {}): Promise<UsersListResponse> {
-    return this.request('GET', '/users', { params });
+  async listUsers(params: Partial<UsersListParams> = {}, options: CallOptions = {}): Promise<UsersListResponse> {
+    return this.request('GET', '/users', { params, ...options });
+  }
+
+  /**
+   * Iterate the whole users leaderboard
+   */
+  iterateUsers(
+    params: Partial<Omit<UsersListParams, 'page'>> = {},
+    options: IterateOptions<UserEntry> = {}
+  ): AsyncGenerator<UserEntry, void, undefined> {
+    const pages = paginateByPage(async (page) => {
+      const res = await this.listUsers({ ...params, page }, { signal: options.signal });
+      return { items: res.users ?? [], total: res.total, perPage: res.per_page };
+    }, (user) => user.id ?? user.wallet, params.limit);
+    return applyStopConditions(pages, options);
   }
 
   /**
    * Get site-wide stats
    */
-  async getSiteStats(): Promise<SiteStatsResponse> {
-    return this.request('GET', '/site-stats');
+  async getSiteStats(options: CallOptions = {}): Promise<SiteStatsResponse> {
+    return this.request('GET', '/site-stats', options);
   }
 
   /**
@@ -670,7 +1045,8 @@ export class ClawdVaultClient {
     file: File | Buffer | Uint8Array,
     wallet: string,
     apiKey: string,
-    filename = 'avatar.png'
+    filename = 'avatar.png',
+    options: CallOptions = {}
   ): Promise<UploadResponse> {
     const formData = new FormData();
 
@@ -692,23 +1068,11 @@ export class ClawdVaultClient {
     formData.append('type', 'avatar');
     formData.append('wallet', wallet);
 
-    const url = `${this.baseUrl}/upload`;
-    const response = await fetch(url, {
-      method: 'POST',
+    return this.request('POST', '/upload', {
+      formData,
       headers: { 'Authorization': `Bearer ${apiKey}` },
-      body: formData,
+      ...options,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: response.statusText }));
-      const err = new Error(error.error || error.message || `HTTP ${response.status}`);
-      (err as any).status = response.status;
-      (err as any).response = error;
-      this.onError?.(err);
-      throw err;
-    }
-
-    return response.json();
   }
 
   // ============ Network ============
@@ -716,8 +1080,26 @@ export class ClawdVaultClient {
   /**
    * Get network status
    */
-  async getNetworkStatus(): Promise<NetworkStatusResponse> {
-    return this.request('GET', '/network');
+  async getNetworkStatus(options: CallOptions = {}): Promise<NetworkStatusResponse> {
+    return this.request('GET', '/network', options);
+  }
+
+  // ============ Polling Watchers ============
+
+  /**
+   * Watch new trades by polling `/trades` (fallback when SSE is unavailable)
+   * Emits the same `trade` events as `ClawdVaultStreaming.streamTrades()`
+   */
+  watchTrades(mint: string, options: WatchTradesOptions = {}): TradeWatcher {
+    return new TradeWatcher(this, mint, options);
+  }
+
+  /**
+   * Watch price / market cap by polling `/tokens/{mint}` (fallback when SSE is unavailable)
+   * Emits the same `connected` / `update` events as `ClawdVaultStreaming.streamToken()`
+   */
+  watchToken(mint: string, options: WatchOptions = {}): TokenWatcher {
+    return new TokenWatcher(this, mint, options);
   }
 }
 
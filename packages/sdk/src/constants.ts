@@ -0,0 +1,12 @@
+/**
+ * ClawdVault constants
+ */
+
+/** ClawdVault bonding curve program */
+export const PROGRAM_ID = 'GUyF2TVe32Cid4iGVt2F6wPYDhLSVmTUZBj2974outYM';
+
+/** Production API */
+export const DEFAULT_BASE_URL = 'https://clawdvault.com/api';
+
+/** Jupiter aggregator v6, used for graduated tokens */
+export const JUPITER_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
@@ -0,0 +1,270 @@
+/**
+ * Offline bonding curve math
+ * Constant-product (x * y = k) quotes computed locally from curve reserves,
+ * mirroring what `/trade` returns without a network round-trip
+ */
+
+import type { Token, OnChainStats, QuoteResponse } from './types';
+
+// ============ Curve Constants ============
+
+/** Initial virtual SOL reserves of a new curve */
+export const INITIAL_VIRTUAL_SOL_RESERVES = 30;
+
+/** Initial virtual token reserves of a new curve */
+export const INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000;
+
+/** Total token supply minted at launch */
+export const TOTAL_SUPPLY = 1_000_000_000;
+
+/** Real SOL in the curve at which a token graduates to Raydium */
+export const GRADUATION_THRESHOLD_SOL = 120;
+
+/** Trading fee in basis points, charged on the SOL side of every trade */
+export const DEFAULT_FEE_BPS = 100;
+
+// ============ Types ============
+
+/**
+ * Curve state in whole SOL and whole tokens
+ */
+export interface CurveReserves {
+  virtualSolReserves: number;
+  virtualTokenReserves: number;
+  realSolReserves: number;
+  realTokenReserves: number;
+}
+
+export interface BondingCurveOptions {
+  /** Fee in basis points (default: 100 = 1%) */
+  feeBps?: number;
+}
+
+/**
+ * Local quote - same fields as `getQuote()`
+ */
+export type CurveQuote = Required<QuoteResponse>;
+
+// ============ Bonding Curve ============
+
+/**
+ * Immutable bonding curve snapshot
+ *
+ * @example
+ * const { token } = await client.getToken(mint);
+ * const curve = BondingCurve.fromToken(token!);
+ * for (const sol of [0.1, 0.5, 1, 5]) {
+ *   console.log(sol, curve.quoteBuy(sol).output);
+ * }
+ */
+export class BondingCurve {
+  readonly reserves: Readonly<CurveReserves>;
+  readonly feeBps: number;
+
+  constructor(reserves: CurveReserves, options: BondingCurveOptions = {}) {
+    if (reserves.virtualSolReserves <= 0 || reserves.virtualTokenReserves <= 0) {
+      throw new Error('Virtual reserves must be positive');
+    }
+    this.reserves = { ...reserves };
+    this.feeBps = options.feeBps ?? DEFAULT_FEE_BPS;
+  }
+
+  /**
+   * Curve for a token that has not traded yet
+   */
+  static initial(options?: BondingCurveOptions): BondingCurve {
+    return new BondingCurve({
+      virtualSolReserves: INITIAL_VIRTUAL_SOL_RESERVES,
+      virtualTokenReserves: INITIAL_VIRTUAL_TOKEN_RESERVES,
+      realSolReserves: 0,
+      realTokenReserves: TOTAL_SUPPLY,
+    }, options);
+  }
+
+  /**
+   * Build from a `Token` (e.g. `getToken()` or `listTokens()`)
+   */
+  static fromToken(token: Token, options?: BondingCurveOptions): BondingCurve {
+    return new BondingCurve({
+      virtualSolReserves: token.virtual_sol_reserves ?? 0,
+      virtualTokenReserves: token.virtual_token_reserves ?? 0,
+      realSolReserves: token.real_sol_reserves ?? 0,
+      realTokenReserves: token.real_token_reserves ?? 0,
+    }, options);
+  }
+
+  /**
+   * Build from `getStats()` on-chain data
+   */
+  static fromOnChainStats(stats: OnChainStats, options?: BondingCurveOptions): BondingCurve {
+    return new BondingCurve({
+      virtualSolReserves: stats.virtualSolReserves ?? 0,
+      virtualTokenReserves: stats.virtualTokenReserves ?? 0,
+      realSolReserves: stats.bondingCurveSol ?? 0,
+      realTokenReserves: stats.bondingCurveBalance ?? 0,
+    }, options);
+  }
+
+  /** Current price in SOL per token */
+  get spotPrice(): number {
+    return this.reserves.virtualSolReserves / this.reserves.virtualTokenReserves;
+  }
+
+  /** Market cap in SOL (spot price x total supply) */
+  get marketCap(): number {
+    return this.spotPrice * TOTAL_SUPPLY;
+  }
+
+  /** Whether real SOL reserves have reached the graduation threshold */
+  get graduated(): boolean {
+    return this.reserves.realSolReserves >= GRADUATION_THRESHOLD_SOL;
+  }
+
+  /**
+   * Fee charged on a SOL amount
+   */
+  fee(solAmount: number): number {
+    return (solAmount * this.feeBps) / 10_000;
+  }
+
+  /**
+   * Quote a buy of `solAmount` SOL (fee included)
+   */
+  quoteBuy(solAmount: number): CurveQuote {
+    assertAmount(solAmount);
+    const { virtualSolReserves: vSol, virtualTokenReserves: vTok, realTokenReserves } = this.reserves;
+    const fee = this.fee(solAmount);
+    const solIn = solAmount - fee;
+    const tokensOut = Math.min((vTok * solIn) / (vSol + solIn), realTokenReserves);
+
+    return {
+      input: solAmount,
+      output: tokensOut,
+      fee,
+      price_impact: priceImpact(this.spotPrice, (vSol + solIn) / (vTok - tokensOut)),
+      current_price: this.spotPrice,
+    };
+  }
+
+  /**
+   * Quote a sell of `tokenAmount` tokens (fee deducted from the SOL out)
+   */
+  quoteSell(tokenAmount: number): CurveQuote {
+    assertAmount(tokenAmount);
+    const { virtualSolReserves: vSol, virtualTokenReserves: vTok, realSolReserves } = this.reserves;
+    const grossSol = Math.min((vSol * tokenAmount) / (vTok + tokenAmount), realSolReserves);
+    const fee = this.fee(grossSol);
+
+    return {
+      input: tokenAmount,
+      output: grossSol - fee,
+      fee,
+      price_impact: priceImpact(this.spotPrice, (vSol - grossSol) / (vTok + tokenAmount)),
+      current_price: this.spotPrice,
+    };
+  }
+
+  /**
+   * Quote in the same shape as `getQuote({ type, amount })`
+   */
+  quote(type: 'buy' | 'sell', amount: number): CurveQuote {
+    return type === 'buy' ? this.quoteBuy(amount) : this.quoteSell(amount);
+  }
+
+  /**
+   * Curve state after a buy - chain calls to model a sequence of trades
+   */
+  applyBuy(solAmount: number): BondingCurve {
+    const { output, fee } = this.quoteBuy(solAmount);
+    const solIn = solAmount - fee;
+    return this.with({
+      virtualSolReserves: this.reserves.virtualSolReserves + solIn,
+      virtualTokenReserves: this.reserves.virtualTokenReserves - output,
+      realSolReserves: this.reserves.realSolReserves + solIn,
+      realTokenReserves: this.reserves.realTokenReserves - output,
+    });
+  }
+
+  /**
+   * Curve state after a sell
+   */
+  applySell(tokenAmount: number): BondingCurve {
+    const { output, fee } = this.quoteSell(tokenAmount);
+    const solOut = output + fee;
+    return this.with({
+      virtualSolReserves: this.reserves.virtualSolReserves - solOut,
+      virtualTokenReserves: this.reserves.virtualTokenReserves + tokenAmount,
+      realSolReserves: this.reserves.realSolReserves - solOut,
+      realTokenReserves: this.reserves.realTokenReserves + tokenAmount,
+    });
+  }
+
+  /**
+   * Tokens a buy of `solAmount` would return (shorthand for `quoteBuy().output`)
+   */
+  tokensForSol(solAmount: number): number {
+    return this.quoteBuy(solAmount).output;
+  }
+
+  /**
+   * SOL (fee included) needed to buy exactly `tokenAmount` tokens
+   */
+  solForTokens(tokenAmount: number): number {
+    assertAmount(tokenAmount);
+    const { virtualSolReserves: vSol, virtualTokenReserves: vTok } = this.reserves;
+    if (tokenAmount >= vTok) return Infinity;
+    const solIn = (vSol * tokenAmount) / (vTok - tokenAmount);
+    return solIn / (1 - this.feeBps / 10_000);
+  }
+
+  // ============ Graduation ============
+
+  /**
+   * Fraction of the graduation threshold reached (0 to 1)
+   */
+  graduationProgress(): number {
+    return Math.min(1, this.reserves.realSolReserves / GRADUATION_THRESHOLD_SOL);
+  }
+
+  /**
+   * SOL still needed in the curve before graduation (net of fees)
+   */
+  solRemainingToGraduation(): number {
+    return Math.max(0, GRADUATION_THRESHOLD_SOL - this.reserves.realSolReserves);
+  }
+
+  /**
+   * SOL a single buyer would have to spend (fee included) to trigger graduation
+   */
+  solToGraduate(): number {
+    return this.solRemainingToGraduation() / (1 - this.feeBps / 10_000);
+  }
+
+  /**
+   * Spot price and market cap at the moment of graduation
+   */
+  graduationState(): { price: number; marketCap: number } {
+    const remaining = this.solRemainingToGraduation();
+    const { virtualSolReserves: vSol, virtualTokenReserves: vTok } = this.reserves;
+    // k is constant, so the token side follows from the SOL side
+    const vSolAtGraduation = vSol + remaining;
+    const vTokAtGraduation = (vSol * vTok) / vSolAtGraduation;
+    const price = vSolAtGraduation / vTokAtGraduation;
+    return { price, marketCap: price * TOTAL_SUPPLY };
+  }
+
+  private with(reserves: CurveReserves): BondingCurve {
+    return new BondingCurve(reserves, { feeBps: this.feeBps });
+  }
+}
+
+function assertAmount(amount: number): void {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+}
+
+/** Percent move of the spot price caused by the trade */
+function priceImpact(before: number, after: number): number {
+  return (Math.abs(after - before) / before) * 100;
+}
@@ -0,0 +1,291 @@
+/**
+ * Human-readable transaction decoder
+ * Turns a base64 transaction (e.g. from `prepareTrade()`) into labeled
+ * instructions, accounts and transfer amounts for manual review
+ */
+
+import {
+  ComputeBudgetProgram,
+  SystemProgram,
+  Transaction,
+  VersionedMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PROGRAM_ID, JUPITER_PROGRAM_ID } from './constants';
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const bs58 = require('bs58').default || require('bs58');
+
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+const PROGRAM_LABELS: Record<string, string> = {
+  [PROGRAM_ID]: 'ClawdVault',
+  [SystemProgram.programId.toBase58()]: 'System',
+  [TOKEN_PROGRAM_ID.toBase58()]: 'Token',
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: 'Token-2022',
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: 'Associated Token',
+  [ComputeBudgetProgram.programId.toBase58()]: 'Compute Budget',
+  [JUPITER_PROGRAM_ID]: 'Jupiter',
+  [MEMO_PROGRAM_ID]: 'Memo',
+};
+
+// ============ Types ============
+
+export interface DecodedAccount {
+  /** Base58 address, or `undefined` if it is loaded from an address lookup table */
+  address?: string;
+  signer: boolean;
+  writable: boolean;
+  /** Lookup table and index the account is loaded from (v0 only) */
+  lookupTable?: string;
+  lookupIndex?: number;
+}
+
+export interface DecodedInstruction {
+  index: number;
+  programId: string;
+  /** Known program name, e.g. `System` or `ClawdVault` */
+  program?: string;
+  /** Instruction name for known programs, e.g. `transfer` */
+  name?: string;
+  accounts: DecodedAccount[];
+  /** Raw instruction data, base64 */
+  data: string;
+}
+
+/**
+ * SOL or token movement decoded from a System / Token instruction
+ */
+export interface DecodedTransfer {
+  instruction: number;
+  kind: 'sol' | 'token';
+  from?: string;
+  to?: string;
+  /** Signer authorizing a token transfer */
+  authority?: string;
+  /** Token mint (`transferChecked` only) */
+  mint?: string;
+  /** Lamports for SOL, raw base units for tokens */
+  amount: bigint;
+  /** Token decimals (`transferChecked` only) */
+  decimals?: number;
+}
+
+export interface ComputeBudgetSettings {
+  unitLimit?: number;
+  /** Priority fee in micro-lamports per compute unit */
+  unitPrice?: bigint;
+  heapFrameBytes?: number;
+  loadedAccountsDataSizeLimit?: number;
+}
+
+export interface DecodedTransaction {
+  version: 'legacy' | 0;
+  recentBlockhash: string;
+  feePayer: string;
+  /** Required signers with their signature (`null` while unsigned) */
+  signatures: { signer: string; signature: string | null }[];
+  /** All accounts in message order - static keys first, then lookup table accounts */
+  accounts: DecodedAccount[];
+  instructions: DecodedInstruction[];
+  computeBudget: ComputeBudgetSettings;
+  transfers: DecodedTransfer[];
+}
+
+// ============ Decoder ============
+
+/**
+ * Decode a base64 transaction (legacy or versioned) for display
+ *
+ * @example
+ * const { transaction } = await client.prepareTrade({ mint, type: 'buy', amount: 0.1, wallet });
+ * const decoded = decodeTransaction(transaction);
+ * for (const ix of decoded.instructions) console.log(ix.program ?? ix.programId, ix.name);
+ */
+export function decodeTransaction(transaction: string): DecodedTransaction {
+  const { message, signatures } = parseTransaction(transaction);
+  const keys = message.staticAccountKeys.map(k => k.toBase58());
+  const accounts = messageAccounts(message, keys);
+
+  const instructions = message.compiledInstructions.map((ix, index): DecodedInstruction => {
+    const programId = keys[ix.programIdIndex];
+    return {
+      index,
+      programId,
+      program: PROGRAM_LABELS[programId],
+      name: instructionName(programId, ix.data),
+      accounts: ix.accountKeyIndexes.map(i => accounts[i]),
+      data: Buffer.from(ix.data).toString('base64'),
+    };
+  });
+
+  const computeBudget: ComputeBudgetSettings = {};
+  const transfers: DecodedTransfer[] = [];
+  message.compiledInstructions.forEach((ix, index) => {
+    const programId = keys[ix.programIdIndex];
+    const addresses = ix.accountKeyIndexes.map(i => accounts[i].address);
+    if (programId === ComputeBudgetProgram.programId.toBase58()) {
+      readComputeBudget(ix.data, computeBudget);
+    } else if (programId === SystemProgram.programId.toBase58()) {
+      const transfer = systemTransfer(ix.data, addresses);
+      if (transfer) transfers.push({ instruction: index, ...transfer });
+    } else if (programId === TOKEN_PROGRAM_ID.toBase58() || programId === TOKEN_2022_PROGRAM_ID.toBase58()) {
+      const transfer = tokenTransfer(ix.data, addresses);
+      if (transfer) transfers.push({ instruction: index, ...transfer });
+    }
+  });
+
+  return {
+    version: message.version,
+    recentBlockhash: message.recentBlockhash,
+    feePayer: keys[0],
+    signatures: keys.slice(0, message.header.numRequiredSignatures).map((signer, i) => ({
+      signer,
+      signature: signatures[i] && signatures[i].some(b => b !== 0) ? bs58.encode(signatures[i]) : null,
+    })),
+    accounts,
+    instructions,
+    computeBudget,
+    transfers,
+  };
+}
+
+/**
+ * Same fallback order as `signAndSerialize`: versioned first, then legacy
+ */
+function parseTransaction(transaction: string): { message: VersionedMessage; signatures: Uint8Array[] } {
+  const buffer = Buffer.from(transaction, 'base64');
+  try {
+    const tx = VersionedTransaction.deserialize(buffer);
+    return { message: tx.message, signatures: tx.signatures };
+  } catch {
+    const tx = Transaction.from(buffer);
+    return {
+      message: tx.compileMessage(),
+      signatures: tx.signatures.map(s => s.signature ?? new Uint8Array(64)),
+    };
+  }
+}
+
+function messageAccounts(message: VersionedMessage, keys: string[]): DecodedAccount[] {
+  const accounts = keys.map((address, i): DecodedAccount => ({
+    address,
+    signer: message.isAccountSigner(i),
+    writable: message.isAccountWritable(i),
+  }));
+  // Lookup accounts follow the static keys: all writable ones, then all readonly ones
+  for (const writable of [true, false]) {
+    for (const lookup of message.addressTableLookups) {
+      for (const lookupIndex of writable ? lookup.writableIndexes : lookup.readonlyIndexes) {
+        accounts.push({ signer: false, writable, lookupTable: lookup.accountKey.toBase58(), lookupIndex });
+      }
+    }
+  }
+  return accounts;
+}
+
+// ============ Instruction Layouts ============
+
+const SYSTEM_INSTRUCTIONS = [
+  'createAccount', 'assign', 'transfer', 'createAccountWithSeed', 'advanceNonceAccount',
+  'withdrawNonceAccount', 'initializeNonceAccount', 'authorizeNonceAccount', 'allocate',
+  'allocateWithSeed', 'assignWithSeed', 'transferWithSeed', 'upgradeNonceAccount',
+];
+
+const TOKEN_INSTRUCTIONS = [
+  'initializeMint', 'initializeAccount', 'initializeMultisig', 'transfer', 'approve', 'revoke',
+  'setAuthority', 'mintTo', 'burn', 'closeAccount', 'freezeAccount', 'thawAccount',
+  'transferChecked', 'approveChecked', 'mintToChecked', 'burnChecked', 'initializeAccount2',
+  'syncNative', 'initializeAccount3', 'initializeMultisig2', 'initializeMint2',
+];
+
+const ASSOCIATED_TOKEN_INSTRUCTIONS = ['create', 'createIdempotent', 'recoverNested'];
+
+const COMPUTE_BUDGET_INSTRUCTIONS = [
+  'requestUnits', 'requestHeapFrame', 'setComputeUnitLimit', 'setComputeUnitPrice',
+  'setLoadedAccountsDataSizeLimit',
+];
+
+function instructionName(programId: string, data: Uint8Array): string | undefined {
+  switch (PROGRAM_LABELS[programId]) {
+    case 'System':
+      return data.length >= 4 ? SYSTEM_INSTRUCTIONS[view(data).getUint32(0, true)] : undefined;
+    case 'Token':
+    case 'Token-2022':
+      return TOKEN_INSTRUCTIONS[data[0]];
+    case 'Associated Token':
+      // An empty payload is the original `create`
+      return ASSOCIATED_TOKEN_INSTRUCTIONS[data.length === 0 ? 0 : data[0]];
+    case 'Compute Budget':
+      return COMPUTE_BUDGET_INSTRUCTIONS[data[0]];
+    case 'Memo':
+      return 'memo';
+    default:
+      return undefined;
+  }
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function readComputeBudget(data: Uint8Array, settings: ComputeBudgetSettings): void {
+  const v = view(data);
+  switch (COMPUTE_BUDGET_INSTRUCTIONS[data[0]]) {
+    case 'requestHeapFrame':
+      settings.heapFrameBytes = v.getUint32(1, true);
+      break;
+    case 'setComputeUnitLimit':
+      settings.unitLimit = v.getUint32(1, true);
+      break;
+    case 'setComputeUnitPrice':
+      settings.unitPrice = v.getBigUint64(1, true);
+      break;
+    case 'setLoadedAccountsDataSizeLimit':
+      settings.loadedAccountsDataSizeLimit = v.getUint32(1, true);
+      break;
+  }
+}
+
+type TransferFields = Omit<DecodedTransfer, 'instruction'>;
+
+function systemTransfer(data: Uint8Array, accounts: (string | undefined)[]): TransferFields | null {
+  if (data.length < 12) return null;
+  const v = view(data);
+  switch (SYSTEM_INSTRUCTIONS[v.getUint32(0, true)]) {
+    case 'transfer':
+      return { kind: 'sol', from: accounts[0], to: accounts[1], amount: v.getBigUint64(4, true) };
+    case 'transferWithSeed':
+      return { kind: 'sol', from: accounts[0], to: accounts[2], amount: v.getBigUint64(4, true) };
+    case 'createAccount':
+      return { kind: 'sol', from: accounts[0], to: accounts[1], amount: v.getBigUint64(4, true) };
+    case 'createAccountWithSeed': {
+      // Lamports follow base (32 bytes) and the length-prefixed seed
+      const seedLength = Number(v.getBigUint64(36, true));
+      return { kind: 'sol', from: accounts[0], to: accounts[1], amount: v.getBigUint64(44 + seedLength, true) };
+    }
+    default:
+      return null;
+  }
+}
+
+function tokenTransfer(data: Uint8Array, accounts: (string | undefined)[]): TransferFields | null {
+  if (data.length < 9) return null;
+  const v = view(data);
+  switch (TOKEN_INSTRUCTIONS[data[0]]) {
+    case 'transfer':
+      return { kind: 'token', from: accounts[0], to: accounts[1], authority: accounts[2], amount: v.getBigUint64(1, true) };
+    case 'transferChecked':
+      return {
+        kind: 'token',
+        from: accounts[0],
+        mint: accounts[1],
+        to: accounts[2],
+        authority: accounts[3],
+        amount: v.getBigUint64(1, true),
+        decimals: data[9],
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Named deployments
+ * Each environment bundles the API, Solana RPC, explorer cluster and program it expects,
+ * and can be checked against what the API and RPC actually report
+ */
+
+import type { ClawdVaultClient } from './client';
+import type { CallOptions } from './abort';
+import { DEFAULT_BASE_URL, PROGRAM_ID } from './constants';
+import { EnvironmentMismatchError } from './errors';
+import { globalFetch, type FetchLike } from './transport';
+
+export type EnvironmentName = 'mainnet' | 'devnet' | 'localnet';
+
+export interface Environment {
+  /** Preset name, or any label for a custom deployment */
+  name: string;
+  /** ClawdVault API base URL, empty if the deployment has no public API */
+  baseUrl: string;
+  /** Solana RPC endpoint on the same cluster as the API */
+  rpcUrl: string;
+  /** Network the API reports from `/network`, e.g. 'mainnet', 'devnet' */
+  network: string;
+  /** Solana Explorer `cluster` parameter, e.g. 'mainnet-beta', 'devnet', 'custom' */
+  cluster: string;
+  /** Bonding curve program the API must be running */
+  programId: string;
+}
+
+export const ENVIRONMENTS: Readonly<Record<EnvironmentName, Readonly<Environment>>> = {
+  mainnet: {
+    name: 'mainnet',
+    baseUrl: DEFAULT_BASE_URL,
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    network: 'mainnet',
+    cluster: 'mainnet-beta',
+    programId: PROGRAM_ID,
+  },
+  // There is no public devnet API - point `baseUrl` at your own deployment
+  devnet: {
+    name: 'devnet',
+    baseUrl: '',
+    rpcUrl: 'https://api.devnet.solana.com',
+    network: 'devnet',
+    cluster: 'devnet',
+    programId: PROGRAM_ID,
+  },
+  // Local app server + solana-test-validator
+  localnet: {
+    name: 'localnet',
+    baseUrl: 'http://localhost:3000/api',
+    rpcUrl: 'http://127.0.0.1:8899',
+    network: 'localnet',
+    cluster: 'custom',
+    programId: PROGRAM_ID,
+  },
+};
+
+// Genesis hashes of the public clusters, to catch an RPC pointed at the wrong one
+const GENESIS_HASHES: Record<string, string> = {
+  mainnet: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+  devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+};
+
+export interface ValidateEnvironmentOptions extends CallOptions {
+  /** `fetch` used for the direct RPC request (default: global fetch) */
+  fetch?: FetchLike;
+  /** Also check `rpcUrl` against the API's /rpc proxy (default: true) */
+  rpc?: boolean;
+}
+
+/**
+ * What the API and RPC reported
+ */
+export interface EnvironmentReport {
+  environment: Environment;
+  network?: string;
+  programId?: string;
+  /** Genesis hash behind the API's /rpc proxy */
+  apiGenesisHash?: string;
+  /** Genesis hash behind `rpcUrl` */
+  rpcGenesisHash?: string;
+}
+
+/**
+ * Preset by name, or a custom environment as given
+ * Unknown names throw so typos don't silently fall back to mainnet
+ */
+export function resolveEnvironment(environment: EnvironmentName | Environment | string): Environment {
+  if (typeof environment !== 'string') return { ...environment };
+  if (!Object.prototype.hasOwnProperty.call(ENVIRONMENTS, environment)) {
+    throw new Error(`Unknown environment "${environment}" (expected ${Object.keys(ENVIRONMENTS).join(', ')})`);
+  }
+  return { ...ENVIRONMENTS[environment as EnvironmentName] };
+}
+
+/**
+ * Check `client.environment` against `getNetworkStatus()` and the RPC
+ * Throws `EnvironmentMismatchError` listing every disagreement: wrong network or program
+ * on the API, or an RPC on a different cluster than the API
+ *
+ * @example
+ * const client = createClient({ environment: 'devnet' });
+ * await validateEnvironment(client); // once at startup
+ */
+export async function validateEnvironment(
+  client: ClawdVaultClient,
+  options: ValidateEnvironmentOptions = {}
+): Promise<EnvironmentReport> {
+  const { environment } = client;
+  const { signal, rpc = true } = options;
+  const mismatches: string[] = [];
+
+  const status = await client.getNetworkStatus({ signal });
+  const report: EnvironmentReport = { environment, network: status.network, programId: status.programId };
+
+  if (status.network !== undefined && canonicalNetwork(status.network) !== canonicalNetwork(environment.network)) {
+    mismatches.push(`API ${environment.baseUrl} is on ${status.network}, expected ${environment.network}`);
+  }
+  if (status.programId !== undefined && status.programId !== environment.programId) {
+    mismatches.push(`API runs program ${status.programId}, expected ${environment.programId}`);
+  }
+
+  if (rpc) {
+    const [apiGenesisHash, rpcGenesisHash] = await Promise.all([
+      client.rpc.call<string>('getGenesisHash', [], { signal }),
+      fetchGenesisHash(environment.rpcUrl, options.fetch ?? globalFetch, signal),
+    ]);
+    Object.assign(report, { apiGenesisHash, rpcGenesisHash });
+
+    if (apiGenesisHash !== rpcGenesisHash) {
+      mismatches.push(`RPC ${environment.rpcUrl} is on a different cluster than the API (genesis ${rpcGenesisHash} vs ${apiGenesisHash})`);
+    }
+    const expected = GENESIS_HASHES[canonicalNetwork(environment.network)];
+    if (expected && rpcGenesisHash !== expected) {
+      mismatches.push(`RPC ${environment.rpcUrl} is not on ${environment.network}`);
+    }
+  }
+
+  if (mismatches.length > 0) {
+    throw new EnvironmentMismatchError(environment.name, mismatches);
+  }
+  return report;
+}
+
+async function fetchGenesisHash(rpcUrl: string, fetchImpl: FetchLike, signal?: AbortSignal): Promise<string> {
+  const response = await fetchImpl(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getGenesisHash' }),
+    signal,
+  });
+  const body = await response.json().catch(() => null) as { result?: unknown } | null;
+  if (!response.ok || typeof body?.result !== 'string') {
+    throw new Error(`RPC ${rpcUrl} did not return a genesis hash (HTTP ${response.status})`);
+  }
+  return body.result;
+}
+
+function canonicalNetwork(network: string): string {
+  const name = network.toLowerCase();
+  if (name === 'mainnet-beta') return 'mainnet';
+  if (name === 'localhost' || name === 'custom') return 'localnet';
+  return name;
+}
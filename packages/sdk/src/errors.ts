@@ -0,0 +1,322 @@
+/**
+ * Typed errors thrown by the ClawdVault client
+ * Lets callers branch on error kind with `instanceof` instead of matching messages
+ */
+
+import type {
+  ApiErrorBody,
+  TokenGraduatedErrorBody,
+  SolanaRpcErrorBody,
+} from './types';
+import type { TransactionIssue } from './inspect';
+import type { TransactionSimulation } from './simulate';
+
+/**
+ * Non-2xx response from the ClawdVault API
+ */
+export class ClawdVaultApiError extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** Parsed response body (or `{ error: statusText }` if the body was not JSON) */
+  readonly response: ApiErrorBody;
+  /** HTTP method of the failed request */
+  readonly method?: string;
+  /** API path of the failed request, e.g. `/trade/prepare` */
+  readonly path?: string;
+
+  constructor(
+    message: string,
+    status: number,
+    response: ApiErrorBody,
+    request: { method?: string; path?: string } = {}
+  ) {
+    super(message);
+    this.name = 'ClawdVaultApiError';
+    this.status = status;
+    this.response = response;
+    this.method = request.method;
+    this.path = request.path;
+  }
+}
+
+/**
+ * 429 - rate limit exceeded
+ */
+export class RateLimitError extends ClawdVaultApiError {
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    response: ApiErrorBody,
+    request: { method?: string; path?: string } = {},
+    retryAfter?: number
+  ) {
+    super(message, 429, response, request);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * 401/403 - missing or invalid session token, wallet signature or API key
+ */
+export class AuthError extends ClawdVaultApiError {
+  constructor(
+    message: string,
+    status: number,
+    response: ApiErrorBody,
+    request: { method?: string; path?: string } = {}
+  ) {
+    super(message, status, response, request);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 404 - token, profile or agent not found
+ */
+export class NotFoundError extends ClawdVaultApiError {
+  constructor(
+    message: string,
+    response: ApiErrorBody,
+    request: { method?: string; path?: string } = {}
+  ) {
+    super(message, 404, response, request);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Token has graduated off the bonding curve - trade via Jupiter instead
+ */
+export class TokenGraduatedError extends ClawdVaultApiError {
+  /** Endpoint to use instead, e.g. `/api/trade/jupiter` */
+  readonly redirectTo?: string;
+
+  constructor(
+    message: string,
+    status: number,
+    response: TokenGraduatedErrorBody,
+    request: { method?: string; path?: string } = {}
+  ) {
+    super(message, status, response, request);
+    this.name = 'TokenGraduatedError';
+    this.redirectTo = response.redirectTo;
+  }
+}
+
+/**
+ * Upstream Solana RPC failure (502/503/504 or a JSON-RPC error from /rpc)
+ */
+export class UpstreamRpcError extends ClawdVaultApiError {
+  /** JSON-RPC error code, if the upstream returned one */
+  readonly rpcCode?: number;
+  /** JSON-RPC error message, if the upstream returned one */
+  readonly rpcMessage?: string;
+
+  constructor(
+    message: string,
+    status: number,
+    response: ApiErrorBody,
+    request: { method?: string; path?: string } = {}
+  ) {
+    super(message, status, response, request);
+    this.name = 'UpstreamRpcError';
+    const rpcError = isRpcErrorBody(response) ? response.error : undefined;
+    this.rpcCode = rpcError?.code;
+    this.rpcMessage = rpcError?.message;
+  }
+}
+
+/**
+ * Request never produced an HTTP response (DNS, connection reset, CORS, etc.)
+ */
+export class NetworkError extends Error {
+  /** HTTP method of the failed request */
+  readonly method?: string;
+  /** API path of the failed request */
+  readonly path?: string;
+  /** Underlying error thrown by `fetch` */
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown, request: { method?: string; path?: string } = {}) {
+    super(message);
+    this.name = 'NetworkError';
+    this.cause = cause;
+    this.method = request.method;
+    this.path = request.path;
+  }
+}
+
+/**
+ * Request exceeded the configured `timeoutMs`
+ */
+export class TimeoutError extends NetworkError {
+  /** Timeout that elapsed, in ms */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, request: { method?: string; path?: string } = {}) {
+    super(`Request timed out after ${timeoutMs}ms: ${request.method ?? ''} ${request.path ?? ''}`.trim(), undefined, request);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Caller aborted the request through its AbortSignal
+ */
+export class RequestAbortedError extends Error {
+  /** `signal.reason` at the time of the abort */
+  readonly reason?: unknown;
+
+  constructor(message = 'Request aborted', reason?: unknown) {
+    super(message);
+    this.name = 'RequestAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Caller aborted after the wallet signed the transaction
+ * The signed transaction is attached so it can be inspected, resubmitted or discarded
+ */
+export class AbortedAfterSigningError extends RequestAbortedError {
+  /** Base64 signed transaction */
+  readonly signedTransaction: string;
+  /**
+   * Whether the execute request had already been sent when the abort fired.
+   * If true the transaction may still land on-chain - check the signature before retrying.
+   */
+  readonly submitted: boolean;
+
+  constructor(signedTransaction: string, submitted: boolean, reason?: unknown) {
+    super(
+      submitted
+        ? 'Aborted while executing a signed transaction - it may still land on-chain'
+        : 'Aborted after signing - transaction was not submitted',
+      reason
+    );
+    this.name = 'AbortedAfterSigningError';
+    this.signedTransaction = signedTransaction;
+    this.submitted = submitted;
+  }
+}
+
+/**
+ * Server-built transaction failed pre-sign inspection - nothing was signed
+ */
+export class UnsafeTransactionError extends Error {
+  /** Every problem found, in instruction order */
+  readonly issues: TransactionIssue[];
+
+  constructor(issues: TransactionIssue[]) {
+    super(`Refusing to sign transaction: ${issues.map(i => i.message).join('; ')}`);
+    this.name = 'UnsafeTransactionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Signed transaction failed simulation - it was not submitted
+ */
+export class SimulationFailedError extends Error {
+  readonly simulation: TransactionSimulation;
+
+  constructor(simulation: TransactionSimulation) {
+    const lastLog = simulation.logs[simulation.logs.length - 1];
+    super(`Transaction simulation failed: ${JSON.stringify(simulation.err)}${lastLog ? ` (${lastLog})` : ''}`);
+    this.name = 'SimulationFailedError';
+    this.simulation = simulation;
+  }
+}
+
+/**
+ * Token screen expression could not be parsed
+ */
+export class FilterSyntaxError extends Error {
+  /** Offset in the expression where parsing failed */
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position}: ${expression}`);
+    this.name = 'FilterSyntaxError';
+    this.position = position;
+  }
+}
+
+/**
+ * The API or RPC is not on the configured environment's network
+ */
+export class EnvironmentMismatchError extends Error {
+  /** Environment that was expected */
+  readonly environment: string;
+  /** One line per disagreement */
+  readonly mismatches: string[];
+
+  constructor(environment: string, mismatches: string[]) {
+    super(`Environment "${environment}" does not match the server:\n${mismatches.map(m => `  - ${m}`).join('\n')}`);
+    this.name = 'EnvironmentMismatchError';
+    this.environment = environment;
+    this.mismatches = mismatches;
+  }
+}
+
+function isRpcErrorBody(body: ApiErrorBody): body is SolanaRpcErrorBody {
+  return typeof (body as SolanaRpcErrorBody).error === 'object' && (body as SolanaRpcErrorBody).error !== null;
+}
+
+function isGraduatedBody(body: ApiErrorBody): body is TokenGraduatedErrorBody {
+  return (body as TokenGraduatedErrorBody).graduated === true;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * Build the matching typed error for a non-2xx response
+ */
+export function createApiError(
+  status: number,
+  body: ApiErrorBody,
+  request: { method?: string; path?: string; retryAfter?: string | null } = {}
+): ClawdVaultApiError {
+  const { retryAfter, ...req } = request;
+  const message = getErrorMessage(status, body);
+
+  if (isGraduatedBody(body)) {
+    return new TokenGraduatedError(message, status, body, req);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, body, req, parseRetryAfter(retryAfter));
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status, body, req);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, body, req);
+  }
+  if (status === 502 || status === 503 || status === 504 || isRpcErrorBody(body)) {
+    return new UpstreamRpcError(message, status, body, req);
+  }
+  return new ClawdVaultApiError(message, status, body, req);
+}
+
+function getErrorMessage(status: number, body: ApiErrorBody): string {
+  if (isRpcErrorBody(body)) {
+    return body.error?.message || `HTTP ${status}`;
+  }
+  const { error, message } = body as { error?: string; message?: string };
+  return error || message || `HTTP ${status}`;
+}
@@ -0,0 +1,5 @@
+// `eventsource` 2.x ships without types; it implements the WHATWG EventSource
+declare module 'eventsource' {
+  const EventSource: typeof globalThis.EventSource;
+  export = EventSource;
+}
@@ -0,0 +1,123 @@
+/**
+ * Trade history export
+ * Pages through `/trades` for one or more mints and flattens the trades
+ * into rows for CSV or NDJSON
+ */
+
+import type { ClawdVaultClient } from './client';
+import type { Trade } from './types';
+import type { CallOptions } from './abort';
+
+export type TradeExportFormat = 'csv' | 'ndjson';
+
+export interface ExportTradesOptions extends CallOptions {
+  /** Mints to export */
+  mints: string[];
+  /** Only trades by this wallet */
+  trader?: string;
+  /** Earliest trade to include (inclusive) */
+  from?: Date | string | number;
+  /** Latest trade to include (exclusive) */
+  to?: Date | string | number;
+  /** Cluster for explorer links (default: mainnet) */
+  network?: string;
+}
+
+/**
+ * One exported trade, flat for spreadsheets
+ */
+export interface TradeExportRow {
+  /** ISO 8601 */
+  timestamp: string;
+  mint: string;
+  type: 'buy' | 'sell' | null;
+  sol_amount: number | null;
+  token_amount: number | null;
+  price_sol: number | null;
+  price_usd: number | null;
+  /** SOL/USD at trade time */
+  sol_price_usd: number | null;
+  trader: string | null;
+  signature: string | null;
+  explorer: string | null;
+}
+
+/** Column order of CSV exports */
+export const TRADE_EXPORT_COLUMNS: (keyof TradeExportRow)[] = [
+  'timestamp',
+  'mint',
+  'type',
+  'sol_amount',
+  'token_amount',
+  'price_sol',
+  'price_usd',
+  'sol_price_usd',
+  'trader',
+  'signature',
+  'explorer',
+];
+
+/**
+ * Solana Explorer link for a transaction
+ */
+export function explorerTxUrl(signature: string, network = 'mainnet-beta'): string {
+  return network === 'mainnet' || network === 'mainnet-beta'
+    ? `https://explorer.solana.com/tx/${signature}`
+    : `https://explorer.solana.com/tx/${signature}?cluster=${network}`;
+}
+
+/**
+ * Fetch every trade for `mints` within `[from, to)`, oldest first
+ */
+export async function exportTrades(client: ClawdVaultClient, options: ExportTradesOptions): Promise<TradeExportRow[]> {
+  const { mints, trader, from, to, network, signal } = options;
+  const end = to !== undefined ? new Date(to).getTime() : Infinity;
+  const rows: TradeExportRow[] = [];
+
+  for (const mint of mints) {
+    for await (const trade of client.iterateTrades({ mint, limit: 100 }, { since: from, signal })) {
+      if (!trade.created_at || Date.parse(trade.created_at) >= end) continue;
+      if (trader && trade.trader !== trader) continue;
+      rows.push(toRow(mint, trade, network));
+    }
+  }
+
+  return rows.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Render export rows as CSV (with header) or NDJSON
+ */
+export function formatTradeExport(rows: TradeExportRow[], format: TradeExportFormat): string {
+  if (format === 'ndjson') {
+    return rows.map(row => JSON.stringify(row)).join('\n');
+  }
+  return toCsv(TRADE_EXPORT_COLUMNS, rows.map(row => TRADE_EXPORT_COLUMNS.map(column => row[column])));
+}
+
+/**
+ * Render rows as CSV (RFC 4180 quoting)
+ */
+export function toCsv(headers: string[], rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  const cell = (value: string | number | boolean | null | undefined): string => {
+    const text = value == null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(cell).join(',')).join('\n');
+}
+
+function toRow(mint: string, trade: Trade, network?: string): TradeExportRow {
+  return {
+    timestamp: new Date(trade.created_at!).toISOString(),
+    mint,
+    type: trade.type ?? null,
+    sol_amount: trade.sol_amount ?? null,
+    token_amount: trade.token_amount ?? null,
+    price_sol: trade.price_sol ?? null,
+    price_usd: trade.price_usd ?? null,
+    sol_price_usd: trade.sol_price_usd ?? null,
+    trader: trade.trader ?? null,
+    signature: trade.signature ?? null,
+    explorer: trade.signature ? explorerTxUrl(trade.signature, network) : null,
+  };
+}
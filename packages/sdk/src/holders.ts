@@ -0,0 +1,159 @@
+/**
+ * Holder concentration analytics
+ * Top-N share, creator share, Gini, Herfindahl index and threshold counts on
+ * `getHolders` data, plus diffs between two holder snapshots
+ */
+
+import type { HolderInfo } from './types';
+import { TOTAL_SUPPLY } from './curve';
+
+export interface HolderAnalyticsOptions {
+  /** Creator wallet - matched by address as well as the server's creator label */
+  creator?: string;
+  /** Extra addresses to leave out, e.g. known pools or burn wallets */
+  exclude?: string[];
+  /** Supply % cut-offs for `thresholds` (default: 0.1, 0.5, 1, 5) */
+  thresholds?: number[];
+  /** Used when a holder has no `percentage` (default: `TOTAL_SUPPLY`) */
+  totalSupply?: number;
+}
+
+export interface HolderAnalytics {
+  /** Holders counted, i.e. without the bonding curve and excluded addresses */
+  holders: number;
+  /** Holders left out of every metric below */
+  excluded: HolderInfo[];
+  /** % of supply held by the 10 largest counted holders */
+  top10Share: number;
+  /** % of supply held by the 20 largest counted holders */
+  top20Share: number;
+  /** % of supply held by the creator, `null` if the creator is unknown */
+  creatorShare: number | null;
+  /** 0 (equal balances) to 1 (one holder has everything), among counted holders */
+  gini: number;
+  /** Herfindahl-Hirschman index of counted holders' shares, 0-10000 */
+  hhi: number;
+  /** Number of counted holders at or above each supply % cut-off */
+  thresholds: { percent: number; count: number }[];
+}
+
+export type HolderChangeKind = 'new' | 'exited' | 'accumulated' | 'distributed' | 'unchanged';
+
+export interface HolderChange {
+  address: string;
+  label?: string;
+  kind: HolderChangeKind;
+  before: number;
+  after: number;
+  /** `after - before` in tokens */
+  change: number;
+  /** Change in % of supply, in percentage points */
+  shareChange: number;
+}
+
+export interface HolderDiff {
+  /** Every holder in either snapshot, largest absolute change first */
+  changes: HolderChange[];
+  /** Net tokens moved into holders that grew */
+  accumulated: number;
+  /** Net tokens moved out of holders that shrank */
+  distributed: number;
+  newHolders: number;
+  exitedHolders: number;
+}
+
+const DEFAULT_THRESHOLDS = [0.1, 0.5, 1, 5];
+
+/**
+ * Whether the server labeled this holder as the bonding curve account
+ */
+export function isBondingCurveHolder(holder: HolderInfo): boolean {
+  return /bonding|curve/i.test(holder.label ?? '');
+}
+
+/**
+ * Concentration metrics for a `getHolders` response
+ * Only the holders the endpoint returns are seen, so long-tail metrics (Gini, HHI)
+ * describe the top of the distribution
+ *
+ * @example
+ * const { holders } = await client.getHolders(mint, token.creator);
+ * const stats = analyzeHolders(holders ?? [], { creator: token.creator });
+ * if (stats.top10Share > 30 || (stats.creatorShare ?? 0) > 5) skip();
+ */
+export function analyzeHolders(holders: HolderInfo[], options: HolderAnalyticsOptions = {}): HolderAnalytics {
+  const { creator, exclude = [], thresholds = DEFAULT_THRESHOLDS, totalSupply = TOTAL_SUPPLY } = options;
+  const share = (h: HolderInfo) => h.percentage ?? ((h.balance ?? 0) / totalSupply) * 100;
+
+  const excluded = holders.filter(h => isBondingCurveHolder(h) || (h.address !== undefined && exclude.includes(h.address)));
+  const counted = holders
+    .filter(h => !excluded.includes(h))
+    .sort((a, b) => (b.balance ?? 0) - (a.balance ?? 0));
+  const topShare = (n: number) => counted.slice(0, n).reduce((sum, h) => sum + share(h), 0);
+
+  const creatorHolder = counted.find(h => (creator !== undefined && h.address === creator) || /creator|dev/i.test(h.label ?? ''));
+  const creatorShare = creatorHolder ? share(creatorHolder) : creator !== undefined ? 0 : null;
+
+  const balances = counted.map(h => h.balance ?? 0);
+  const total = balances.reduce((sum, b) => sum + b, 0);
+
+  return {
+    holders: counted.length,
+    excluded,
+    top10Share: topShare(10),
+    top20Share: topShare(20),
+    creatorShare,
+    gini: gini(balances),
+    hhi: total > 0 ? balances.reduce((sum, b) => sum + ((b / total) * 100) ** 2, 0) : 0,
+    thresholds: thresholds.map(percent => ({ percent, count: counted.filter(h => share(h) >= percent).length })),
+  };
+}
+
+/**
+ * Per-holder changes between two snapshots of the same token
+ */
+export function diffHolders(before: HolderInfo[], after: HolderInfo[], totalSupply = TOTAL_SUPPLY): HolderDiff {
+  const index = (holders: HolderInfo[]) => new Map(
+    holders.filter(h => h.address !== undefined).map(h => [h.address!, h])
+  );
+  const prev = index(before);
+  const next = index(after);
+  const share = (h: HolderInfo | undefined) => h ? h.percentage ?? ((h.balance ?? 0) / totalSupply) * 100 : 0;
+
+  const changes: HolderChange[] = [...new Set([...prev.keys(), ...next.keys()])].map(address => {
+    const a = prev.get(address);
+    const b = next.get(address);
+    const was = a?.balance ?? 0;
+    const now = b?.balance ?? 0;
+    const kind: HolderChangeKind = !a ? 'new' : !b ? 'exited' : now > was ? 'accumulated' : now < was ? 'distributed' : 'unchanged';
+    return {
+      address,
+      label: b?.label ?? a?.label,
+      kind,
+      before: was,
+      after: now,
+      change: now - was,
+      shareChange: share(b) - share(a),
+    };
+  }).sort((x, y) => Math.abs(y.change) - Math.abs(x.change));
+
+  return {
+    changes,
+    accumulated: changes.reduce((sum, c) => sum + Math.max(c.change, 0), 0),
+    distributed: changes.reduce((sum, c) => sum + Math.max(-c.change, 0), 0),
+    newHolders: changes.filter(c => c.kind === 'new').length,
+    exitedHolders: changes.filter(c => c.kind === 'exited').length,
+  };
+}
+
+/**
+ * Gini coefficient of non-negative values
+ */
+function gini(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+  if (n === 0 || total === 0) return 0;
+  const weighted = sorted.reduce((sum, v, i) => sum + (i + 1) * v, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
@@ -8,6 +8,240 @@
 // Main client
 export { ClawdVaultClient, createClient, type ClawdVaultConfig } from './client';
 
+// Streaming
+export {
+  ClawdVaultStreaming,
+  LiveConnection,
+  StreamConnection,
+  createStreaming,
+  type StreamingOptions,
+  type EventSourceLike,
+  type StreamTrade,
+  type StreamTokenUpdate,
+  type StreamChatMessage,
+} from './streaming';
+
+// Polling watchers (SSE fallback)
+export {
+  TradeWatcher,
+  TokenWatcher,
+  type WatchOptions,
+  type WatchTradesOptions,
+} from './watcher';
+
+// Bonding curve math
+export {
+  BondingCurve,
+  INITIAL_VIRTUAL_SOL_RESERVES,
+  INITIAL_VIRTUAL_TOKEN_RESERVES,
+  TOTAL_SUPPLY,
+  GRADUATION_THRESHOLD_SOL,
+  DEFAULT_FEE_BPS,
+  type CurveReserves,
+  type CurveQuote,
+  type BondingCurveOptions,
+} from './curve';
+
+// Candle utilities and indicators
+export {
+  loadCandles,
+  normalizeCandles,
+  fillGaps,
+  resample,
+  intervalSeconds,
+  bucketStart,
+  closes,
+  times,
+  sma,
+  ema,
+  rsi,
+  vwap,
+  bollinger,
+  atr,
+  type Candle,
+  type ServerInterval,
+  type BollingerBands,
+  type FillGapsOptions,
+  type LoadCandlesOptions,
+} from './candles';
+
+// Holder analytics
+export {
+  analyzeHolders,
+  diffHolders,
+  isBondingCurveHolder,
+  type HolderAnalytics,
+  type HolderAnalyticsOptions,
+  type HolderChange,
+  type HolderChangeKind,
+  type HolderDiff,
+} from './holders';
+
+// Token screener
+export {
+  screenTokens,
+  compileFilter,
+  sortTokens,
+  TOKEN_FIELDS,
+  type TokenFilter,
+  type ScreenOptions,
+  type SavedScreen,
+} from './screen';
+
+// Positions and PnL
+export {
+  Portfolio,
+  findTradedMints,
+  DEFAULT_MAX_SIGNATURES,
+  type CostBasisMethod,
+  type PortfolioOptions,
+  type LoadPortfolioOptions,
+  type FindTradedMintsOptions,
+  type PortfolioTrade,
+  type PositionPrice,
+  type PositionPnl,
+  type PortfolioTotals,
+} from './portfolio';
+
+// Trade export
+export {
+  exportTrades,
+  formatTradeExport,
+  explorerTxUrl,
+  toCsv,
+  TRADE_EXPORT_COLUMNS,
+  type ExportTradesOptions,
+  type TradeExportFormat,
+  type TradeExportRow,
+} from './export';
+
+// Retry policy
+export { DEFAULT_RETRY_POLICY, type RetryOptions } from './retry';
+
+// Errors
+export {
+  ClawdVaultApiError,
+  RateLimitError,
+  AuthError,
+  NotFoundError,
+  TokenGraduatedError,
+  UpstreamRpcError,
+  NetworkError,
+  TimeoutError,
+  RequestAbortedError,
+  AbortedAfterSigningError,
+  UnsafeTransactionError,
+  SimulationFailedError,
+  FilterSyntaxError,
+  EnvironmentMismatchError,
+} from './errors';
+
+// Pre-sign transaction inspection
+export {
+  inspectTransaction,
+  assertSafeTransaction,
+  DEFAULT_ALLOWED_PROGRAMS,
+  type TransactionGuardOptions,
+  type TransactionInspection,
+  type TransactionIssue,
+  type TransactionIssueCode,
+  type WalletTransfer,
+} from './inspect';
+
+// Transaction decoding
+export {
+  decodeTransaction,
+  type DecodedTransaction,
+  type DecodedInstruction,
+  type DecodedAccount,
+  type DecodedTransfer,
+  type ComputeBudgetSettings,
+} from './decode';
+
+// Simulation
+export type {
+  SimulateOptions,
+  TransactionOptions,
+  TransactionSimulation,
+  SimulatedBalance,
+  Simulated,
+} from './simulate';
+
+// Solana RPC over the /rpc proxy
+export {
+  RpcClient,
+  RPC_REQUESTS_PER_MINUTE,
+  type RpcOptions,
+  type RpcCall,
+  type ConfirmTransactionOptions,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './rpc';
+
+// Cancellation
+export type { CallOptions } from './abort';
+
+// Pagination
+export type { IterateOptions } from './pagination';
+
+// Transport
+export {
+  composeMiddleware,
+  type FetchLike,
+  type Middleware,
+  type TransportRequest,
+  type TransportNext,
+} from './transport';
+
+// Response cache
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  DEFAULT_CACHE_ROUTES,
+  type CacheOptions,
+  type CacheStore,
+  type CacheEntry,
+  type CacheRule,
+  type CacheRoutes,
+} from './cache';
+
+// Rate limiting
+export {
+  RateLimiter,
+  defaultPriority,
+  DEFAULT_RATE_LIMIT,
+  DEFAULT_RATE_LIMIT_GROUPS,
+  type RequestPriority,
+  type RateLimitBudget,
+  type RateLimitGroup,
+  type RateLimitOptions,
+  type RateLimitGroupMetrics,
+  type RateLimitMetrics,
+} from './ratelimit';
+
+// Session lifecycle
+export {
+  SessionManager,
+  MemorySessionStore,
+  FileSessionStore,
+  LocalStorageSessionStore,
+  type SessionOptions,
+  type SessionStore,
+  type SessionSource,
+  type StoredSession,
+} from './session';
+
+// Environments
+export {
+  ENVIRONMENTS,
+  resolveEnvironment,
+  validateEnvironment,
+  type Environment,
+  type EnvironmentName,
+  type EnvironmentReport,
+  type ValidateEnvironmentOptions,
+} from './environment';
+
 // Wallet integration
 export {
   type WalletSigner,
@@ -63,6 +297,7 @@ export type {
   SessionValidateResponse,
   UploadResponse,
   NetworkStatusResponse,
+  WalletBalancesResponse,
   
   // Query params
   TokenListParams,
@@ -92,6 +327,16 @@ export type {
   AgentEntry,
   UserEntry,
 
+  // Solana RPC proxy
+  SolanaRpcRequest,
+  SolanaRpcResponse,
+
+  // Error bodies
+  ApiErrorBody,
+  TokenGraduatedErrorBody,
+  SolanaRpcErrorBody,
+  RpcUnavailableErrorBody,
+
   // Full API types for advanced usage
   paths,
   components,
@@ -101,5 +346,4 @@ export type {
 export { PublicKey, Keypair } from '@solana/web3.js';
 
 // Constants
-export const PROGRAM_ID = 'GUyF2TVe32Cid4iGVt2F6wPYDhLSVmTUZBj2974outYM';
-export const DEFAULT_BASE_URL = 'https://clawdvault.com/api';
+export { PROGRAM_ID, JUPITER_PROGRAM_ID, DEFAULT_BASE_URL } from './constants';
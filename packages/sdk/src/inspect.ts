@@ -0,0 +1,335 @@
+/**
+ * Pre-sign transaction inspection
+ * Decodes server-built transactions and checks them against the wallet
+ * before anything is signed
+ */
+
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { PROGRAM_ID, JUPITER_PROGRAM_ID } from './constants';
+import { UnsafeTransactionError } from './errors';
+
+/**
+ * Programs a ClawdVault transaction may invoke by default
+ */
+export const DEFAULT_ALLOWED_PROGRAMS: readonly string[] = [
+  PROGRAM_ID,
+  SystemProgram.programId.toBase58(),
+  TOKEN_PROGRAM_ID.toBase58(),
+  ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+  ComputeBudgetProgram.programId.toBase58(),
+  JUPITER_PROGRAM_ID,
+];
+
+export interface TransactionGuardOptions {
+  /** Extra program IDs to allow on top of `DEFAULT_ALLOWED_PROGRAMS` */
+  allowedPrograms?: string[];
+  /** Extra accounts the wallet may send SOL or tokens to (its own accounts are always allowed) */
+  allowedRecipients?: string[];
+}
+
+export type TransactionIssueCode =
+  | 'DECODE_FAILED'
+  | 'FEE_PAYER_MISMATCH'
+  | 'WALLET_NOT_SIGNER'
+  | 'UNEXPECTED_SIGNER'
+  | 'PROGRAM_NOT_ALLOWED'
+  | 'UNEXPECTED_TRANSFER'
+  | 'UNRESOLVED_ACCOUNT'
+  | 'DANGEROUS_INSTRUCTION';
+
+export interface TransactionIssue {
+  code: TransactionIssueCode;
+  message: string;
+  /** Index of the offending instruction, if any */
+  instruction?: number;
+}
+
+/**
+ * Transfer out of the wallet found in a top-level instruction
+ */
+export interface WalletTransfer {
+  instruction: number;
+  kind: 'sol' | 'token';
+  /** Destination account, or `undefined` if it comes from an address lookup table */
+  to?: string;
+  /** Lamports for SOL, raw base units for tokens */
+  amount: bigint;
+}
+
+export interface TransactionInspection {
+  feePayer: string;
+  /** Accounts whose signature the transaction requires */
+  signers: string[];
+  /** Program invoked by each top-level instruction */
+  programIds: string[];
+  transfers: WalletTransfer[];
+  issues: TransactionIssue[];
+}
+
+/**
+ * Top-level instruction with its accounts resolved where possible
+ */
+interface ResolvedInstruction {
+  programId: string;
+  /** `undefined` for accounts loaded from an address lookup table */
+  accounts: (string | undefined)[];
+  data: Uint8Array;
+}
+
+/**
+ * Decode a base64 transaction (legacy or v0)
+ */
+export function deserializeTransaction(transaction: string): VersionedTransaction {
+  return VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+}
+
+/**
+ * Resolve program IDs and static account keys of every top-level instruction
+ */
+function resolveInstructions(tx: VersionedTransaction): ResolvedInstruction[] {
+  const keys = tx.message.staticAccountKeys.map(k => k.toBase58());
+  return tx.message.compiledInstructions.map(ix => ({
+    programId: keys[ix.programIdIndex],
+    accounts: ix.accountKeyIndexes.map(i => keys[i]),
+    data: ix.data,
+  }));
+}
+
+/**
+ * Inspect a base64 transaction on behalf of `wallet`
+ * Never throws - problems are reported in `issues`
+ */
+export function inspectTransaction(
+  transaction: string,
+  wallet: PublicKey | string,
+  options: TransactionGuardOptions = {}
+): TransactionInspection {
+  const walletKey = new PublicKey(wallet);
+  const walletAddress = walletKey.toBase58();
+
+  let tx: VersionedTransaction;
+  try {
+    tx = deserializeTransaction(transaction);
+  } catch (err) {
+    return {
+      feePayer: '',
+      signers: [],
+      programIds: [],
+      transfers: [],
+      issues: [{ code: 'DECODE_FAILED', message: `Could not decode transaction: ${(err as Error).message}` }],
+    };
+  }
+
+  const issues: TransactionIssue[] = [];
+  const keys = tx.message.staticAccountKeys;
+  const feePayer = keys[0].toBase58();
+  const signers = keys.slice(0, tx.message.header.numRequiredSignatures).map(k => k.toBase58());
+
+  if (feePayer !== walletAddress) {
+    issues.push({ code: 'FEE_PAYER_MISMATCH', message: `Fee payer is ${feePayer}, expected ${walletAddress}` });
+  }
+  if (!signers.includes(walletAddress)) {
+    issues.push({ code: 'WALLET_NOT_SIGNER', message: 'Wallet is not a signer of this transaction' });
+  }
+  // Co-signers (e.g. a fresh mint keypair) are only acceptable if the server already signed for them
+  signers.forEach((signer, i) => {
+    if (signer !== walletAddress && tx.signatures[i].every(b => b === 0)) {
+      issues.push({ code: 'UNEXPECTED_SIGNER', message: `Transaction also requires a signature from ${signer}` });
+    }
+  });
+
+  const allowedPrograms = new Set([...DEFAULT_ALLOWED_PROGRAMS, ...(options.allowedPrograms ?? [])]);
+  const recipients = allowedRecipientSet(walletKey, keys, options.allowedRecipients);
+  const instructions = resolveInstructions(tx);
+  const transfers: WalletTransfer[] = [];
+
+  instructions.forEach((ix, index) => {
+    if (!allowedPrograms.has(ix.programId)) {
+      issues.push({ code: 'PROGRAM_NOT_ALLOWED', message: `Instruction ${index} invokes unexpected program ${ix.programId}`, instruction: index });
+      return;
+    }
+    if (ix.programId === SystemProgram.programId.toBase58()) {
+      checkSystemInstruction(ix, index, walletAddress, recipients, transfers, issues);
+    } else if (ix.programId === TOKEN_PROGRAM_ID.toBase58()) {
+      checkTokenInstruction(ix, index, walletAddress, recipients, transfers, issues);
+    }
+  });
+
+  return {
+    feePayer,
+    signers,
+    programIds: instructions.map(ix => ix.programId),
+    transfers,
+    issues,
+  };
+}
+
+/**
+ * Inspect a transaction and throw `UnsafeTransactionError` if anything looks wrong
+ */
+export function assertSafeTransaction(
+  transaction: string,
+  wallet: PublicKey | string,
+  options: TransactionGuardOptions = {}
+): TransactionInspection {
+  const inspection = inspectTransaction(transaction, wallet, options);
+  if (inspection.issues.length > 0) {
+    throw new UnsafeTransactionError(inspection.issues);
+  }
+  return inspection;
+}
+
+/**
+ * The wallet itself, its associated token accounts for every account in the
+ * transaction (any of them may be a mint) and wrapped SOL, plus caller extras
+ */
+function allowedRecipientSet(wallet: PublicKey, keys: PublicKey[], extra: string[] = []): Set<string> {
+  const allowed = new Set([wallet.toBase58(), ...extra]);
+  for (const mint of [NATIVE_MINT, ...keys]) {
+    allowed.add(getAssociatedTokenAddressSync(mint, wallet, true).toBase58());
+  }
+  return allowed;
+}
+
+function checkRecipient(
+  to: string | undefined,
+  index: number,
+  what: string,
+  recipients: Set<string>,
+  issues: TransactionIssue[]
+): void {
+  if (to === undefined) {
+    issues.push({ code: 'UNRESOLVED_ACCOUNT', message: `Instruction ${index} sends ${what} to an account from a lookup table`, instruction: index });
+  } else if (!recipients.has(to)) {
+    issues.push({ code: 'UNEXPECTED_TRANSFER', message: `Instruction ${index} sends ${what} to unexpected account ${to}`, instruction: index });
+  }
+}
+
+/**
+ * Little-endian u64 amount at `offset`, or a DECODE_FAILED issue if the data is too short
+ */
+function readAmount(ix: ResolvedInstruction, offset: number, index: number, issues: TransactionIssue[]): bigint | undefined {
+  if (ix.data.length < offset + 8) {
+    issues.push({ code: 'DECODE_FAILED', message: `Instruction ${index} has truncated transfer data`, instruction: index });
+    return undefined;
+  }
+  return new DataView(ix.data.buffer, ix.data.byteOffset, ix.data.byteLength).getBigUint64(offset, true);
+}
+
+// System program instruction indices
+const SYSTEM_CREATE_ACCOUNT = 0;
+const SYSTEM_TRANSFER = 2;
+const SYSTEM_CREATE_ACCOUNT_WITH_SEED = 3;
+const SYSTEM_TRANSFER_WITH_SEED = 11;
+
+function checkSystemInstruction(
+  ix: ResolvedInstruction,
+  index: number,
+  wallet: string,
+  recipients: Set<string>,
+  transfers: WalletTransfer[],
+  issues: TransactionIssue[]
+): void {
+  if (!ix.accounts.includes(wallet)) return;
+  const view = new DataView(ix.data.buffer, ix.data.byteOffset, ix.data.byteLength);
+  const kind = ix.data.length >= 4 ? view.getUint32(0, true) : -1;
+
+  switch (kind) {
+    case SYSTEM_CREATE_ACCOUNT:
+    case SYSTEM_CREATE_ACCOUNT_WITH_SEED:
+      // Funding rent for a new account the transaction also creates is expected
+      return;
+    case SYSTEM_TRANSFER: {
+      const [from, to] = ix.accounts;
+      if (from !== wallet) return;
+      const amount = readAmount(ix, 4, index, issues);
+      if (amount === undefined) return;
+      transfers.push({ instruction: index, kind: 'sol', to, amount });
+      checkRecipient(to, index, 'SOL', recipients, issues);
+      return;
+    }
+    case SYSTEM_TRANSFER_WITH_SEED: {
+      const [from, , to] = ix.accounts;
+      if (from !== wallet) return;
+      const amount = readAmount(ix, 4, index, issues);
+      if (amount === undefined) return;
+      transfers.push({ instruction: index, kind: 'sol', to, amount });
+      checkRecipient(to, index, 'SOL', recipients, issues);
+      return;
+    }
+    default:
+      // Assign, Allocate, nonce ops etc. on the wallet could hand it to another program
+      issues.push({ code: 'DANGEROUS_INSTRUCTION', message: `Instruction ${index} runs System instruction ${kind} on the wallet`, instruction: index });
+  }
+}
+
+// SPL Token instruction indices
+const TOKEN_TRANSFER = 3;
+const TOKEN_APPROVE = 4;
+const TOKEN_SET_AUTHORITY = 6;
+const TOKEN_CLOSE_ACCOUNT = 9;
+const TOKEN_TRANSFER_CHECKED = 12;
+const TOKEN_APPROVE_CHECKED = 13;
+
+function checkTokenInstruction(
+  ix: ResolvedInstruction,
+  index: number,
+  wallet: string,
+  recipients: Set<string>,
+  transfers: WalletTransfer[],
+  issues: TransactionIssue[]
+): void {
+  const kind = ix.data[0];
+
+  switch (kind) {
+    case TOKEN_TRANSFER: {
+      const [, to, authority] = ix.accounts;
+      if (authority !== wallet) return;
+      const amount = readAmount(ix, 1, index, issues);
+      if (amount === undefined) return;
+      transfers.push({ instruction: index, kind: 'token', to, amount });
+      checkRecipient(to, index, 'tokens', recipients, issues);
+      return;
+    }
+    case TOKEN_TRANSFER_CHECKED: {
+      const [, , to, authority] = ix.accounts;
+      if (authority !== wallet) return;
+      const amount = readAmount(ix, 1, index, issues);
+      if (amount === undefined) return;
+      transfers.push({ instruction: index, kind: 'token', to, amount });
+      checkRecipient(to, index, 'tokens', recipients, issues);
+      return;
+    }
+    case TOKEN_APPROVE:
+    case TOKEN_APPROVE_CHECKED: {
+      const authority = ix.accounts[kind === TOKEN_APPROVE ? 2 : 3];
+      if (authority === wallet) {
+        issues.push({ code: 'DANGEROUS_INSTRUCTION', message: `Instruction ${index} approves a delegate over the wallet's tokens`, instruction: index });
+      }
+      return;
+    }
+    case TOKEN_SET_AUTHORITY:
+      if (ix.accounts[1] === wallet) {
+        issues.push({ code: 'DANGEROUS_INSTRUCTION', message: `Instruction ${index} changes the authority of a wallet-owned account`, instruction: index });
+      }
+      return;
+    case TOKEN_CLOSE_ACCOUNT: {
+      const [, to, owner] = ix.accounts;
+      if (owner === wallet && to !== wallet) {
+        checkRecipient(to, index, 'closed account rent', recipients, issues);
+      }
+      return;
+    }
+  }
+}
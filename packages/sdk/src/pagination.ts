@@ -0,0 +1,114 @@
+/**
+ * Async pagination helpers
+ * Walk page-numbered (`page`/`per_page`) and cursor (`before`) endpoints until exhausted
+ */
+
+import type { CallOptions } from './abort';
+
+/**
+ * Options accepted by every `iterate*` client method
+ */
+export interface IterateOptions<T> extends CallOptions {
+  /** Stop after yielding this many items */
+  maxItems?: number;
+  /**
+   * Stop at the first item created before this date (the item is not yielded).
+   * Only meaningful for newest-first listings: trades, chat, tokens sorted by `created_at`.
+   */
+  since?: Date | string | number;
+  /** Stop at the first item for which this returns true (the item is not yielded) */
+  stopWhen?: (item: T, index: number) => boolean;
+}
+
+/**
+ * A single page from a page-numbered endpoint
+ */
+export interface NumberedPage<T> {
+  items: T[];
+  total?: number;
+  /** Page size the server actually used (may be lower than requested) */
+  perPage?: number;
+}
+
+/**
+ * Iterate a page-numbered endpoint starting at page 1
+ * Items already seen are skipped, since new entries shift later pages while walking
+ */
+export async function* paginateByPage<T>(
+  fetchPage: (page: number) => Promise<NumberedPage<T>>,
+  keyOf: (item: T) => string | undefined,
+  requestedPerPage?: number
+): AsyncGenerator<T, void, undefined> {
+  const seen = new Set<string>();
+  let fetched = 0;
+
+  for (let page = 1; ; page++) {
+    const { items, total, perPage } = await fetchPage(page);
+    if (items.length === 0) return;
+    fetched += items.length;
+
+    for (const item of items) {
+      const key = keyOf(item);
+      if (key !== undefined) {
+        if (seen.has(key)) continue;
+        seen.add(key);
+      }
+      yield item;
+    }
+
+    const pageSize = perPage ?? requestedPerPage;
+    if (pageSize !== undefined && items.length < pageSize) return;
+    if (total !== undefined && fetched >= total) return;
+  }
+}
+
+/**
+ * Iterate a `before`-cursor endpoint, using the id of the last item as the next cursor
+ * Stops on an empty page, a page with nothing new, or an item without an id
+ */
+export async function* paginateByCursor<T extends { id?: string }>(
+  fetchPage: (before: string | undefined) => Promise<T[]>
+): AsyncGenerator<T, void, undefined> {
+  const seen = new Set<string>();
+  let before: string | undefined;
+
+  for (;;) {
+    const items = await fetchPage(before);
+    let fresh = 0;
+
+    for (const item of items) {
+      if (item.id !== undefined) {
+        if (seen.has(item.id)) continue;
+        seen.add(item.id);
+      }
+      fresh++;
+      yield item;
+    }
+
+    const cursor = items[items.length - 1]?.id;
+    // Servers that include the cursor item itself would otherwise loop forever
+    if (fresh === 0 || cursor === undefined || cursor === before) return;
+    before = cursor;
+  }
+}
+
+/**
+ * Apply `maxItems`, `since` and `stopWhen` to an item stream
+ * Breaking out of the loop also stops the underlying pagination
+ */
+export async function* applyStopConditions<T extends { created_at?: string }>(
+  source: AsyncIterable<T>,
+  options: IterateOptions<T>
+): AsyncGenerator<T, void, undefined> {
+  const { maxItems, since, stopWhen } = options;
+  if (maxItems !== undefined && maxItems <= 0) return;
+  const sinceMs = since === undefined ? undefined : new Date(since).getTime();
+  let index = 0;
+
+  for await (const item of source) {
+    if (sinceMs !== undefined && item.created_at && Date.parse(item.created_at) < sinceMs) return;
+    if (stopWhen?.(item, index)) return;
+    yield item;
+    if (++index === maxItems) return;
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * Position and PnL tracking
+ * Rebuilds a wallet's positions per mint from trade history and execute
+ * receipts, with FIFO or average cost basis
+ */
+
+import type { ClawdVaultClient } from './client';
+import type { ExecuteTradeResponse, Token, Trade } from './types';
+import type { CallOptions } from './abort';
+import { DEFAULT_FEE_BPS } from './curve';
+import { NotFoundError } from './errors';
+import { PROGRAM_ID, JUPITER_PROGRAM_ID } from './constants';
+
+/** Wrapped SOL - the quote side of every swap, never a position */
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/** Signatures per `getSignaturesForAddress` page (the RPC maximum) */
+const SIGNATURE_PAGE_SIZE = 1000;
+
+/** `getTransaction` calls per JSON-RPC batch */
+const TRANSACTION_BATCH_SIZE = 50;
+
+/** Most recent signatures `findTradedMints` checks by default - 21 `/rpc` requests at most */
+export const DEFAULT_MAX_SIGNATURES = 1000;
+
+/** How sold tokens are matched against earlier buys */
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface PortfolioOptions {
+  /** Cost basis method (default: 'fifo') */
+  method?: CostBasisMethod;
+  /**
+   * Fee rate used to estimate fees for history trades, which carry no fee breakdown
+   * (default: `DEFAULT_FEE_BPS`). Receipts report exact fees.
+   */
+  feeBps?: number;
+}
+
+export interface LoadPortfolioOptions extends PortfolioOptions, CallOptions {
+  /**
+   * Mints to rebuild (default: every mint the wallet holds or traded, from
+   * `getWalletBalances`, `findTradedMints` and `receipts`)
+   */
+  mints?: string[];
+  /** Ignore trades older than this */
+  since?: Date | string | number;
+  /** Most recent signatures to scan for closed positions (default: `DEFAULT_MAX_SIGNATURES`) */
+  maxSignatures?: number;
+  /** Execute receipts to merge with the history, e.g. ones not indexed yet */
+  receipts?: ExecuteTradeResponse[];
+}
+
+/**
+ * One trade by the tracked wallet
+ * `solAmount` is what the wallet paid (buy) or received (sell), fees included
+ */
+export interface PortfolioTrade {
+  mint: string;
+  type: 'buy' | 'sell';
+  solAmount: number;
+  tokenAmount: number;
+  /** Fees paid in SOL */
+  fee: number;
+  /** Whether `fee` was estimated from `feeBps` rather than reported */
+  feeEstimated: boolean;
+  /** Unix time in ms */
+  timestamp: number;
+  signature?: string;
+}
+
+/** Current price of a mint */
+export interface PositionPrice {
+  priceSol: number;
+  priceUsd?: number | null;
+  symbol?: string;
+}
+
+export interface PositionPnl {
+  mint: string;
+  /** Known once a price is set from a `Token` */
+  symbol: string | null;
+  /** Tokens still held according to the trades */
+  amount: number;
+  /** SOL cost of the tokens still held */
+  costBasisSol: number;
+  /** Cost per held token in SOL, `null` once the position is closed */
+  averageCostSol: number | null;
+  realizedPnlSol: number;
+  /** `null` without a current price */
+  unrealizedPnlSol: number | null;
+  unrealizedPnlUsd: number | null;
+  valueSol: number | null;
+  valueUsd: number | null;
+  priceSol: number | null;
+  priceUsd: number | null;
+  feesSol: number;
+  /** Whether any fee in `feesSol` is an estimate */
+  feesEstimated: boolean;
+  solInvested: number;
+  solReturned: number;
+  buys: number;
+  sells: number;
+  /**
+   * Tokens sold without a matching buy (transfers in, or history cut off by `since`).
+   * They carry no cost basis and are left out of `realizedPnlSol`.
+   */
+  unmatchedTokens: number;
+}
+
+export interface PortfolioTotals {
+  costBasisSol: number;
+  realizedPnlSol: number;
+  /** Sum over priced positions */
+  unrealizedPnlSol: number;
+  /** Sum over positions priced in USD */
+  unrealizedPnlUsd: number | null;
+  valueSol: number;
+  valueUsd: number | null;
+  feesSol: number;
+}
+
+interface Lot {
+  tokens: number;
+  costSol: number;
+}
+
+interface SignatureInfo {
+  signature: string;
+  blockTime?: number | null;
+  err: unknown;
+}
+
+interface TokenBalance {
+  mint: string;
+  owner?: string;
+}
+
+interface TransactionResult {
+  transaction: { message: { accountKeys: string[] } };
+  meta: {
+    err: unknown;
+    preTokenBalances?: TokenBalance[] | null;
+    postTokenBalances?: TokenBalance[] | null;
+  } | null;
+}
+
+export interface FindTradedMintsOptions extends CallOptions {
+  /** Stop at signatures older than this */
+  since?: Date | string | number;
+  /** Most recent signatures to check (default: `DEFAULT_MAX_SIGNATURES`). `Infinity` scans everything */
+  maxSignatures?: number;
+}
+
+/**
+ * Mints the wallet has traded through the bonding curve or Jupiter, from its on-chain history
+ * Unlike `getWalletBalances` this includes positions that have since been closed.
+ * Costs one `/rpc` request per 1000 signatures listed plus one per 50 signatures checked,
+ * so busy wallets should keep `maxSignatures` or `since` tight.
+ */
+export async function findTradedMints(
+  client: ClawdVaultClient,
+  wallet: string,
+  options: FindTradedMintsOptions = {}
+): Promise<string[]> {
+  const { signal, maxSignatures = DEFAULT_MAX_SIGNATURES } = options;
+  const sinceMs = options.since === undefined ? undefined : new Date(options.since).getTime();
+  const signatures: string[] = [];
+
+  let before: string | undefined;
+  let listed = 0;
+  while (listed < maxSignatures) {
+    const limit = Math.min(SIGNATURE_PAGE_SIZE, maxSignatures - listed);
+    const page = await client.rpc.call<SignatureInfo[]>(
+      'getSignaturesForAddress',
+      [wallet, { limit, before }],
+      { signal }
+    );
+    listed += page.length;
+    const recent = sinceMs === undefined ? page : page.filter(s => !s.blockTime || s.blockTime * 1000 >= sinceMs);
+    signatures.push(...recent.filter(s => !s.err).map(s => s.signature));
+    if (page.length < limit || recent.length < page.length) break;
+    before = page[page.length - 1].signature;
+  }
+
+  const mints = new Set<string>();
+  for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+    const calls = signatures.slice(i, i + TRANSACTION_BATCH_SIZE).map(signature => ({
+      method: 'getTransaction',
+      params: [signature, { encoding: 'json', maxSupportedTransactionVersion: 0 }],
+    }));
+    for (const response of await client.rpc.batch(calls, { signal })) {
+      const tx = response.result as TransactionResult | null | undefined;
+      if (!tx?.meta || tx.meta.err) continue;
+      const keys = tx.transaction.message.accountKeys;
+      if (!keys.includes(PROGRAM_ID) && !keys.includes(JUPITER_PROGRAM_ID)) continue;
+      for (const balance of [...(tx.meta.preTokenBalances ?? []), ...(tx.meta.postTokenBalances ?? [])]) {
+        if (balance.owner === wallet && balance.mint !== WRAPPED_SOL_MINT) mints.add(balance.mint);
+      }
+    }
+  }
+  return [...mints];
+}
+
+/**
+ * Positions and PnL for one wallet
+ *
+ * @example
+ * const portfolio = await Portfolio.load(client, wallet, { method: 'average' });
+ * for (const p of portfolio.positions()) {
+ *   console.log(p.mint, p.realizedPnlSol, p.unrealizedPnlSol);
+ * }
+ *
+ * // Keep it current with your own trades
+ * portfolio.addReceipt(await client.buy(mint, 0.1));
+ */
+export class Portfolio {
+  readonly wallet: string;
+  readonly method: CostBasisMethod;
+  readonly feeBps: number;
+  private trades = new Map<string, PortfolioTrade[]>();
+  private signatures = new Set<string>();
+  private prices = new Map<string, PositionPrice>();
+
+  constructor(wallet: string, options: PortfolioOptions = {}) {
+    this.wallet = wallet;
+    this.method = options.method ?? 'fifo';
+    this.feeBps = options.feeBps ?? DEFAULT_FEE_BPS;
+  }
+
+  /**
+   * Rebuild a wallet's portfolio from `getTrades` history and current token prices
+   * The trades endpoint has no trader filter, so each mint's full history is walked.
+   * Mints ClawdVault doesn't know about (USDC, other launchpads) are skipped.
+   */
+  static async load(client: ClawdVaultClient, wallet: string, options: LoadPortfolioOptions = {}): Promise<Portfolio> {
+    const { mints, since, receipts = [], signal } = options;
+    const portfolio = new Portfolio(wallet, options);
+    const targets = mints ?? await findPositionMints(client, wallet, options);
+
+    for (const mint of targets) {
+      let token: Token | undefined;
+      try {
+        ({ token } = await client.getToken(mint, { signal }));
+      } catch (err) {
+        if (err instanceof NotFoundError) continue;
+        throw err;
+      }
+
+      const trades: Trade[] = [];
+      for await (const trade of client.iterateTrades({ mint, limit: 100 }, { since, signal })) {
+        if (trade.trader === wallet) trades.push(trade);
+      }
+      portfolio.addTrades(mint, trades);
+      if (token) portfolio.setPrice(token);
+    }
+
+    for (const receipt of receipts) {
+      portfolio.addReceipt(receipt);
+    }
+    return portfolio;
+  }
+
+  /**
+   * Add `getTrades` history for `mint`; trades by other wallets are ignored
+   */
+  addTrades(mint: string, trades: Trade[]): void {
+    for (const trade of trades) {
+      if (trade.trader !== this.wallet || !trade.type) continue;
+      const solAmount = trade.sol_amount ?? 0;
+      this.add({
+        mint,
+        type: trade.type,
+        solAmount,
+        tokenAmount: trade.token_amount ?? 0,
+        fee: (solAmount * this.feeBps) / 10_000,
+        feeEstimated: true,
+        timestamp: trade.created_at ? Date.parse(trade.created_at) : Date.now(),
+        signature: trade.signature,
+      });
+    }
+  }
+
+  /**
+   * Add the receipt of an executed trade (`buy`, `sell`, `smartBuy`, ...)
+   * Receipts without verified trade data, or for another wallet, are ignored
+   */
+  addReceipt(receipt: ExecuteTradeResponse): void {
+    const trade = receipt.trade;
+    if (!trade?.mint || trade.trader !== this.wallet) return;
+    if (trade.type !== 'buy' && trade.type !== 'sell') return;
+    this.add({
+      mint: trade.mint,
+      type: trade.type,
+      solAmount: trade.solAmount ?? 0,
+      tokenAmount: trade.tokenAmount ?? 0,
+      fee: (trade.protocolFee ?? 0) + (trade.creatorFee ?? 0),
+      feeEstimated: false,
+      timestamp: receipt.blockTime ? receipt.blockTime * 1000 : Date.now(),
+      signature: receipt.signature,
+    });
+  }
+
+  /**
+   * Add a normalized trade. Trades already added under the same signature are skipped,
+   * so history and receipts can overlap freely.
+   */
+  add(trade: PortfolioTrade): void {
+    if (trade.signature) {
+      if (this.signatures.has(trade.signature)) return;
+      this.signatures.add(trade.signature);
+    }
+    const trades = this.trades.get(trade.mint) ?? [];
+    trades.push(trade);
+    this.trades.set(trade.mint, trades);
+  }
+
+  /**
+   * Set the current price of a mint from a `Token` or an explicit price
+   */
+  setPrice(token: Token): void;
+  setPrice(mint: string, price: PositionPrice): void;
+  setPrice(tokenOrMint: Token | string, price?: PositionPrice): void {
+    if (typeof tokenOrMint === 'string') {
+      this.prices.set(tokenOrMint, price!);
+    } else if (tokenOrMint.mint && tokenOrMint.price_sol !== undefined) {
+      this.prices.set(tokenOrMint.mint, {
+        priceSol: tokenOrMint.price_sol,
+        priceUsd: tokenOrMint.price_usd,
+        symbol: tokenOrMint.symbol,
+      });
+    }
+  }
+
+  /** Mints with at least one trade */
+  get mints(): string[] {
+    return [...this.trades.keys()];
+  }
+
+  /**
+   * Trades for `mint` (or all mints), oldest first
+   */
+  history(mint?: string): PortfolioTrade[] {
+    const trades = mint ? this.trades.get(mint) ?? [] : [...this.trades.values()].flat();
+    return [...trades].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Replay the trades for `mint` and value what is left at the current price
+   */
+  position(mint: string): PositionPnl {
+    const lots: Lot[] = [];
+    let realizedPnlSol = 0;
+    let feesSol = 0;
+    let feesEstimated = false;
+    let solInvested = 0;
+    let solReturned = 0;
+    let buys = 0;
+    let sells = 0;
+    let unmatchedTokens = 0;
+
+    for (const trade of this.history(mint)) {
+      feesSol += trade.fee;
+      feesEstimated ||= trade.feeEstimated;
+
+      if (trade.type === 'buy') {
+        buys++;
+        solInvested += trade.solAmount;
+        if (this.method === 'average' && lots.length > 0) {
+          lots[0].tokens += trade.tokenAmount;
+          lots[0].costSol += trade.solAmount;
+        } else {
+          lots.push({ tokens: trade.tokenAmount, costSol: trade.solAmount });
+        }
+        continue;
+      }
+
+      sells++;
+      solReturned += trade.solAmount;
+      if (trade.tokenAmount <= 0) continue;
+
+      let remaining = trade.tokenAmount;
+      let matchedCost = 0;
+      while (remaining > 0 && lots.length > 0) {
+        const lot = lots[0];
+        const take = Math.min(remaining, lot.tokens);
+        const cost = lot.costSol * (take / lot.tokens);
+        matchedCost += cost;
+        lot.tokens -= take;
+        lot.costSol -= cost;
+        remaining -= take;
+        if (lot.tokens <= 0) lots.shift();
+      }
+      unmatchedTokens += remaining;
+
+      const matchedProceeds = trade.solAmount * ((trade.tokenAmount - remaining) / trade.tokenAmount);
+      realizedPnlSol += matchedProceeds - matchedCost;
+    }
+
+    const amount = lots.reduce((sum, lot) => sum + lot.tokens, 0);
+    const costBasisSol = lots.reduce((sum, lot) => sum + lot.costSol, 0);
+    const price = this.prices.get(mint);
+    const priceSol = price?.priceSol ?? null;
+    const priceUsd = price?.priceUsd ?? null;
+    const valueSol = priceSol !== null ? amount * priceSol : null;
+    const valueUsd = priceUsd !== null ? amount * priceUsd : null;
+    const unrealizedPnlSol = valueSol !== null ? valueSol - costBasisSol : null;
+    // Convert at the SOL price implied by the token's two prices
+    const solUsd = priceSol && priceUsd !== null ? priceUsd / priceSol : null;
+
+    return {
+      mint,
+      symbol: price?.symbol ?? null,
+      amount,
+      costBasisSol,
+      averageCostSol: amount > 0 ? costBasisSol / amount : null,
+      realizedPnlSol,
+      unrealizedPnlSol,
+      unrealizedPnlUsd: unrealizedPnlSol !== null && solUsd !== null ? unrealizedPnlSol * solUsd : null,
+      valueSol,
+      valueUsd,
+      priceSol,
+      priceUsd,
+      feesSol,
+      feesEstimated,
+      solInvested,
+      solReturned,
+      buys,
+      sells,
+      unmatchedTokens,
+    };
+  }
+
+  /**
+   * Every position, open ones first, largest cost basis first
+   */
+  positions(): PositionPnl[] {
+    return this.mints
+      .map(mint => this.position(mint))
+      .sort((a, b) => Number(b.amount > 0) - Number(a.amount > 0) || b.costBasisSol - a.costBasisSol);
+  }
+
+  /**
+   * Totals across all positions
+   */
+  totals(): PortfolioTotals {
+    const positions = this.positions();
+    const sum = (pick: (p: PositionPnl) => number | null) =>
+      positions.reduce((total, p) => total + (pick(p) ?? 0), 0);
+    const anyUsd = positions.some(p => p.valueUsd !== null);
+
+    return {
+      costBasisSol: sum(p => p.costBasisSol),
+      realizedPnlSol: sum(p => p.realizedPnlSol),
+      unrealizedPnlSol: sum(p => p.unrealizedPnlSol),
+      unrealizedPnlUsd: anyUsd ? sum(p => p.unrealizedPnlUsd) : null,
+      valueSol: sum(p => p.valueSol),
+      valueUsd: anyUsd ? sum(p => p.valueUsd) : null,
+      feesSol: sum(p => p.feesSol),
+    };
+  }
+}
+
+/**
+ * Held mints, traded mints and receipt mints, without duplicates
+ */
+async function findPositionMints(
+  client: ClawdVaultClient,
+  wallet: string,
+  options: LoadPortfolioOptions
+): Promise<string[]> {
+  const { since, maxSignatures, receipts = [], signal } = options;
+  const [{ balances = {} }, traded] = await Promise.all([
+    client.getWalletBalances(wallet, { signal }),
+    findTradedMints(client, wallet, { since, maxSignatures, signal }),
+  ]);
+  const fromReceipts = receipts.map(r => r.trade?.mint).filter((mint): mint is string => !!mint);
+  return [...new Set([...Object.keys(balances), ...traded, ...fromReceipts])];
+}
@@ -0,0 +1,257 @@
+/**
+ * Client-side rate limiter
+ * Transport middleware that paces requests with one token bucket per route group
+ * and lets trade calls jump the queue ahead of bulk reads
+ */
+
+import { routePattern, type Middleware, type TransportRequest } from './transport';
+import { parseRetryAfter } from './errors';
+import { RPC_REQUESTS_PER_MINUTE } from './rpc';
+
+/** Queue lane - waiting requests are released high → normal → low */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Budget for one bucket: `limit` requests per `intervalMs`, refilled continuously
+ */
+export interface RateLimitBudget {
+  limit: number;
+  intervalMs: number;
+  /** Requests that may go out back to back after idling (default: `limit`) */
+  burst?: number;
+}
+
+export interface RateLimitGroup extends RateLimitBudget {
+  /** API paths sharing this budget; `*` matches one path segment, e.g. `/tokens/*` */
+  routes: string[];
+}
+
+export interface RateLimitOptions {
+  /** Budget for requests outside every group (default: `DEFAULT_RATE_LIMIT`) */
+  default?: RateLimitBudget;
+  /** Merged over `DEFAULT_RATE_LIMIT_GROUPS` by name; `null` removes a default group */
+  groups?: Record<string, RateLimitGroup | null>;
+  /** Lane for a request (default: `defaultPriority`) */
+  priority?: (request: TransportRequest) => RequestPriority;
+}
+
+export interface RateLimitGroupMetrics {
+  /** Requests waiting, by lane */
+  queued: Record<RequestPriority, number>;
+  /** Requests that could be sent right now */
+  available: number;
+  /** Requests released so far */
+  sent: number;
+  /** Requests released after waiting */
+  delayed: number;
+  /** Total and longest time spent waiting (ms) */
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface RateLimitMetrics {
+  /** Requests waiting across every group */
+  queued: number;
+  groups: Record<string, RateLimitGroupMetrics>;
+}
+
+/**
+ * Budget for routes outside every group
+ * The API documents no general limit - this is a client-side guess, override it with `default`
+ */
+export const DEFAULT_RATE_LIMIT: Readonly<RateLimitBudget> = { limit: 120, intervalMs: 60_000, burst: 20 };
+
+/**
+ * Documented per-IP limits
+ */
+export const DEFAULT_RATE_LIMIT_GROUPS: Readonly<Record<string, RateLimitGroup>> = {
+  rpc: { routes: ['/rpc'], limit: RPC_REQUESTS_PER_MINUTE, intervalMs: 60_000 },
+  upload: { routes: ['/upload'], limit: 20, intervalMs: 60 * 60_000 },
+  'agent-register': { routes: ['/agent/register'], limit: 10, intervalMs: 60 * 60_000 },
+  'agent-claim': { routes: ['/agent/claim'], limit: 10, intervalMs: 60 * 60_000 },
+};
+
+// Bulk reads that can wait for trades
+const ANALYTICS_ROUTES = new Set([
+  '/tokens', '/trades', '/candles', '/stats', '/holders', '/users', '/agents', '/site-stats', '/wallet/balances',
+]);
+
+/**
+ * Default lanes: trade and create calls (prepare and execute) are `high`,
+ * listing and analytics GETs are `low`, everything else is `normal`
+ */
+export function defaultPriority(request: TransportRequest): RequestPriority {
+  if (request.method === 'POST' && /^\/(trade|token)\//.test(request.path)) return 'high';
+  if (request.method === 'GET' && ANALYTICS_ROUTES.has(request.path)) return 'low';
+  return 'normal';
+}
+
+const LANES: RequestPriority[] = ['high', 'normal', 'low'];
+
+interface Waiter {
+  release: () => void;
+  enqueuedAt: number;
+}
+
+/**
+ * Token bucket with a priority queue in front of it
+ */
+class LimitedGroup {
+  private tokens: number;
+  private capacity: number;
+  private refillPerMs: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private lanes: Record<RequestPriority, Waiter[]> = { high: [], normal: [], low: [] };
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private sent = 0;
+  private delayed = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(budget: RateLimitBudget) {
+    this.capacity = Math.max(1, budget.burst ?? budget.limit);
+    this.refillPerMs = budget.limit / budget.intervalMs;
+    this.tokens = this.capacity;
+  }
+
+  acquire(priority: RequestPriority, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<void>((resolve, reject) => {
+      const lane = this.lanes[priority];
+      const onAbort = () => {
+        lane.splice(lane.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        release: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.push(waiter);
+      this.drain();
+    });
+  }
+
+  /** Stop sending until `until` (unix ms), e.g. after a 429 with Retry-After */
+  pause(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+    // One request may go out as soon as the pause ends, then the bucket refills as usual
+    this.tokens = 1;
+    this.updatedAt = this.pausedUntil;
+  }
+
+  metrics(): RateLimitGroupMetrics {
+    const now = Date.now();
+    this.refill(now);
+    return {
+      queued: { high: this.lanes.high.length, normal: this.lanes.normal.length, low: this.lanes.low.length },
+      available: now < this.pausedUntil ? 0 : Math.floor(this.tokens),
+      sent: this.sent,
+      delayed: this.delayed,
+      totalWaitMs: this.totalWaitMs,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  get queued(): number {
+    return this.lanes.high.length + this.lanes.normal.length + this.lanes.low.length;
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    for (;;) {
+      const lane = LANES.find(name => this.lanes[name].length > 0);
+      if (!lane) return;
+
+      const now = Date.now();
+      this.refill(now);
+      if (now < this.pausedUntil || this.tokens < 1) {
+        const wait = Math.max(this.pausedUntil - now, Math.ceil((1 - this.tokens) / this.refillPerMs));
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      this.tokens -= 1;
+      const waiter = this.lanes[lane].shift()!;
+      const waited = now - waiter.enqueuedAt;
+      this.sent++;
+      if (waited > 0) {
+        this.delayed++;
+        this.totalWaitMs += waited;
+        this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      }
+      waiter.release();
+    }
+  }
+
+  private refill(now: number): void {
+    if (now <= this.updatedAt) return;
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Rate limiter - pass `rateLimit: true` or options to the client, or add
+ * `limiter.middleware` to a `middleware` chain yourself
+ *
+ * Every HTTP attempt (including retries) takes a token from its group's bucket.
+ * A 429 with `Retry-After` pauses the whole group until the server is ready again.
+ *
+ * @example
+ * const client = createClient({
+ *   rateLimit: { groups: { holders: { routes: ['/holders'], limit: 30, intervalMs: 60_000 } } },
+ * });
+ * console.log(client.rateLimiter?.metrics().queued);
+ */
+export class RateLimiter {
+  private groups: { name: string; patterns: RegExp[]; group: LimitedGroup }[];
+  private fallback: LimitedGroup;
+  private priority: (request: TransportRequest) => RequestPriority;
+
+  constructor(options: RateLimitOptions = {}) {
+    const merged: Record<string, RateLimitGroup | null> = { ...DEFAULT_RATE_LIMIT_GROUPS, ...options.groups };
+    this.groups = Object.entries(merged)
+      .filter((entry): entry is [string, RateLimitGroup] => entry[1] !== null)
+      .map(([name, group]) => ({ name, patterns: group.routes.map(routePattern), group: new LimitedGroup(group) }));
+    this.fallback = new LimitedGroup(options.default ?? DEFAULT_RATE_LIMIT);
+    this.priority = options.priority ?? defaultPriority;
+  }
+
+  /** Rate-limiting middleware for the client's transport */
+  readonly middleware: Middleware = async (request, next) => {
+    const group = this.groupFor(request.path);
+    await group.acquire(this.priority(request), request.signal);
+
+    const response = await next(request);
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== undefined) group.pause(Date.now() + retryAfter * 1000);
+    }
+    return response;
+  };
+
+  /**
+   * Queue depth and throughput per group (`default` holds ungrouped routes)
+   */
+  metrics(): RateLimitMetrics {
+    const groups: Record<string, RateLimitGroupMetrics> = {};
+    let queued = 0;
+    for (const { name, group } of [...this.groups, { name: 'default', group: this.fallback }]) {
+      groups[name] = group.metrics();
+      queued += group.queued;
+    }
+    return { queued, groups };
+  }
+
+  private groupFor(path: string): LimitedGroup {
+    return this.groups.find(({ patterns }) => patterns.some(pattern => pattern.test(path)))?.group ?? this.fallback;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Retry policy for idempotent ClawdVault API calls
+ * Exponential backoff with jitter, honoring Retry-After on 429
+ */
+
+import { ClawdVaultApiError, NetworkError, RateLimitError } from './errors';
+
+export interface RetryOptions {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms, doubled on every attempt (default: 250) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the backoff ("full jitter") (default: true) */
+  jitter?: boolean;
+  /** HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504) */
+  retryOn?: number[];
+}
+
+export type RetryPolicy = Required<RetryOptions>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Resolve the `retry` config option into a full policy
+ * `undefined`/`false` disables retries, `true` uses the defaults
+ */
+export function resolveRetryPolicy(option: boolean | RetryOptions | undefined): RetryPolicy | null {
+  if (!option) return null;
+  const policy = option === true ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, ...option };
+  return policy.maxAttempts > 1 ? policy : null;
+}
+
+/**
+ * Whether a failed attempt may be retried under the given policy
+ */
+export function isRetryableError(err: unknown, policy: RetryPolicy): boolean {
+  if (err instanceof NetworkError) return true;
+  if (err instanceof ClawdVaultApiError) return policy.retryOn.includes(err.status);
+  return false;
+}
+
+/**
+ * Delay in ms before the next attempt
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getRetryDelay(attempt: number, err: unknown, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const backoff = policy.jitter ? Math.random() * exponential : exponential;
+
+  // The server knows best - never retry a 429 before Retry-After has elapsed
+  if (err instanceof RateLimitError && err.retryAfter !== undefined) {
+    return Math.max(backoff, err.retryAfter * 1000);
+  }
+  return backoff;
+}
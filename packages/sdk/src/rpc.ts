@@ -0,0 +1,212 @@
+/**
+ * Solana JSON-RPC over the ClawdVault /rpc proxy
+ * No separate RPC endpoint or API key needed - requests share the client's
+ * transport, retries and middleware and are throttled to the proxy's limit
+ */
+
+import { Connection, type Commitment, type ConnectionConfig } from '@solana/web3.js';
+import type { SolanaRpcRequest, SolanaRpcResponse } from './types';
+import { CallOptions, abortableSleep } from './abort';
+import { UpstreamRpcError } from './errors';
+
+/** Request limit documented for the /rpc proxy */
+export const RPC_REQUESTS_PER_MINUTE = 100;
+
+/**
+ * JSON-RPC 2.0 request - `SolanaRpcRequest` with free-form params
+ */
+export type JsonRpcRequest = Omit<SolanaRpcRequest, 'params'> & { params?: unknown[] };
+
+/**
+ * JSON-RPC 2.0 response - `SolanaRpcResponse` with a typed result
+ */
+export type JsonRpcResponse<T = unknown> = Omit<SolanaRpcResponse, 'result'> & { result?: T };
+
+/**
+ * One call in a batch
+ */
+export interface RpcCall {
+  method: string;
+  params?: unknown[];
+}
+
+export interface RpcOptions {
+  /**
+   * Client-side throttle for /rpc (default: 100, the proxy's limit). `Infinity` disables it.
+   * Off by default when the client has a `rateLimit`, whose `rpc` group paces /rpc instead.
+   */
+  requestsPerMinute?: number;
+}
+
+export interface ConfirmTransactionOptions extends CallOptions {
+  /** Commitment to wait for (default: 'confirmed') */
+  commitment?: Commitment;
+  /** Give up after this long (default: 60000 ms) */
+  timeoutMs?: number;
+  /** Delay between status polls (default: 2000 ms) */
+  intervalMs?: number;
+}
+
+/**
+ * POST a JSON-RPC payload to /rpc through the owning client
+ */
+export type RpcPost = (
+  body: JsonRpcRequest | JsonRpcRequest[],
+  options: { idempotent: boolean; signal?: AbortSignal }
+) => Promise<unknown>;
+
+// Methods that must not be resent blindly by the retry policy
+const NON_IDEMPOTENT_METHODS = new Set(['sendTransaction', 'requestAirdrop']);
+
+const COMMITMENT_RANK: Record<string, number> = { processed: 0, confirmed: 1, finalized: 2 };
+
+/**
+ * Typed JSON-RPC client for the /rpc proxy - available as `client.rpc`
+ *
+ * @example
+ * const { value } = await client.rpc.call<{ value: number }>('getBalance', [wallet]);
+ * const [slot, height] = await client.rpc.batch([{ method: 'getSlot' }, { method: 'getBlockHeight' }]);
+ * const connection = client.rpc.connection('confirmed');
+ */
+export class RpcClient {
+  /** Full URL of the proxy endpoint */
+  readonly endpoint: string;
+  private nextId = 1;
+  private throttle: SlidingWindowThrottle | null;
+
+  constructor(private post: RpcPost, endpoint: string, options: RpcOptions = {}) {
+    this.endpoint = endpoint;
+    const limit = options.requestsPerMinute ?? RPC_REQUESTS_PER_MINUTE;
+    this.throttle = Number.isFinite(limit) ? new SlidingWindowThrottle(limit, 60_000) : null;
+  }
+
+  /**
+   * Send raw JSON-RPC payload(s), waiting for a throttle slot first
+   * A batch counts as one request against the limit
+   */
+  async send(body: JsonRpcRequest, options?: CallOptions): Promise<JsonRpcResponse>;
+  async send(body: JsonRpcRequest[], options?: CallOptions): Promise<JsonRpcResponse[]>;
+  async send(body: JsonRpcRequest | JsonRpcRequest[], options: CallOptions = {}): Promise<JsonRpcResponse | JsonRpcResponse[]> {
+    await this.throttle?.acquire(options.signal);
+    const requests = Array.isArray(body) ? body : [body];
+    const idempotent = requests.every(r => !NON_IDEMPOTENT_METHODS.has(r.method));
+    return this.post(body, { idempotent, signal: options.signal }) as Promise<JsonRpcResponse | JsonRpcResponse[]>;
+  }
+
+  /**
+   * Call one method and return its result
+   * Throws `UpstreamRpcError` if the RPC node returns an error
+   */
+  async call<T = unknown>(method: string, params: unknown[] = [], options: CallOptions = {}): Promise<T> {
+    const response = await this.send(this.toRequest({ method, params }), options);
+    return unwrapRpcResponse<T>(response);
+  }
+
+  /**
+   * Call several methods in one HTTP request
+   * Responses come back in call order; per-call errors are left in `error` rather than thrown
+   */
+  async batch(calls: RpcCall[], options: CallOptions = {}): Promise<JsonRpcResponse[]> {
+    if (calls.length === 0) return [];
+    const requests = calls.map(call => this.toRequest(call));
+    const responses = await this.send(requests, options);
+    return requests.map(({ id }) => responses.find(r => r.id === id) ?? {
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32603, message: 'Missing response in batch' },
+    });
+  }
+
+  /**
+   * `@solana/web3.js` Connection whose HTTP requests go through the proxy
+   * WebSocket subscriptions are not proxied - use `confirmTransaction` below
+   * instead of `sendAndConfirmTransaction`
+   */
+  connection(commitmentOrConfig?: Commitment | Omit<ConnectionConfig, 'fetch'>): Connection {
+    const config = typeof commitmentOrConfig === 'string' ? { commitment: commitmentOrConfig } : commitmentOrConfig;
+    return new Connection(this.endpoint, {
+      ...config,
+      // The throttle already paces requests; web3's own 429 retry would double up with ours
+      disableRetryOnRateLimit: true,
+      fetch: async (_input, init) => {
+        const body = JSON.parse(String(init?.body));
+        const json = await this.send(body, { signal: init?.signal ?? undefined });
+        return new Response(JSON.stringify(json), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      },
+    });
+  }
+
+  /**
+   * Poll `getSignatureStatuses` until the transaction reaches `commitment`
+   * Throws if it fails on-chain or is not confirmed within `timeoutMs`
+   */
+  async confirmTransaction(signature: string, options: ConfirmTransactionOptions = {}): Promise<void> {
+    const { commitment = 'confirmed', timeoutMs = 60_000, intervalMs = 2_000, signal } = options;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const { value } = await this.call<{ value: ({ err: unknown; confirmationStatus?: string } | null)[] }>(
+        'getSignatureStatuses',
+        [[signature], { searchTransactionHistory: false }],
+        { signal }
+      );
+      const status = value[0];
+      if (status?.err) {
+        throw new Error(`Transaction ${signature} failed: ${JSON.stringify(status.err)}`);
+      }
+      if (status && (COMMITMENT_RANK[status.confirmationStatus ?? 'processed'] ?? 0) >= (COMMITMENT_RANK[commitment] ?? 1)) {
+        return;
+      }
+      if (Date.now() + intervalMs > deadline) {
+        throw new Error(`Transaction ${signature} was not ${commitment} within ${timeoutMs}ms`);
+      }
+      await abortableSleep(intervalMs, signal);
+    }
+  }
+
+  private toRequest(call: RpcCall): JsonRpcRequest {
+    return { jsonrpc: '2.0', id: this.nextId++, method: call.method, params: call.params };
+  }
+}
+
+/**
+ * Result of a JSON-RPC response, or `UpstreamRpcError` if it carries an error
+ */
+export function unwrapRpcResponse<T>(response: JsonRpcResponse): T {
+  if (response.error || response.result === undefined) {
+    const error = response.error ?? { message: 'RPC response has no result' };
+    throw new UpstreamRpcError(
+      error.message ?? 'RPC error',
+      200,
+      { jsonrpc: '2.0', id: response.id ?? null, error },
+      { method: 'POST', path: '/rpc' }
+    );
+  }
+  return response.result as T;
+}
+
+/**
+ * Allows `limit` acquisitions in any rolling `windowMs`
+ */
+class SlidingWindowThrottle {
+  private sent: number[] = [];
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.sent.length > 0 && this.sent[0] <= now - this.windowMs) {
+        this.sent.shift();
+      }
+      if (this.sent.length < this.limit) {
+        this.sent.push(now);
+        return;
+      }
+      await abortableSleep(this.sent[0] + this.windowMs - now, signal);
+    }
+  }
+}
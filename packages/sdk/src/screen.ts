@@ -0,0 +1,327 @@
+/**
+ * Token screener
+ * Pages through `/tokens` and keeps the tokens matching a filter expression, e.g.
+ * `market_cap_usd > 20000 and holders >= 50 and age < 2h and not graduated`
+ */
+
+import type { ClawdVaultClient } from './client';
+import type { Token, TokenListParams } from './types';
+import type { CallOptions } from './abort';
+import { FilterSyntaxError } from './errors';
+
+/** Compiled filter - `now` is unix time in ms, used by `age` fields */
+export type TokenFilter = (token: Token, now?: number) => boolean;
+
+export interface ScreenOptions extends CallOptions {
+  /** Field to sort matches by, including `age` and `last_trade_age` (default: no sorting) */
+  sort?: string;
+  /** Sort direction (default: 'desc') */
+  order?: 'asc' | 'desc';
+  /** Return at most this many matches */
+  limit?: number;
+  /** Server-side graduation filter, applied before the expression */
+  graduated?: boolean;
+  /** Server-side listing order to page through (default: 'created_at') */
+  listSort?: TokenListParams['sort'];
+  /** Stop after scanning this many tokens (default: 1000) */
+  maxScanned?: number;
+}
+
+/**
+ * A named screen as stored by the CLI
+ */
+export interface SavedScreen {
+  filter: string;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  graduated?: boolean;
+}
+
+/** `Token` fields usable in expressions */
+export const TOKEN_FIELDS: readonly (keyof Token)[] = [
+  'mint', 'name', 'symbol', 'description', 'image', 'creator', 'creator_name',
+  'price_sol', 'price_usd', 'market_cap_sol', 'market_cap_usd', 'volume_24h', 'trades_24h',
+  'holders', 'price_change_24h', 'ath', 'price_24h_ago',
+  'virtual_sol_reserves', 'virtual_token_reserves', 'real_sol_reserves', 'real_token_reserves',
+  'graduated', 'raydium_pool', 'twitter', 'telegram', 'website',
+  'last_trade_at', 'created_at', 'updated_at',
+];
+
+// Seconds since the token's timestamp
+const AGE_FIELDS = new Map<string, keyof Token>([
+  ['age', 'created_at'],
+  ['last_trade_age', 'last_trade_at'],
+]);
+
+// Compared as unix ms
+const DATE_FIELDS = new Set<string>(['created_at', 'updated_at', 'last_trade_at']);
+
+const DURATION_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86_400, w: 604_800 };
+
+type Value = string | number | boolean | null;
+
+type Node =
+  | { kind: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'not'; operand: Node }
+  | { kind: 'compare'; op: string; left: Operand; right: Operand }
+  | { kind: 'truthy'; operand: Operand };
+
+type Operand = { kind: 'field'; name: string } | { kind: 'literal'; value: Value };
+
+interface Lexeme {
+  type: 'number' | 'string' | 'word' | 'op' | 'paren' | 'end';
+  text: string;
+  value?: Value;
+  position: number;
+}
+
+const LEXEME = /(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)([smhdw])?(?![\w.])|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_]\w*)|(>=|<=|==|!=|=|>|<|~)|([()])/y;
+
+function tokenize(expression: string): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let position = 0;
+
+  for (;;) {
+    while (/\s/.test(expression[position] ?? '')) position++;
+    if (position >= expression.length) break;
+
+    LEXEME.lastIndex = position;
+    const match = LEXEME.exec(expression);
+    if (!match) {
+      throw new FilterSyntaxError(`Unexpected character "${expression[position]}"`, expression, position);
+    }
+    const [text, number, unit, dq, sq, word, op, paren] = match;
+
+    if (number !== undefined) {
+      const value = Number(number) * (unit ? DURATION_SECONDS[unit] : 1);
+      lexemes.push({ type: 'number', text, value, position });
+    } else if (dq !== undefined || sq !== undefined) {
+      lexemes.push({ type: 'string', text, value: (dq ?? sq)!.replace(/\\(.)/g, '$1'), position });
+    } else if (word !== undefined) {
+      lexemes.push({ type: 'word', text: word, position });
+    } else if (op !== undefined) {
+      lexemes.push({ type: 'op', text: op === '=' ? '==' : op, position });
+    } else {
+      lexemes.push({ type: 'paren', text: paren, position });
+    }
+    position = LEXEME.lastIndex;
+  }
+
+  lexemes.push({ type: 'end', text: '', position: expression.length });
+  return lexemes;
+}
+
+/**
+ * Recursive-descent parser: or > and > not > comparison
+ */
+class Parser {
+  private lexemes: Lexeme[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.lexemes = tokenize(expression);
+  }
+
+  parse(): Node {
+    const node = this.or();
+    if (this.peek().type !== 'end') this.fail(`Unexpected "${this.peek().text}"`);
+    return node;
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.isWord('or')) {
+      this.index++;
+      left = { kind: 'or', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.not();
+    while (this.isWord('and')) {
+      this.index++;
+      left = { kind: 'and', left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Node {
+    if (this.isWord('not')) {
+      this.index++;
+      return { kind: 'not', operand: this.not() };
+    }
+    if (this.peek().type === 'paren' && this.peek().text === '(') {
+      this.index++;
+      const node = this.or();
+      if (this.peek().text !== ')') this.fail('Expected ")"');
+      this.index++;
+      return node;
+    }
+
+    const left = this.operand();
+    if (this.peek().type !== 'op') {
+      if (left.kind !== 'field') this.fail('Expected a comparison');
+      return { kind: 'truthy', operand: left };
+    }
+    const op = this.lexemes[this.index++].text;
+    const position = this.peek().position;
+    const right = this.operand();
+    return { kind: 'compare', op, left: this.asDate(left, right, position), right: this.asDate(right, left, position) };
+  }
+
+  /**
+   * Date strings compared with a date field become unix ms, e.g. created_at > "2026-01-01"
+   */
+  private asDate(operand: Operand, other: Operand, position: number): Operand {
+    if (operand.kind !== 'literal' || typeof operand.value !== 'string') return operand;
+    if (other.kind !== 'field' || !DATE_FIELDS.has(other.name)) return operand;
+    const time = Date.parse(operand.value);
+    if (Number.isNaN(time)) this.fail(`Invalid date "${operand.value}"`, position);
+    return { kind: 'literal', value: time };
+  }
+
+  private operand(): Operand {
+    const lexeme = this.peek();
+    if (lexeme.type === 'number' || lexeme.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: lexeme.value! };
+    }
+    if (lexeme.type === 'word') {
+      this.index++;
+      const word = lexeme.text.toLowerCase();
+      if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+      if (word === 'null') return { kind: 'literal', value: null };
+      if (!isField(lexeme.text)) {
+        this.fail(`Unknown field "${lexeme.text}"`, lexeme.position);
+      }
+      return { kind: 'field', name: lexeme.text };
+    }
+    return this.fail(lexeme.type === 'end' ? 'Unexpected end of expression' : `Unexpected "${lexeme.text}"`);
+  }
+
+  private peek(): Lexeme {
+    return this.lexemes[this.index];
+  }
+
+  private isWord(word: string): boolean {
+    const lexeme = this.peek();
+    return lexeme.type === 'word' && lexeme.text.toLowerCase() === word;
+  }
+
+  private fail(message: string, position = this.peek().position): never {
+    throw new FilterSyntaxError(message, this.expression, position);
+  }
+}
+
+/**
+ * Value of a field, with `age`/`last_trade_age` in seconds and dates in unix ms
+ */
+function fieldValue(token: Token, name: string, now: number): Value {
+  const ageField = AGE_FIELDS.get(name);
+  if (ageField) {
+    const time = token[ageField];
+    return typeof time === 'string' ? (now - Date.parse(time)) / 1000 : null;
+  }
+  const value = token[name as keyof Token];
+  if (value === undefined) return null;
+  return DATE_FIELDS.has(name) && typeof value === 'string' ? Date.parse(value) : value;
+}
+
+function isField(name: string): boolean {
+  return (TOKEN_FIELDS as readonly string[]).includes(name) || AGE_FIELDS.has(name);
+}
+
+function compare(op: string, a: Value, b: Value): boolean {
+  if (a === null || b === null) {
+    return op === '==' ? a === b : op === '!=' ? a !== b : false;
+  }
+  switch (op) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '~': return String(a).toLowerCase().includes(String(b).toLowerCase());
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+  }
+  return false;
+}
+
+function evaluate(node: Node, token: Token, now: number): boolean {
+  const resolve = (operand: Operand): Value =>
+    operand.kind === 'field' ? fieldValue(token, operand.name, now) : operand.value;
+
+  switch (node.kind) {
+    case 'and': return evaluate(node.left, token, now) && evaluate(node.right, token, now);
+    case 'or': return evaluate(node.left, token, now) || evaluate(node.right, token, now);
+    case 'not': return !evaluate(node.operand, token, now);
+    case 'truthy': return Boolean(resolve(node.operand));
+    case 'compare': return compare(node.op, resolve(node.left), resolve(node.right));
+  }
+}
+
+/**
+ * Compile a filter expression
+ *
+ * - Comparisons: `>`, `>=`, `<`, `<=`, `==` (or `=`), `!=`, and `~` for case-insensitive contains
+ * - Combine with `and`, `or`, `not` and parentheses; a bare field tests truthiness (`not graduated`)
+ * - `age` and `last_trade_age` are seconds since `created_at`/`last_trade_at`; durations like
+ *   `30m`, `2h`, `7d` are seconds too
+ * - Strings in single or double quotes; missing fields only match `== null`
+ *
+ * Throws `FilterSyntaxError` for malformed expressions or unknown fields
+ */
+export function compileFilter(expression: string): TokenFilter {
+  const ast = new Parser(expression).parse();
+  return (token, now = Date.now()) => evaluate(ast, token, now);
+}
+
+/**
+ * Sort tokens by any field (including `age`), missing values last
+ */
+export function sortTokens(tokens: Token[], field: string, order: 'asc' | 'desc' = 'desc', now = Date.now()): Token[] {
+  const sign = order === 'asc' ? 1 : -1;
+  return [...tokens].sort((x, y) => {
+    const a = fieldValue(x, field, now);
+    const b = fieldValue(y, field, now);
+    if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+    if (typeof a === 'string' && typeof b === 'string') return sign * a.localeCompare(b);
+    return sign * (Number(a) - Number(b));
+  });
+}
+
+/**
+ * Page through `/tokens` and return the tokens matching `filter`
+ *
+ * @example
+ * const tokens = await screenTokens(client, 'market_cap_usd > 20000 and holders >= 50 and age < 2h', {
+ *   sort: 'volume_24h',
+ *   limit: 20,
+ * });
+ */
+export async function screenTokens(
+  client: ClawdVaultClient,
+  filter: string | TokenFilter,
+  options: ScreenOptions = {}
+): Promise<Token[]> {
+  const { sort, order = 'desc', limit, graduated, listSort = 'created_at', maxScanned = 1000, signal } = options;
+  if (sort !== undefined && !isField(sort)) {
+    throw new Error(`Unknown sort field "${sort}"`);
+  }
+  const predicate = typeof filter === 'string' ? compileFilter(filter) : filter;
+  const now = Date.now();
+
+  const matches: Token[] = [];
+  for await (const token of client.iterateTokens({ sort: listSort, per_page: 100, graduated }, { maxItems: maxScanned, signal })) {
+    if (predicate(token, now)) {
+      matches.push(token);
+      // Without client-side sorting the listing order is final, so stop early
+      if (sort === undefined && limit !== undefined && matches.length >= limit) break;
+    }
+  }
+
+  const sorted = sort !== undefined ? sortTokens(matches, sort, order, now) : matches;
+  return limit !== undefined ? sorted.slice(0, limit) : sorted;
+}
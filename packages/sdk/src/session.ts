@@ -0,0 +1,240 @@
+/**
+ * Session lifecycle
+ * Creates session tokens on demand, renews them before they expire and keeps
+ * them in a pluggable store (memory, file or browser localStorage)
+ */
+
+import type { SessionResponse } from './types';
+
+/**
+ * Persisted session - same shape as the CLI's `~/.clawdvault/auth.json`
+ */
+export interface StoredSession {
+  sessionToken: string;
+  wallet?: string;
+  /** ISO timestamp; sessions without one are used until the server rejects them */
+  expiresAt?: string;
+}
+
+/**
+ * Storage backend - may be sync or async
+ */
+export interface SessionStore {
+  load(): StoredSession | null | Promise<StoredSession | null>;
+  save(session: StoredSession): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface SessionOptions {
+  /** Where the session lives (default: `new MemorySessionStore()`) */
+  store?: SessionStore;
+  /** Renew once less than this is left before expiry (default: 5 minutes) */
+  renewBeforeMs?: number;
+}
+
+/**
+ * Hooks into the owning client
+ */
+export interface SessionSource {
+  /** Sign a new session - `client.createSession()` */
+  create(): Promise<SessionResponse>;
+  /** Wallet the client signs with, if any */
+  wallet(): string | null;
+}
+
+const DEFAULT_RENEW_BEFORE_MS = 5 * 60_000;
+
+/**
+ * Keeps the session in memory only
+ */
+export class MemorySessionStore implements SessionStore {
+  private session: StoredSession | null = null;
+
+  load(): StoredSession | null {
+    return this.session;
+  }
+
+  save(session: StoredSession): void {
+    this.session = session;
+  }
+
+  clear(): void {
+    this.session = null;
+  }
+}
+
+/**
+ * Keeps the session in a JSON file (Node only), `~/.clawdvault/auth.json` by default -
+ * the file the CLI's `wallet login` writes
+ */
+export class FileSessionStore implements SessionStore {
+  readonly filePath: string;
+
+  constructor(filePath?: string) {
+    if (filePath) {
+      this.filePath = filePath;
+    } else {
+      const os = require('os');
+      const path = require('path');
+      this.filePath = path.join(os.homedir(), '.clawdvault', 'auth.json');
+    }
+  }
+
+  load(): StoredSession | null {
+    const fs = require('fs');
+    try {
+      const session = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return typeof session?.sessionToken === 'string' ? session : null;
+    } catch {
+      return null;
+    }
+  }
+
+  save(session: StoredSession): void {
+    const fs = require('fs');
+    const path = require('path');
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(session, null, 2));
+    fs.chmodSync(this.filePath, 0o600);
+  }
+
+  clear(): void {
+    const fs = require('fs');
+    fs.rmSync(this.filePath, { force: true });
+  }
+}
+
+/**
+ * Keeps the session in browser `localStorage` (or any object with the same methods)
+ */
+export class LocalStorageSessionStore implements SessionStore {
+  constructor(
+    private key = 'clawdvault:session',
+    private storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+  ) {}
+
+  load(): StoredSession | null {
+    const value = this.getStorage().getItem(this.key);
+    if (!value) return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  save(session: StoredSession): void {
+    this.getStorage().setItem(this.key, JSON.stringify(session));
+  }
+
+  clear(): void {
+    this.getStorage().removeItem(this.key);
+  }
+
+  private getStorage(): Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> {
+    const storage = this.storage ?? (globalThis as { localStorage?: Storage }).localStorage;
+    if (!storage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    return storage;
+  }
+}
+
+/**
+ * Session manager - pass `session: true` or options to the client and
+ * `auth: true` calls pick up a token automatically
+ *
+ * - A session is created with the signer the first time one is needed
+ * - It is renewed when less than `renewBeforeMs` is left, or when it belongs to another wallet
+ * - A request rejected with 401 is retried once with a fresh session
+ *
+ * @example
+ * const client = createClient({ signer, session: { store: new LocalStorageSessionStore() } });
+ * await client.sendChat({ mint, message: 'gm' }); // signs in on first use
+ */
+export class SessionManager {
+  readonly store: SessionStore;
+  private renewBeforeMs: number;
+  private session: StoredSession | null | undefined;
+  private renewal: Promise<StoredSession> | null = null;
+
+  constructor(private source: SessionSource, options: SessionOptions = {}) {
+    this.store = options.store ?? new MemorySessionStore();
+    this.renewBeforeMs = options.renewBeforeMs ?? DEFAULT_RENEW_BEFORE_MS;
+  }
+
+  /**
+   * Current session, loaded from the store on first use
+   */
+  async current(): Promise<StoredSession | null> {
+    if (this.session === undefined) {
+      this.session = await this.store.load();
+    }
+    return this.session;
+  }
+
+  /**
+   * A usable token - renewed first when needed and a signer is available
+   * Returns `null` when there is no session and none can be created
+   */
+  async getToken(): Promise<string | null> {
+    const session = await this.current();
+    const wallet = this.source.wallet();
+    if (session && this.isUsable(session, wallet)) {
+      return session.sessionToken;
+    }
+    if (!wallet) {
+      // Can't sign a new one - keep using a stored session until it actually expires
+      return session && !this.isExpired(session, 0) ? session.sessionToken : null;
+    }
+    return (await this.renew()).sessionToken;
+  }
+
+  /**
+   * Create a new session now and store it
+   * Concurrent calls share one `createSession` request
+   */
+  renew(): Promise<StoredSession> {
+    this.renewal ??= this.createSession().finally(() => {
+      this.renewal = null;
+    });
+    return this.renewal;
+  }
+
+  /**
+   * Forget the session, e.g. after the server rejected `token`
+   * With a token, only that session is dropped so a newer one survives
+   */
+  async invalidate(token?: string): Promise<void> {
+    const session = await this.current();
+    if (token !== undefined && session?.sessionToken !== token) return;
+    this.session = null;
+    await this.store.clear();
+  }
+
+  private async createSession(): Promise<StoredSession> {
+    const response = await this.source.create();
+    if (!response.token) {
+      throw new Error('Session response did not include a token');
+    }
+    const session: StoredSession = {
+      sessionToken: response.token,
+      wallet: response.wallet ?? this.source.wallet() ?? undefined,
+      expiresAt: response.expiresIn !== undefined
+        ? new Date(Date.now() + response.expiresIn * 1000).toISOString()
+        : undefined,
+    };
+    this.session = session;
+    await this.store.save(session);
+    return session;
+  }
+
+  private isUsable(session: StoredSession, wallet: string | null): boolean {
+    if (wallet && session.wallet && session.wallet !== wallet) return false;
+    return !this.isExpired(session, this.renewBeforeMs);
+  }
+
+  private isExpired(session: StoredSession, marginMs: number): boolean {
+    return session.expiresAt !== undefined && Date.parse(session.expiresAt) - marginMs <= Date.now();
+  }
+}
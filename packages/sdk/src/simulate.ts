@@ -0,0 +1,159 @@
+/**
+ * Transaction simulation through the /rpc proxy
+ * Runs a transaction against current chain state and reports logs,
+ * compute units and balance changes without submitting it
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import type { CallOptions } from './abort';
+import { deserializeTransaction } from './inspect';
+import type { RpcCall } from './rpc';
+
+export interface SimulateOptions extends CallOptions {
+  /** Verify signatures during simulation (default: false, so unsigned transactions work too) */
+  sigVerify?: boolean;
+  /** Simulate with the latest blockhash instead of the transaction's own (default: false) */
+  replaceRecentBlockhash?: boolean;
+  /** Accounts to report balances for (default: every writable account the transaction references directly) */
+  accounts?: string[];
+}
+
+/**
+ * Options for methods that prepare, sign and execute a transaction
+ */
+export interface TransactionOptions extends CallOptions {
+  /**
+   * Simulate the signed transaction before executing it (default: false).
+   * Execution is skipped and `SimulationFailedError` thrown if the simulation fails.
+   */
+  simulate?: boolean;
+}
+
+/**
+ * Balance of one account before and after the simulated transaction
+ */
+export interface SimulatedBalance {
+  address: string;
+  /** `null` if the account does not exist before / after */
+  preLamports: number | null;
+  postLamports: number | null;
+  /** Set for SPL token accounts */
+  mint?: string;
+  /** Raw base units, set for SPL token accounts */
+  preTokenAmount?: bigint | null;
+  postTokenAmount?: bigint | null;
+}
+
+export interface TransactionSimulation {
+  success: boolean;
+  /** Transaction error reported by the runtime, `null` on success */
+  err: unknown;
+  logs: string[];
+  unitsConsumed?: number;
+  balances: SimulatedBalance[];
+}
+
+/**
+ * Result of a prepare-sign-execute call made with `simulate: true`
+ */
+export type Simulated<T> = T & { simulation?: TransactionSimulation };
+
+interface RpcAccount {
+  lamports: number;
+  owner: string;
+  data: [string, string];
+}
+
+export interface SimulateTransactionResult {
+  value: {
+    err: unknown;
+    logs: string[] | null;
+    unitsConsumed?: number;
+    accounts?: (RpcAccount | null)[] | null;
+  };
+}
+
+export interface MultipleAccountsResult {
+  value: (RpcAccount | null)[];
+}
+
+/**
+ * Writable accounts referenced by the transaction's static keys
+ */
+export function writableAccounts(transaction: string): string[] {
+  const { message } = deserializeTransaction(transaction);
+  return message.staticAccountKeys
+    .map((key, i) => (message.isAccountWritable(i) ? key.toBase58() : null))
+    .filter((key): key is string => key !== null);
+}
+
+/**
+ * Batch that fetches the accounts' current state and simulates the transaction
+ * with the same accounts returned afterwards
+ */
+export function simulationCalls(transaction: string, accounts: string[], options: SimulateOptions = {}): RpcCall[] {
+  return [
+    { method: 'getMultipleAccounts', params: [accounts, { encoding: 'base64', commitment: 'processed' }] },
+    {
+      method: 'simulateTransaction',
+      params: [transaction, {
+        encoding: 'base64',
+        commitment: 'processed',
+        sigVerify: options.sigVerify ?? false,
+        replaceRecentBlockhash: options.replaceRecentBlockhash ?? false,
+        accounts: { addresses: accounts, encoding: 'base64' },
+      }],
+    },
+  ];
+}
+
+/**
+ * Combine the pre-state and simulation results into a `TransactionSimulation`
+ */
+export function parseSimulation(
+  accounts: string[],
+  before: MultipleAccountsResult,
+  simulation: SimulateTransactionResult
+): TransactionSimulation {
+  const { err, logs, unitsConsumed, accounts: after } = simulation.value;
+
+  return {
+    success: err === null || err === undefined,
+    err: err ?? null,
+    logs: logs ?? [],
+    unitsConsumed,
+    balances: accounts.map((address, i) => {
+      const pre = before.value[i] ?? null;
+      const post = after?.[i] ?? null;
+      const balance: SimulatedBalance = {
+        address,
+        preLamports: pre?.lamports ?? null,
+        postLamports: post?.lamports ?? null,
+      };
+      const preToken = readTokenAccount(pre);
+      const postToken = readTokenAccount(post);
+      if (preToken || postToken) {
+        balance.mint = (preToken ?? postToken)!.mint;
+        balance.preTokenAmount = preToken?.amount ?? null;
+        balance.postTokenAmount = postToken?.amount ?? null;
+      }
+      return balance;
+    }),
+  };
+}
+
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+// mint (32) + owner (32) + amount (8) lead every SPL token account
+const TOKEN_ACCOUNT_MIN_SIZE = 72;
+
+function readTokenAccount(account: RpcAccount | null): { mint: string; amount: bigint } | null {
+  if (!account || !TOKEN_PROGRAMS.includes(account.owner)) return null;
+  const data = Buffer.from(account.data[0], 'base64');
+  // Mint accounts are owned by the token program too, but are only 82 bytes
+  if (data.length < TOKEN_ACCOUNT_MIN_SIZE || data.length === 82) return null;
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  };
+}
@@ -0,0 +1,372 @@
+/**
+ * ClawdVault Streaming
+ * Real-time trades, token updates and chat over Server-Sent Events
+ */
+
+import type { Token, Trade, ChatMessage } from './types';
+import { DEFAULT_BASE_URL } from './constants';
+import { NetworkError } from './errors';
+
+// ============ Event Types ============
+
+/** Trade pushed on `/stream/trades` (`trade` event) */
+export type StreamTrade = Trade & { mint?: string };
+
+/** Token snapshot pushed on `/stream/token` (`connected` and `update` events) */
+export type StreamTokenUpdate = Pick<
+  Token,
+  | 'mint'
+  | 'price_sol'
+  | 'price_usd'
+  | 'market_cap_sol'
+  | 'market_cap_usd'
+  | 'volume_24h'
+  | 'holders'
+  | 'virtual_sol_reserves'
+  | 'virtual_token_reserves'
+  | 'real_sol_reserves'
+  | 'real_token_reserves'
+  | 'graduated'
+> & {
+  /** Unix timestamp (ms) of the update */
+  timestamp?: number;
+};
+
+/** Chat message pushed on `/stream/chat` (`message` event) */
+export type StreamChatMessage = ChatMessage & { mint?: string };
+
+// ============ Options ============
+
+/** Constructor compatible with the WHATWG `EventSource` */
+export type EventSourceLike = new (url: string) => EventSource;
+
+export interface StreamingOptions {
+  /** Reconnect after the connection drops (default: true) */
+  autoReconnect?: boolean;
+  /** Give up after this many consecutive failed reconnects (default: 10) */
+  maxReconnectAttempts?: number;
+  /** Delay before the first reconnect in ms, doubled on every attempt up to 30s (default: 1000) */
+  reconnectDelayMs?: number;
+  /**
+   * EventSource implementation. Defaults to the global one in browsers,
+   * and to the `eventsource` package in Node.js.
+   */
+  EventSource?: EventSourceLike;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+let defaultEventSource: Promise<EventSourceLike> | undefined;
+
+/**
+ * Resolve the EventSource implementation once, loading the Node polyfill only when needed
+ */
+function loadEventSource(): Promise<EventSourceLike> {
+  if (!defaultEventSource) {
+    defaultEventSource = typeof globalThis.EventSource === 'function'
+      ? Promise.resolve(globalThis.EventSource)
+      : import('eventsource').then(mod => mod.default ?? (mod as unknown as EventSourceLike));
+  }
+  return defaultEventSource;
+}
+
+// ============ Connection ============
+
+/**
+ * Event plumbing shared by SSE streams and polling watchers
+ * Register callbacks, then call `connect()`. Listeners survive reconnects.
+ */
+export abstract class LiveConnection {
+  protected listeners = new Map<string, Set<(data: any) => void>>();
+  private connectCallbacks = new Set<() => void>();
+  private disconnectCallbacks = new Set<() => void>();
+  private errorCallbacks = new Set<(error: Error) => void>();
+
+  /** Whether the connection is currently live */
+  abstract get connected(): boolean;
+
+  /** Start receiving events (no-op if already started) */
+  abstract connect(): void;
+
+  /** Stop receiving events and cancel any pending reconnect */
+  abstract disconnect(): void;
+
+  /**
+   * Listen for a named event; `data` is the parsed JSON payload
+   * @returns Function that removes the listener
+   */
+  on<T = unknown>(event: string, callback: (data: T) => void): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(callback);
+    return () => set!.delete(callback);
+  }
+
+  /** Called every time the connection goes live, including after a reconnect */
+  onConnect(callback: () => void): () => void {
+    this.connectCallbacks.add(callback);
+    return () => this.connectCallbacks.delete(callback);
+  }
+
+  /** Called when a live connection drops */
+  onDisconnect(callback: () => void): () => void {
+    this.disconnectCallbacks.add(callback);
+    return () => this.disconnectCallbacks.delete(callback);
+  }
+
+  /** Called when the connection gives up, and on malformed payloads */
+  onError(callback: (error: Error) => void): () => void {
+    this.errorCallbacks.add(callback);
+    return () => this.errorCallbacks.delete(callback);
+  }
+
+  protected emit(event: string, data: unknown): void {
+    for (const callback of this.listeners.get(event) ?? []) callback(data);
+  }
+
+  protected emitConnect(): void {
+    for (const callback of this.connectCallbacks) callback();
+  }
+
+  protected emitDisconnect(): void {
+    for (const callback of this.disconnectCallbacks) callback();
+  }
+
+  protected emitError(error: Error): void {
+    for (const callback of this.errorCallbacks) callback(error);
+  }
+}
+
+/**
+ * A single SSE stream
+ */
+export class StreamConnection extends LiveConnection {
+  readonly url: string;
+  private readonly path: string;
+  private options: Required<Omit<StreamingOptions, 'EventSource'>> & Pick<StreamingOptions, 'EventSource'>;
+  private source: EventSource | null = null;
+  private attached = new Set<string>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private active = false;
+  private opened = false;
+
+  constructor(baseUrl: string, path: string, options: StreamingOptions = {}) {
+    super();
+    this.url = `${baseUrl}${path}`;
+    this.path = path.split('?')[0];
+    this.options = {
+      autoReconnect: options.autoReconnect ?? true,
+      maxReconnectAttempts: options.maxReconnectAttempts ?? 10,
+      reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+      EventSource: options.EventSource,
+    };
+  }
+
+  /** Whether the stream is currently open */
+  get connected(): boolean {
+    return this.opened;
+  }
+
+  /**
+   * Open the stream (no-op if already open or connecting)
+   */
+  connect(): void {
+    if (this.active) return;
+    this.active = true;
+    this.reconnectAttempts = 0;
+    this.open();
+  }
+
+  /**
+   * Close the stream and cancel any pending reconnect
+   */
+  disconnect(): void {
+    this.active = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.close();
+  }
+
+  on<T = unknown>(event: string, callback: (data: T) => void): () => void {
+    const off = super.on(event, callback);
+    if (this.source) this.attach(this.source, event);
+    return off;
+  }
+
+  private async open(): Promise<void> {
+    let EventSourceImpl: EventSourceLike;
+    try {
+      EventSourceImpl = this.options.EventSource ?? await loadEventSource();
+    } catch (err) {
+      this.active = false;
+      this.emitError(new NetworkError('EventSource is not available - install the `eventsource` package', err));
+      return;
+    }
+    // disconnect() may have been called while the polyfill was loading
+    if (!this.active) return;
+
+    const source = new EventSourceImpl(this.url);
+    this.source = source;
+    this.attached.clear();
+    for (const event of this.listeners.keys()) {
+      this.attach(source, event);
+    }
+
+    source.onopen = () => {
+      this.opened = true;
+      this.reconnectAttempts = 0;
+      this.emitConnect();
+    };
+
+    source.onerror = (event) => {
+      // Take over reconnection so attempts and backoff are under our control
+      this.close();
+      if (!this.active) return;
+
+      if (this.options.autoReconnect && this.reconnectAttempts < this.options.maxReconnectAttempts) {
+        const delay = Math.min(
+          MAX_RECONNECT_DELAY_MS,
+          this.options.reconnectDelayMs * 2 ** this.reconnectAttempts
+        );
+        this.reconnectAttempts++;
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          if (this.active) this.open();
+        }, delay);
+        return;
+      }
+
+      this.active = false;
+      this.emitError(new NetworkError(`Stream connection failed: ${this.path}`, event, { method: 'GET', path: this.path }));
+    };
+  }
+
+  private attach(source: EventSource, event: string): void {
+    if (this.attached.has(event)) return;
+    this.attached.add(event);
+    source.addEventListener(event, (message) => {
+      let data: unknown;
+      try {
+        data = JSON.parse((message as MessageEvent).data);
+      } catch {
+        this.emitError(new Error(`Malformed ${event} event on ${this.path}`));
+        return;
+      }
+      this.emit(event, data);
+    });
+  }
+
+  private close(): void {
+    if (this.source) {
+      this.source.onopen = null;
+      this.source.onerror = null;
+      this.source.close();
+      this.source = null;
+    }
+    if (this.opened) {
+      this.opened = false;
+      this.emitDisconnect();
+    }
+  }
+}
+
+// ============ Streaming Client ============
+
+export class ClawdVaultStreaming {
+  private baseUrl: string;
+  private options: StreamingOptions;
+  private connections = new Set<StreamConnection>();
+
+  constructor(baseUrl: string = DEFAULT_BASE_URL, options: StreamingOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.options = options;
+  }
+
+  /**
+   * Trades for a token (`trade` events)
+   */
+  streamTrades(mint: string): StreamConnection {
+    return this.track(`/stream/trades?mint=${encodeURIComponent(mint)}`);
+  }
+
+  /**
+   * Price / market cap updates for a token
+   * (`connected` with the current snapshot, then `update` events)
+   */
+  streamToken(mint: string): StreamConnection {
+    return this.track(`/stream/token?mint=${encodeURIComponent(mint)}`);
+  }
+
+  /**
+   * Chat messages for a token (`message` events)
+   */
+  streamChat(mint: string): StreamConnection {
+    return this.track(`/stream/chat?mint=${encodeURIComponent(mint)}`);
+  }
+
+  /**
+   * Subscribe to trades and connect immediately
+   * @returns Function that disconnects the stream
+   */
+  onTrades(mint: string, callback: (trade: StreamTrade) => void): () => void {
+    const conn = this.streamTrades(mint);
+    conn.on<StreamTrade>('trade', callback);
+    conn.connect();
+    return () => this.release(conn);
+  }
+
+  /**
+   * Subscribe to price updates (initial snapshot included) and connect immediately
+   * @returns Function that disconnects the stream
+   */
+  onPrice(mint: string, callback: (update: StreamTokenUpdate) => void): () => void {
+    const conn = this.streamToken(mint);
+    conn.on<StreamTokenUpdate>('connected', callback);
+    conn.on<StreamTokenUpdate>('update', callback);
+    conn.connect();
+    return () => this.release(conn);
+  }
+
+  /**
+   * Subscribe to chat messages and connect immediately
+   * @returns Function that disconnects the stream
+   */
+  onChat(mint: string, callback: (message: StreamChatMessage) => void): () => void {
+    const conn = this.streamChat(mint);
+    conn.on<StreamChatMessage>('message', callback);
+    conn.connect();
+    return () => this.release(conn);
+  }
+
+  /**
+   * Disconnect every stream opened by this client
+   */
+  disconnectAll(): void {
+    for (const conn of this.connections) conn.disconnect();
+    this.connections.clear();
+  }
+
+  private track(path: string): StreamConnection {
+    const conn = new StreamConnection(this.baseUrl, path, this.options);
+    this.connections.add(conn);
+    return conn;
+  }
+
+  private release(conn: StreamConnection): void {
+    conn.disconnect();
+    this.connections.delete(conn);
+  }
+}
+
+/**
+ * Create a new streaming client
+ */
+export function createStreaming(baseUrl?: string, options?: StreamingOptions): ClawdVaultStreaming {
+  return new ClawdVaultStreaming(baseUrl, options);
+}
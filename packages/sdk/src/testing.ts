@@ -0,0 +1,1863 @@
+/**
+ * Offline ClawdVault API for tests
+ * A deterministic in-memory stand-in for every route in the OpenAPI spec: bonding curve
+ * pricing, real unsigned transactions to sign, and verification of the signed ones.
+ * Use it in-process as a client's `fetch`, or over HTTP for the CLI
+ */
+
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+  type AccountMeta,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { BondingCurve, DEFAULT_FEE_BPS, TOTAL_SUPPLY } from './curve';
+import { JUPITER_PROGRAM_ID, PROGRAM_ID } from './constants';
+import type { Environment } from './environment';
+import { deserializeTransaction } from './inspect';
+import { routePattern, type FetchLike } from './transport';
+import { verifySignature } from './wallet';
+import type { Server, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { AgentEntry, ChatMessage, Token, Trade, UserEntry, UserProfile } from './types';
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const bs58 = require('bs58').default || require('bs58');
+
+export interface FakeServerOptions {
+  /** Network reported by `/network` (default: 'localnet') */
+  network?: string;
+  /** SOL price in USD (default: 150) */
+  solPrice?: number;
+  /** SOL every wallet starts with (default: 100) */
+  walletSol?: number;
+  /** Seed for mint keys, blockhashes and tokens - same seed, same state (default: 'clawdvault') */
+  seed?: string;
+  /** Time of the first recorded event; the clock moves one second per event (default: 2025-01-01) */
+  startTime?: string | number | Date;
+  /** Session lifetime in seconds (default: 3600) */
+  sessionTtl?: number;
+  /** Curve fee in basis points (default: 100) */
+  feeBps?: number;
+}
+
+/**
+ * Token created directly with `seedToken()`, without a signed transaction
+ */
+export interface FakeTokenSeed {
+  name: string;
+  symbol: string;
+  /** Creator wallet (default: a fixed fake wallet) */
+  creator?: string;
+  description?: string;
+  image?: string;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+  /** SOL the creator buys at launch */
+  initialBuy?: number;
+}
+
+/**
+ * Trade recorded directly with `seedTrade()`
+ */
+export interface FakeTradeSeed {
+  wallet: string;
+  type: 'buy' | 'sell';
+  /** SOL for buys, tokens for sells */
+  amount: number;
+}
+
+// ============ Internal State ============
+
+interface TokenRecord {
+  mint: string;
+  name: string;
+  symbol: string;
+  description?: string;
+  image?: string;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+  creator: string;
+  curve: BondingCurve;
+  ath: number;
+  createdAt: number;
+  updatedAt: number;
+  lastTradeAt?: number;
+}
+
+interface TradeRecord {
+  id: string;
+  mint: string;
+  type: 'buy' | 'sell';
+  sol: number;
+  tokens: number;
+  fee: number;
+  trader: string;
+  signature: string;
+  /** Spot price after the trade */
+  priceAfter: number;
+  at: number;
+}
+
+interface ChatRecord {
+  id: string;
+  mint: string;
+  wallet: string;
+  message: string;
+  replyTo?: string;
+  reactions: Record<string, string[]>;
+  at: number;
+}
+
+interface AgentRecord {
+  id: string;
+  userId: string;
+  wallet: string;
+  name?: string;
+  avatar?: string;
+  apiKey: string;
+  claimCode: string;
+  twitterHandle?: string;
+  verifiedAt?: number;
+  createdAt: number;
+}
+
+/** What a prepared transaction does once signed, keyed by its blockhash */
+type Intent = {
+  wallet: string;
+  blockhash: string;
+  /** Base64 message the signatures must cover */
+  message: string;
+  signers: number;
+} & (
+  | { kind: 'create'; mint: string; name: string; symbol: string; amount: number; minOut: number }
+  | { kind: 'trade'; route: 'curve' | 'jupiter'; type: 'buy' | 'sell'; mint: string; amount: number; minOut: number }
+  | { kind: 'transfer'; transfers: { to: string; lamports: number }[] }
+);
+
+/** Balance changes of a transaction, computed before anything is committed */
+interface Settlement {
+  lamports: Map<string, number>;
+  /** Token changes keyed by `mint:wallet` */
+  tokens: Map<string, number>;
+  mint?: string;
+  curve?: BondingCurve;
+  trade?: { type: 'buy' | 'sell'; sol: number; tokens: number; fee: number };
+}
+
+/** Addresses handed out in transactions, so RPC account reads can answer for them */
+type AccountRef =
+  | { kind: 'mint'; mint: string }
+  | { kind: 'curve'; mint: string }
+  | { kind: 'ata'; mint: string; owner: string };
+
+interface FakeState {
+  clock: number;
+  slot: number;
+  counters: Record<string, number>;
+  tokens: Map<string, TokenRecord>;
+  trades: TradeRecord[];
+  messages: ChatRecord[];
+  profiles: Map<string, { username?: string; avatar?: string; createdAt: number }>;
+  users: Map<string, { id: string; createdAt: number }>;
+  agents: Map<string, AgentRecord>;
+  sessions: Map<string, { wallet: string; expiresAt: number }>;
+  lamports: Map<string, number>;
+  holdings: Map<string, number>;
+  accounts: Map<string, AccountRef>;
+  pending: Map<string, Intent>;
+  blockhashes: Set<string>;
+  signatures: Map<string, number>;
+  pageViews: number;
+}
+
+interface RouteContext {
+  request: Request;
+  query: URLSearchParams;
+  /** Last path segment, for `/tokens/{mint}` style routes */
+  param: string;
+  json(): Promise<any>;
+}
+
+type Route = [method: string, pattern: RegExp, handler: (ctx: RouteContext) => unknown];
+
+interface RpcAccount {
+  lamports: number;
+  owner: string;
+  data: [string, string];
+  executable: boolean;
+  rentEpoch: number;
+  space: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly body: Record<string, unknown>) {
+    super(String(body.error ?? `HTTP ${status}`));
+  }
+}
+
+const TOKEN_DECIMALS = 6;
+const TOKEN_UNITS = 10 ** TOKEN_DECIMALS;
+const FEE_LAMPORTS_PER_SIGNATURE = 5_000;
+const TOKEN_ACCOUNT_RENT = 2_039_280;
+const MINT_ACCOUNT_RENT = 1_461_600;
+const COMPUTE_UNIT_LIMIT = 200_000;
+const BLOCKHASH_LIFETIME = 150;
+const DAY_MS = 24 * 60 * 60_000;
+const CANDLE_SECONDS: Record<string, number> = { '1m': 60, '5m': 300, '15m': 900, '1h': 3600, '1d': 86400 };
+const DEFAULT_CREATOR_LABEL = 'creator';
+
+// Curve program instruction tags
+const CREATE = 0;
+const BUY = 1;
+const SELL = 2;
+
+/**
+ * In-memory ClawdVault API - tokens, trades, chat, profiles, sessions and agents
+ * live in memory, and the same seed and calls always produce the same state
+ *
+ * - Prices follow `BondingCurve`; tokens graduate at the threshold and then trade via the Jupiter routes
+ * - Prepare endpoints return real unsigned transactions (the create one pre-signed by the mint);
+ *   execute endpoints and RPC `sendTransaction` verify every signature before settling
+ * - `/rpc` answers the JSON-RPC calls the SDK and CLI make (balances, blockhashes, simulation, sending)
+ * - Records are timestamped by a fake clock; auth signatures and sessions use the real one,
+ *   since clients sign with it
+ *
+ * @example
+ * const server = createFakeServer();
+ * const client = createClient({ baseUrl: 'http://fake/api', fetch: server.fetch, signer });
+ * const { mint } = await client.createToken({ name: 'Test', symbol: 'TEST', initialBuy: 1 });
+ *
+ * // Or over HTTP, e.g. for the CLI
+ * const baseUrl = await server.listen();
+ */
+export class FakeClawdVaultServer {
+  readonly network: string;
+  readonly solPrice: number;
+  private walletLamports: number;
+  private seed: string;
+  private startTime: number;
+  private sessionTtl: number;
+  private feeBps: number;
+  private state: FakeState;
+  private routes: Route[];
+  private server: Server | null = null;
+  private listeningUrl: string | null = null;
+  private curveAddresses = new Map<string, string>();
+
+  constructor(options: FakeServerOptions = {}) {
+    this.network = options.network ?? 'localnet';
+    this.solPrice = options.solPrice ?? 150;
+    this.walletLamports = Math.round((options.walletSol ?? 100) * LAMPORTS_PER_SOL);
+    this.seed = options.seed ?? 'clawdvault';
+    this.startTime = new Date(options.startTime ?? '2025-01-01T00:00:00.000Z').getTime();
+    this.sessionTtl = options.sessionTtl ?? 3600;
+    this.feeBps = options.feeBps ?? DEFAULT_FEE_BPS;
+    this.state = this.emptyState();
+    this.routes = this.buildRoutes();
+  }
+
+  /**
+   * `fetch` that answers from this server without a socket - pass it as the client's `fetch`
+   */
+  readonly fetch: FetchLike = (input, init) => this.handle(new Request(input, init));
+
+  /**
+   * Base URL while listening, e.g. `http://127.0.0.1:54321/api`
+   */
+  get url(): string | null {
+    return this.listeningUrl;
+  }
+
+  /**
+   * Environment pointing the SDK or CLI at this server, for `createClient({ environment })`
+   * and `validateEnvironment()`
+   */
+  environment(baseUrl = this.listeningUrl ?? 'http://127.0.0.1:3000/api'): Environment {
+    return {
+      name: 'fake',
+      baseUrl,
+      rpcUrl: `${baseUrl}/rpc`,
+      network: this.network,
+      cluster: 'custom',
+      programId: PROGRAM_ID,
+    };
+  }
+
+  // ============ HTTP ============
+
+  /**
+   * Serve over HTTP (Node only) - resolves with the API base URL
+   */
+  async listen(port = 0, hostname = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error(`Fake server is already listening on ${this.listeningUrl}`);
+    }
+    const http: typeof import('http') = require('http');
+    const server = http.createServer((req, res) => {
+      this.serve(req, res).catch((err: Error) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: err.message }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, () => resolve());
+    });
+    this.server = server;
+    this.listeningUrl = `http://${hostname}:${(server.address() as AddressInfo).port}/api`;
+    return this.listeningUrl;
+  }
+
+  /**
+   * Stop listening; state is kept
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    this.listeningUrl = null;
+    server.closeAllConnections?.();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Answer one API request
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/api(?=\/)/, '').replace(/\/+$/, '') || '/';
+    const matches = this.routes.filter(([, pattern]) => pattern.test(path));
+    const route = matches.find(([method]) => method === request.method);
+
+    try {
+      if (!route) {
+        throw new HttpError(matches.length > 0 ? 405 : 404, { error: matches.length > 0 ? 'Method not allowed' : 'Not found' });
+      }
+      const ctx: RouteContext = {
+        request,
+        query: url.searchParams,
+        param: decodeURIComponent(path.split('/').pop()!),
+        json: () => request.json().catch(() => {
+          throw badRequest('Invalid JSON body');
+        }),
+      };
+      return json(await route[2](ctx));
+    } catch (err) {
+      if (err instanceof HttpError) return json(err.body, err.status);
+      return json({ success: false, error: (err as Error).message }, 500);
+    }
+  }
+
+  private async serve(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(req.headers)) {
+      if (value !== undefined) headers[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && chunks.length > 0;
+    const response = await this.handle(new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method,
+      headers,
+      body: hasBody ? Buffer.concat(chunks) : undefined,
+    }));
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+    res.writeHead(response.status, responseHeaders);
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+
+  // ============ Seeding & Inspection ============
+
+  /**
+   * Forget all tokens, trades, sessions and balances
+   */
+  reset(): void {
+    this.state = this.emptyState();
+  }
+
+  /**
+   * Move the fake clock forward, e.g. to age trades out of the 24h window
+   */
+  advance(ms: number): void {
+    this.state.clock += ms;
+  }
+
+  /**
+   * Add SOL to a wallet
+   */
+  airdrop(wallet: string, sol: number): void {
+    this.state.lamports.set(wallet, this.lamportsOf(wallet) + Math.round(sol * LAMPORTS_PER_SOL));
+  }
+
+  /** SOL held by a wallet */
+  solBalance(wallet: string): number {
+    return this.lamportsOf(wallet) / LAMPORTS_PER_SOL;
+  }
+
+  /** Tokens of `mint` held by a wallet */
+  tokenBalance(wallet: string, mint: string): number {
+    return this.state.holdings.get(holdingKey(mint, wallet)) ?? 0;
+  }
+
+  /**
+   * Create a token without a signed transaction
+   */
+  seedToken(seed: FakeTokenSeed): Token {
+    const mint = this.nextMint().publicKey.toBase58();
+    const creator = seed.creator ?? Keypair.fromSeed(this.derive(DEFAULT_CREATOR_LABEL)).publicKey.toBase58();
+    const intent: Intent = {
+      kind: 'create',
+      wallet: creator,
+      blockhash: '',
+      message: '',
+      signers: 0,
+      mint,
+      name: seed.name,
+      symbol: seed.symbol,
+      amount: seed.initialBuy ?? 0,
+      minOut: 0,
+    };
+    this.commit(intent, this.settle(intent), this.fakeSignature('seed'), seed);
+    return this.toToken(this.state.tokens.get(mint)!);
+  }
+
+  /**
+   * Record a curve trade without a signed transaction
+   */
+  seedTrade(mint: string, trade: FakeTradeSeed): Trade {
+    const intent: Intent = {
+      kind: 'trade',
+      route: 'curve',
+      wallet: trade.wallet,
+      blockhash: '',
+      message: '',
+      signers: 0,
+      mint,
+      type: trade.type,
+      amount: trade.amount,
+      minOut: 0,
+    };
+    return this.toTrade(this.commit(intent, this.settle(intent), this.fakeSignature('seed'))!);
+  }
+
+  // ============ Routes ============
+
+  private buildRoutes(): Route[] {
+    const route = (method: string, pattern: string, handler: (ctx: RouteContext) => unknown): Route =>
+      [method, routePattern(pattern), handler];
+
+    return [
+      // Tokens
+      route('POST', '/token/prepare-create', ctx => this.prepareCreate(ctx)),
+      route('POST', '/token/execute-create', ctx => this.executeCreate(ctx)),
+      route('GET', '/tokens', ctx => this.listTokens(ctx)),
+      route('GET', '/tokens/*', ctx => this.getToken(ctx)),
+      route('GET', '/metadata/*', ctx => this.getMetadata(ctx)),
+      // Trading
+      route('GET', '/trade', ctx => this.getQuote(ctx)),
+      route('POST', '/trade/prepare', ctx => this.prepareTrade(ctx)),
+      route('POST', '/trade/execute', ctx => this.executeTrade(ctx, 'curve')),
+      route('GET', '/trades', ctx => this.listTrades(ctx)),
+      route('GET', '/candles', ctx => this.getCandles(ctx)),
+      route('GET', '/stats', ctx => this.getStats(ctx)),
+      route('GET', '/holders', ctx => this.getHolders(ctx)),
+      route('GET', '/balance', ctx => this.getBalance(ctx)),
+      route('GET', '/wallet/balances', ctx => this.getWalletBalances(ctx)),
+      route('GET', '/sol-price', () => ({ price: this.solPrice, valid: true, cached: false, source: 'fake', age: 0 })),
+      // Graduation
+      route('GET', '/graduate', ctx => this.getGraduation(ctx)),
+      route('GET', '/trade/jupiter', ctx => this.getJupiterStatus(ctx)),
+      route('POST', '/trade/jupiter', ctx => this.prepareJupiter(ctx)),
+      route('POST', '/trade/jupiter/execute', ctx => this.executeTrade(ctx, 'jupiter')),
+      // Chat & profiles
+      route('GET', '/chat', ctx => this.listChat(ctx)),
+      route('POST', '/chat', ctx => this.sendChat(ctx)),
+      route('POST', '/reactions', ctx => this.react(ctx, true)),
+      route('DELETE', '/reactions', ctx => this.react(ctx, false)),
+      route('GET', '/profile', ctx => this.getProfile(ctx)),
+      route('POST', '/profile', ctx => this.updateProfile(ctx)),
+      route('GET', '/auth/session', ctx => this.validateSession(ctx)),
+      route('POST', '/auth/session', ctx => this.createSession(ctx)),
+      route('POST', '/upload', ctx => this.upload(ctx)),
+      // Agents & leaderboards
+      route('POST', '/agent/register', ctx => this.registerAgent(ctx)),
+      route('POST', '/agent/claim', ctx => this.claimAgent(ctx)),
+      route('GET', '/agents', ctx => this.listAgents(ctx)),
+      route('GET', '/users', ctx => this.listUsers(ctx)),
+      route('GET', '/site-stats', () => this.getSiteStats()),
+      route('POST', '/track', () => {
+        this.state.pageViews++;
+        return { ok: true };
+      }),
+      // Network
+      route('GET', '/network', ctx => ({
+        network: this.network,
+        programId: PROGRAM_ID,
+        rpcUrl: ctx.request.url.replace(/\/network(\?.*)?$/, '/rpc'),
+        configInitialized: true,
+      })),
+      route('GET', '/rpc', () => ({ status: 'ok', message: 'Solana RPC proxy (fake)' })),
+      route('POST', '/rpc', ctx => this.rpc(ctx)),
+    ];
+  }
+
+  // ============ Token Handlers ============
+
+  private async prepareCreate(ctx: RouteContext) {
+    const body = await ctx.json();
+    requireFields(body, ['creator', 'name', 'symbol']);
+    const creator = requireAddress(body.creator, 'creator');
+    if (body.name.length > 32) throw badRequest('Name must be at most 32 characters');
+    if (body.symbol.length > 10) throw badRequest('Symbol must be at most 10 characters');
+    const initialBuy = optionalAmount(body.initialBuy, 'initialBuy');
+
+    const mintKeypair = this.nextMint();
+    const mint = mintKeypair.publicKey;
+    const estimatedTokens = initialBuy > 0 ? BondingCurve.initial({ feeBps: this.feeBps }).quoteBuy(initialBuy).output : 0;
+    const transaction = this.prepareTransaction(
+      { kind: 'create', wallet: creator.toBase58(), mint: mint.toBase58(), name: body.name, symbol: body.symbol, amount: initialBuy, minOut: 0 },
+      PROGRAM_ID,
+      instructionData(CREATE, toLamports(initialBuy), 0n),
+      this.curveKeys(creator, mint, true),
+      [mintKeypair]
+    );
+
+    return {
+      success: true,
+      transaction,
+      mint: mint.toBase58(),
+      programId: PROGRAM_ID,
+      network: this.network,
+      ...(initialBuy > 0 ? { initialBuy: { sol: initialBuy, estimatedTokens } } : {}),
+    };
+  }
+
+  private async executeCreate(ctx: RouteContext) {
+    const body = await ctx.json();
+    requireFields(body, ['signedTransaction', 'mint', 'creator', 'name', 'symbol']);
+    const { intent, signature } = this.acceptSigned(body.signedTransaction);
+    if (intent.kind !== 'create' || intent.mint !== body.mint || intent.wallet !== body.creator) {
+      throw badRequest('Signed transaction does not match this token');
+    }
+    this.commit(intent, this.settle(intent), signature, body);
+    return {
+      success: true,
+      signature,
+      mint: intent.mint,
+      token: this.toToken(this.state.tokens.get(intent.mint)!),
+      explorer: this.explorerUrl(signature),
+    };
+  }
+
+  private listTokens(ctx: RouteContext) {
+    const { page, perPage } = pageParams(ctx.query, 'per_page', 20);
+    const sort = ctx.query.get('sort') ?? 'created_at';
+    const graduated = ctx.query.get('graduated');
+
+    let tokens = [...this.state.tokens.values()].map(token => this.toToken(token));
+    if (graduated !== null) {
+      tokens = tokens.filter(token => token.graduated === (graduated === 'true'));
+    }
+    const key: Record<string, (token: Token) => number> = {
+      created_at: token => Date.parse(token.created_at!),
+      market_cap: token => token.market_cap_sol!,
+      price_change: token => token.price_change_24h ?? 0,
+    };
+    const sortKey = key[sort] ?? key.created_at;
+    tokens.sort((a, b) => sortKey(b) - sortKey(a));
+
+    return {
+      tokens: tokens.slice((page - 1) * perPage, page * perPage),
+      total: tokens.length,
+      page,
+      per_page: perPage,
+    };
+  }
+
+  private getToken(ctx: RouteContext) {
+    const token = this.requireToken(ctx.param);
+    return {
+      token: this.toToken(token),
+      trades: this.tradesOf(token.mint).slice(0, 50).map(trade => this.toTrade(trade)),
+    };
+  }
+
+  private getMetadata(ctx: RouteContext) {
+    const { name, symbol, description = '', image = '' } = this.requireToken(ctx.param);
+    return { name, symbol, description, image };
+  }
+
+  // ============ Trade Handlers ============
+
+  private getQuote(ctx: RouteContext) {
+    const token = this.requireToken(requireParam(ctx.query, 'mint'));
+    const type = requireSide(requireParam(ctx.query, 'type'));
+    const amount = requireAmount(Number(requireParam(ctx.query, 'amount')), 'amount');
+    return token.curve.quote(type, amount);
+  }
+
+  private async prepareTrade(ctx: RouteContext) {
+    const body = await ctx.json();
+    requireFields(body, ['mint', 'type', 'amount', 'wallet']);
+    const token = this.requireToken(body.mint);
+    const type = requireSide(body.type);
+    const amount = requireAmount(body.amount, 'amount');
+    const wallet = requireAddress(body.wallet, 'wallet');
+    const slippage = body.slippage ?? 0.01;
+    if (typeof slippage !== 'number' || slippage < 0 || slippage >= 1) {
+      throw badRequest('slippage must be a fraction between 0 and 1');
+    }
+    if (token.curve.graduated) {
+      throw new HttpError(400, {
+        success: false,
+        graduated: true,
+        error: 'Token has graduated; trade it through Jupiter',
+        redirectTo: '/api/trade/jupiter',
+      });
+    }
+
+    const quote = token.curve.quote(type, amount);
+    const minOut = quote.output * (1 - slippage);
+    const transaction = this.prepareTransaction(
+      { kind: 'trade', route: 'curve', wallet: wallet.toBase58(), mint: token.mint, type, amount, minOut },
+      PROGRAM_ID,
+      type === 'buy'
+        ? instructionData(BUY, toLamports(amount), toTokenUnits(minOut))
+        : instructionData(SELL, toTokenUnits(amount), toLamports(minOut)),
+      this.curveKeys(wallet, new PublicKey(token.mint), false)
+    );
+
+    return {
+      success: true,
+      transaction,
+      type,
+      input: type === 'buy' ? { sol: amount, fee: quote.fee } : { tokens: amount },
+      output: type === 'buy'
+        ? { tokens: quote.output, minTokens: minOut }
+        : { sol: quote.output, minSol: minOut },
+      priceImpact: quote.price_impact,
+      currentPrice: quote.current_price,
+      onChain: true,
+    };
+  }
+
+  private async executeTrade(ctx: RouteContext, route: 'curve' | 'jupiter') {
+    const body = await ctx.json();
+    requireFields(body, ['signedTransaction', 'mint', 'type', 'wallet']);
+    const { intent, signature } = this.acceptSigned(body.signedTransaction);
+    if (intent.kind !== 'trade' || intent.route !== route || intent.mint !== body.mint
+      || intent.type !== body.type || intent.wallet !== body.wallet) {
+      throw badRequest('Signed transaction does not match this trade');
+    }
+    const trade = this.commit(intent, this.settle(intent), signature)!;
+
+    if (route === 'jupiter') {
+      return {
+        success: true,
+        signature,
+        trade: { mint: trade.mint, type: trade.type, solAmount: trade.sol, tokenAmount: trade.tokens },
+        message: 'Swapped via Jupiter',
+      };
+    }
+    const protocolFee = trade.fee / 2;
+    return {
+      success: true,
+      signature,
+      explorer: this.explorerUrl(signature),
+      slot: this.state.signatures.get(signature),
+      blockTime: Math.floor(trade.at / 1000),
+      trade: {
+        id: trade.id,
+        mint: trade.mint,
+        trader: trade.trader,
+        type: trade.type,
+        solAmount: trade.sol,
+        tokenAmount: trade.tokens,
+        protocolFee,
+        creatorFee: trade.fee - protocolFee,
+      },
+    };
+  }
+
+  private listTrades(ctx: RouteContext) {
+    const mint = requireParam(ctx.query, 'mint');
+    const trades = beforeCursor(this.tradesOf(mint), ctx.query, 50);
+    return { trades: trades.map(trade => this.toTrade(trade)) };
+  }
+
+  private getCandles(ctx: RouteContext) {
+    const token = this.requireToken(requireParam(ctx.query, 'mint'));
+    const interval = ctx.query.get('interval') ?? '5m';
+    const seconds = CANDLE_SECONDS[interval];
+    if (!seconds) throw badRequest(`Invalid interval: ${interval}`);
+    const currency = ctx.query.get('currency') === 'usd' ? 'usd' : 'sol';
+    const limit = positiveInt(ctx.query.get('limit'), 100);
+    const from = ctx.query.get('from') ?? undefined;
+    const to = ctx.query.get('to') ?? undefined;
+    const rate = currency === 'usd' ? this.solPrice : 1;
+
+    const candles: { time: number; open: number; high: number; low: number; close: number; volume: number }[] = [];
+    let close = BondingCurve.initial({ feeBps: this.feeBps }).spotPrice * rate;
+    for (const trade of [...this.tradesOf(token.mint)].reverse()) {
+      const price = (trade.sol / trade.tokens) * rate;
+      const time = Math.floor(trade.at / 1000 / seconds) * seconds;
+      const last = candles[candles.length - 1];
+      if (last?.time === time) {
+        last.high = Math.max(last.high, price);
+        last.low = Math.min(last.low, price);
+        last.close = price;
+        last.volume += trade.sol;
+      } else {
+        candles.push({ time, open: close, high: Math.max(close, price), low: Math.min(close, price), close: price, volume: trade.sol });
+      }
+      close = price;
+    }
+
+    const inRange = candles.filter(candle =>
+      (!from || candle.time * 1000 >= Date.parse(from)) && (!to || candle.time * 1000 <= Date.parse(to)));
+    return { mint: token.mint, interval, currency, from, to, candles: inRange.slice(-limit) };
+  }
+
+  private getStats(ctx: RouteContext) {
+    const token = this.requireToken(requireParam(ctx.query, 'mint'));
+    const { curve } = token;
+    return {
+      success: true,
+      mint: token.mint,
+      onChain: {
+        totalSupply: TOTAL_SUPPLY,
+        bondingCurveBalance: curve.reserves.realTokenReserves,
+        circulatingSupply: TOTAL_SUPPLY - curve.reserves.realTokenReserves,
+        bondingCurveSol: curve.reserves.realSolReserves,
+        virtualSolReserves: curve.reserves.virtualSolReserves,
+        virtualTokenReserves: curve.reserves.virtualTokenReserves,
+        price: curve.spotPrice,
+        priceUsd: curve.spotPrice * this.solPrice,
+        marketCap: curve.marketCap,
+        marketCapUsd: curve.marketCap * this.solPrice,
+        solPriceUsd: this.solPrice,
+        graduated: curve.graduated,
+      },
+    };
+  }
+
+  private getHolders(ctx: RouteContext) {
+    const token = this.requireToken(requireParam(ctx.query, 'mint'));
+    const creator = ctx.query.get('creator') ?? token.creator;
+    const holders = [
+      { address: this.curveAddress(token.mint), balance: token.curve.reserves.realTokenReserves, label: 'Bonding Curve' },
+      ...this.holdersOf(token.mint).map(([address, balance]) => ({
+        address,
+        balance,
+        ...(address === creator ? { label: 'Creator' } : {}),
+      })),
+    ];
+    holders.sort((a, b) => b.balance - a.balance);
+    return {
+      holders: holders.slice(0, 50).map(holder => ({ ...holder, percentage: (holder.balance / TOTAL_SUPPLY) * 100 })),
+    };
+  }
+
+  private getBalance(ctx: RouteContext) {
+    const wallet = requireParam(ctx.query, 'wallet');
+    const mint = requireParam(ctx.query, 'mint');
+    return { balance: this.tokenBalance(wallet, mint), wallet, mint };
+  }
+
+  private getWalletBalances(ctx: RouteContext) {
+    const wallet = ctx.query.get('wallet');
+    if (!wallet || !isAddress(wallet)) {
+      throw new HttpError(400, { success: false, error: 'Invalid wallet address' });
+    }
+    const balances: Record<string, number> = {};
+    for (const mint of this.state.tokens.keys()) {
+      const balance = this.tokenBalance(wallet, mint);
+      if (balance > 0) balances[mint] = balance;
+    }
+    return { success: true, wallet, balances, count: Object.keys(balances).length };
+  }
+
+  // ============ Graduation Handlers ============
+
+  private getGraduation(ctx: RouteContext) {
+    const token = this.requireToken(requireParam(ctx.query, 'mint'));
+    const { graduated, reserves } = token.curve;
+    return {
+      success: true,
+      data: {
+        mint: token.mint,
+        graduated,
+        migratedToRaydium: graduated,
+        realSolReserves: String(toLamports(reserves.realSolReserves)),
+        realTokenReserves: String(toTokenUnits(reserves.realTokenReserves)),
+        canMigrate: false,
+      },
+    };
+  }
+
+  private getJupiterStatus(ctx: RouteContext) {
+    const token = this.requireToken(requireParam(ctx.query, 'mint'));
+    const { graduated } = token.curve;
+    return {
+      success: true,
+      mint: token.mint,
+      graduated,
+      tradeEndpoint: graduated ? '/api/trade/jupiter' : '/api/trade',
+    };
+  }
+
+  private async prepareJupiter(ctx: RouteContext) {
+    const body = await ctx.json();
+    requireFields(body, ['mint', 'action', 'amount', 'userPublicKey']);
+    const token = this.requireToken(body.mint);
+    const type = requireSide(body.action);
+    const wallet = requireAddress(body.userPublicKey, 'userPublicKey');
+    const slippageBps = body.slippageBps ?? 50;
+    if (!token.curve.graduated) {
+      throw badRequest('Token has not graduated; trade it on the bonding curve');
+    }
+    const baseUnits = Number(body.amount);
+    if (!Number.isInteger(baseUnits) || baseUnits <= 0) throw badRequest('amount must be a positive integer string');
+
+    // Graduated tokens keep trading against the same constant-product reserves
+    const amount = type === 'buy' ? baseUnits / LAMPORTS_PER_SOL : baseUnits / TOKEN_UNITS;
+    const quote = token.curve.quote(type, amount);
+    const minOut = quote.output * (1 - slippageBps / 10_000);
+    const [inAmount, outAmount] = type === 'buy'
+      ? [toLamports(amount), toTokenUnits(quote.output)]
+      : [toTokenUnits(amount), toLamports(quote.output)];
+    const transaction = this.prepareTransaction(
+      { kind: 'trade', route: 'jupiter', wallet: wallet.toBase58(), mint: token.mint, type, amount, minOut },
+      JUPITER_PROGRAM_ID,
+      instructionData(type === 'buy' ? BUY : SELL, BigInt(baseUnits), type === 'buy' ? toTokenUnits(minOut) : toLamports(minOut)),
+      this.curveKeys(wallet, new PublicKey(token.mint), false)
+    );
+
+    return {
+      success: true,
+      graduated: true,
+      quote: {
+        inputMint: type === 'buy' ? 'So11111111111111111111111111111111111111112' : token.mint,
+        outputMint: type === 'buy' ? token.mint : 'So11111111111111111111111111111111111111112',
+        inAmount: String(inAmount),
+        outAmount: String(outAmount),
+        priceImpactPct: String(quote.price_impact / 100),
+        slippageBps,
+      },
+      transaction,
+      lastValidBlockHeight: this.state.slot + BLOCKHASH_LIFETIME,
+    };
+  }
+
+  // ============ Social Handlers ============
+
+  private listChat(ctx: RouteContext) {
+    const mint = requireParam(ctx.query, 'mint');
+    const messages = this.state.messages.filter(message => message.mint === mint).reverse();
+    return { messages: beforeCursor(messages, ctx.query, 50).map(message => this.toChatMessage(message)) };
+  }
+
+  private async sendChat(ctx: RouteContext) {
+    const body = await ctx.json();
+    const wallet = this.authenticate(ctx, body, 'chat');
+    requireFields(body, ['mint', 'message']);
+    this.requireToken(body.mint);
+    const text = String(body.message).trim();
+    if (!text || text.length > 500) throw badRequest('Message must be 1-500 characters');
+    if (body.replyTo && !this.state.messages.some(message => message.id === body.replyTo)) {
+      throw badRequest('Reply target not found');
+    }
+
+    const message: ChatRecord = {
+      id: this.nextId('msg'),
+      mint: body.mint,
+      wallet,
+      message: text,
+      replyTo: body.replyTo,
+      reactions: {},
+      at: this.tick(),
+    };
+    this.state.messages.push(message);
+    this.touchUser(wallet);
+    return { success: true, message: this.toChatMessage(message) };
+  }
+
+  private async react(ctx: RouteContext, add: boolean) {
+    const body = add
+      ? await ctx.json()
+      : { messageId: ctx.query.get('messageId') ?? undefined, emoji: ctx.query.get('emoji') ?? undefined };
+    const wallet = this.authenticate(ctx, body, add ? 'react' : 'unreact');
+    requireFields(body, ['messageId', 'emoji']);
+    const message = this.state.messages.find(candidate => candidate.id === body.messageId);
+    if (!message) throw new HttpError(404, { error: 'Message not found' });
+
+    const wallets = (message.reactions[body.emoji] ?? []).filter(reactor => reactor !== wallet);
+    if (add) wallets.push(wallet);
+    if (wallets.length > 0) {
+      message.reactions[body.emoji] = wallets;
+    } else {
+      delete message.reactions[body.emoji];
+    }
+    return { success: true };
+  }
+
+  private getProfile(ctx: RouteContext): UserProfile {
+    const wallet = requireParam(ctx.query, 'wallet');
+    const profile = this.state.profiles.get(wallet);
+    return profile
+      ? { wallet, username: profile.username, avatar: profile.avatar, created_at: iso(profile.createdAt) }
+      : { wallet };
+  }
+
+  private async updateProfile(ctx: RouteContext) {
+    const body = await ctx.json();
+    const wallet = this.authenticate(ctx, body, 'profile');
+    if (body.username !== undefined) {
+      if (!/^[A-Za-z0-9_]{1,32}$/.test(body.username)) {
+        throw badRequest('Username must be 1-32 letters, digits or underscores');
+      }
+      for (const [other, profile] of this.state.profiles) {
+        if (other !== wallet && profile.username?.toLowerCase() === body.username.toLowerCase()) {
+          throw new HttpError(409, { success: false, error: 'Username is taken' });
+        }
+      }
+    }
+    const profile = this.state.profiles.get(wallet) ?? { createdAt: this.tick() };
+    this.state.profiles.set(wallet, {
+      ...profile,
+      ...(body.username !== undefined ? { username: body.username } : {}),
+      ...(body.avatar !== undefined ? { avatar: body.avatar } : {}),
+    });
+    this.touchUser(wallet);
+    return { success: true };
+  }
+
+  private validateSession(ctx: RouteContext) {
+    const token = bearerToken(ctx.request);
+    if (!token) throw new HttpError(401, { error: 'Unauthorized' });
+    const session = this.activeSession(token);
+    return session ? { valid: true, wallet: session.wallet } : { valid: false };
+  }
+
+  private async createSession(ctx: RouteContext) {
+    const body = await ctx.json().catch(() => ({}));
+    const wallet = this.authenticate(ctx, body, 'session', false);
+    const token = `fake_${bs58.encode(this.derive(`session:${this.nextId('session')}`, 24))}`;
+    this.state.sessions.set(token, { wallet, expiresAt: Date.now() + this.sessionTtl * 1000 });
+    this.touchUser(wallet);
+    return { success: true, token, expiresIn: this.sessionTtl, wallet };
+  }
+
+  private async upload(ctx: RouteContext) {
+    const form = await ctx.request.formData().catch(() => {
+      throw badRequest('Expected multipart/form-data');
+    });
+    const file = form.get('file');
+    if (!file || typeof file === 'string') throw badRequest('No file provided');
+    if (!file.type.startsWith('image/')) throw badRequest('Only image uploads are allowed');
+
+    if (form.get('type') === 'avatar') {
+      const wallet = String(form.get('wallet') ?? '');
+      const agent = this.state.agents.get(wallet);
+      if (!agent || bearerToken(ctx.request) !== agent.apiKey) {
+        throw new HttpError(401, { success: false, error: 'Invalid API key for this wallet' });
+      }
+      agent.avatar = `https://cdn.clawdvault.test/uploads/${this.nextId('upload')}/${sanitizeFilename(file)}`;
+      return { success: true, url: agent.avatar };
+    }
+    return { success: true, url: `https://cdn.clawdvault.test/uploads/${this.nextId('upload')}/${sanitizeFilename(file)}` };
+  }
+
+  // ============ Agent Handlers ============
+
+  private async registerAgent(ctx: RouteContext) {
+    const body = await ctx.json();
+    requireFields(body, ['wallet']);
+    const wallet = requireAddress(body.wallet, 'wallet').toBase58();
+    if (this.state.agents.has(wallet)) {
+      throw new HttpError(409, { success: false, error: 'Wallet is already registered as an agent' });
+    }
+
+    const id = this.nextId('agent');
+    const claimCode = `CLAW-${Buffer.from(this.derive(`claim:${id}`, 3)).toString('hex').toUpperCase()}`;
+    const agent: AgentRecord = {
+      id,
+      userId: this.touchUser(wallet),
+      wallet,
+      name: body.name,
+      avatar: body.avatar,
+      apiKey: `cv_${bs58.encode(this.derive(`apikey:${id}`, 24))}`,
+      claimCode,
+      createdAt: this.tick(),
+    };
+    this.state.agents.set(wallet, agent);
+    return {
+      apiKey: agent.apiKey,
+      claimCode,
+      tweetTemplate: `Verifying my agent on @ClawdVault: ${claimCode}`,
+      userId: agent.userId,
+      agentId: agent.id,
+    };
+  }
+
+  private async claimAgent(ctx: RouteContext) {
+    const body = await ctx.json();
+    requireFields(body, ['apiKey', 'tweetUrl']);
+    const agent = [...this.state.agents.values()].find(candidate => candidate.apiKey === body.apiKey);
+    if (!agent) throw new HttpError(404, { success: false, error: 'Agent not found' });
+    if (agent.verifiedAt !== undefined) throw new HttpError(409, { success: false, error: 'Agent is already claimed' });
+    const match = /^https:\/\/(?:www\.)?(?:twitter|x)\.com\/([A-Za-z0-9_]{1,15})\/status\/\d+/.exec(body.tweetUrl);
+    if (!match) throw badRequest('Invalid tweet URL');
+
+    agent.twitterHandle = match[1];
+    agent.verifiedAt = this.tick();
+    return { success: true, twitterHandle: agent.twitterHandle, verifiedAt: iso(agent.verifiedAt) };
+  }
+
+  private listAgents(ctx: RouteContext) {
+    const agents: AgentEntry[] = [...this.state.agents.values()].map(agent => ({
+      id: agent.id,
+      wallet: agent.wallet,
+      name: agent.name ?? this.state.profiles.get(agent.wallet)?.username ?? null,
+      avatar: agent.avatar ?? null,
+      twitter_handle: agent.twitterHandle ?? null,
+      twitter_verified: agent.verifiedAt !== undefined,
+      ...this.walletStats(agent.wallet),
+      verified_at: agent.verifiedAt !== undefined ? iso(agent.verifiedAt) : null,
+      created_at: iso(agent.createdAt),
+    }));
+    return { agents: leaderboardPage(agents, ctx.query), ...leaderboardMeta(agents, ctx.query) };
+  }
+
+  private listUsers(ctx: RouteContext) {
+    const users: UserEntry[] = [...this.state.users].map(([wallet, user]) => {
+      const profile = this.state.profiles.get(wallet);
+      return {
+        id: user.id,
+        wallet,
+        name: profile?.username ?? null,
+        avatar: profile?.avatar ?? null,
+        ...this.walletStats(wallet),
+        created_at: iso(user.createdAt),
+      };
+    });
+    return { users: leaderboardPage(users, ctx.query), ...leaderboardMeta(users, ctx.query) };
+  }
+
+  private getSiteStats() {
+    const tokens = [...this.state.tokens.values()];
+    return {
+      totalTokens: tokens.length,
+      graduatedCount: tokens.filter(token => token.curve.graduated).length,
+      agentCount: this.state.agents.size,
+      userCount: this.state.users.size,
+      pageViews: this.state.pageViews,
+      totalVolume: this.state.trades.reduce((sum, trade) => sum + trade.sol, 0),
+    };
+  }
+
+  // ============ RPC ============
+
+  private async rpc(ctx: RouteContext) {
+    const body = await ctx.request.json().catch(() => undefined);
+    if (body === undefined) {
+      throw new HttpError(400, { jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null });
+    }
+    return Array.isArray(body) ? body.map(call => this.rpcCall(call)) : this.rpcCall(body);
+  }
+
+  private rpcCall(call: { method?: string; params?: any[]; id?: string | number }) {
+    const id = call?.id ?? null;
+    try {
+      return { jsonrpc: '2.0', result: this.rpcResult(call.method ?? '', call.params ?? []), id };
+    } catch (err) {
+      const error = err instanceof RpcError ? err : new RpcError(-32602, (err as Error).message);
+      return { jsonrpc: '2.0', error: { code: error.code, message: error.message }, id };
+    }
+  }
+
+  private rpcResult(method: string, params: any[]): unknown {
+    const context = { slot: this.state.slot };
+    switch (method) {
+      case 'getGenesisHash':
+        return bs58.encode(this.derive(`genesis:${this.network}`));
+      case 'getHealth':
+        return 'ok';
+      case 'getVersion':
+        return { 'solana-core': '1.18.0', 'feature-set': 0 };
+      case 'getSlot':
+      case 'getBlockHeight':
+        return this.state.slot;
+      case 'getLatestBlockhash':
+        return { context, value: { blockhash: this.issueBlockhash(), lastValidBlockHeight: this.state.slot + BLOCKHASH_LIFETIME } };
+      case 'getBalance':
+        return { context, value: this.lamportsOf(rpcAddress(params[0])) };
+      case 'getAccountInfo':
+        return { context, value: this.rpcAccount(rpcAddress(params[0])) };
+      case 'getMultipleAccounts':
+        return { context, value: (params[0] as string[]).map(address => this.rpcAccount(rpcAddress(address))) };
+      case 'getTokenAccountBalance': {
+        const ref = this.state.accounts.get(rpcAddress(params[0]));
+        if (ref?.kind !== 'ata') throw new RpcError(-32602, 'Invalid param: not a token account');
+        const amount = toTokenUnits(this.tokenBalance(ref.owner, ref.mint));
+        return {
+          context,
+          value: { amount: String(amount), decimals: TOKEN_DECIMALS, uiAmount: Number(amount) / TOKEN_UNITS, uiAmountString: String(Number(amount) / TOKEN_UNITS) },
+        };
+      }
+      case 'getSignatureStatuses':
+        return {
+          context,
+          value: (params[0] as string[]).map(signature => {
+            const slot = this.state.signatures.get(signature);
+            return slot === undefined ? null : { slot, confirmations: null, err: null, confirmationStatus: 'finalized' };
+          }),
+        };
+      case 'requestAirdrop': {
+        const address = rpcAddress(params[0]);
+        this.state.lamports.set(address, this.lamportsOf(address) + Number(params[1]));
+        return this.record(this.fakeSignature('airdrop'));
+      }
+      case 'simulateTransaction':
+        return { context, value: this.simulate(params[0], params[1] ?? {}) };
+      case 'sendTransaction': {
+        const { intent, signature } = this.acceptSigned(params[0], params[1]?.encoding);
+        this.commit(intent, this.settle(intent), signature);
+        return signature;
+      }
+      case 'getSignaturesForAddress': {
+        // Only trades are indexed - enough to rebuild a wallet's positions
+        const address = rpcAddress(params[0]);
+        const { limit = 1000, before } = (params[1] ?? {}) as { limit?: number; before?: string };
+        const trades = this.state.trades.filter(trade => trade.trader === address).reverse();
+        const start = before ? trades.findIndex(trade => trade.signature === before) + 1 : 0;
+        return trades.slice(start, start + limit).map(trade => ({
+          signature: trade.signature,
+          slot: this.state.signatures.get(trade.signature) ?? null,
+          blockTime: Math.floor(trade.at / 1000),
+          err: null,
+          memo: null,
+          confirmationStatus: 'finalized',
+        }));
+      }
+      case 'getTransaction': {
+        const trade = this.state.trades.find(t => t.signature === params[0]);
+        if (!trade) return null;
+        const balance = (amount: number) => ({
+          accountIndex: 0,
+          mint: trade.mint,
+          owner: trade.trader,
+          programId: TOKEN_PROGRAM_ID.toBase58(),
+          uiTokenAmount: { amount: String(toTokenUnits(amount)), decimals: TOKEN_DECIMALS, uiAmount: amount, uiAmountString: String(amount) },
+        });
+        return {
+          slot: this.state.signatures.get(trade.signature) ?? null,
+          blockTime: Math.floor(trade.at / 1000),
+          transaction: {
+            signatures: [trade.signature],
+            message: { accountKeys: [trade.trader, trade.mint, PROGRAM_ID] },
+          },
+          meta: {
+            err: null,
+            fee: FEE_LAMPORTS_PER_SIGNATURE,
+            preTokenBalances: [],
+            postTokenBalances: [balance(this.tokenBalance(trade.trader, trade.mint))],
+          },
+        };
+      }
+      default:
+        throw new RpcError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  private simulate(transaction: string, config: { encoding?: string; sigVerify?: boolean; accounts?: { addresses?: string[] } }) {
+    const addresses = config.accounts?.addresses ?? [];
+    const logs = [`Program ${ComputeBudgetProgram.programId.toBase58()} invoke [1]`, `Program ${ComputeBudgetProgram.programId.toBase58()} success`];
+    try {
+      const intent = config.sigVerify
+        ? this.acceptSigned(transaction, config.encoding).intent
+        : this.matchIntent(decodeTransaction(transaction, config.encoding)).intent;
+      const settlement = this.settle(intent);
+      const program = intent.kind === 'transfer' ? SystemProgram.programId.toBase58()
+        : intent.kind === 'trade' && intent.route === 'jupiter' ? JUPITER_PROGRAM_ID : PROGRAM_ID;
+      logs.push(`Program ${program} invoke [1]`, `Program log: Instruction: ${instructionName(intent)}`, `Program ${program} success`);
+      return {
+        err: null,
+        logs,
+        unitsConsumed: intent.kind === 'transfer' ? 450 : 42_000,
+        accounts: addresses.map(address => this.rpcAccount(address, settlement)),
+      };
+    } catch (err) {
+      logs.push(`Program log: Error: ${(err as Error).message}`);
+      return { err: { InstructionError: [1, { Custom: 6000 }] }, logs, unitsConsumed: 0, accounts: null };
+    }
+  }
+
+  private rpcAccount(address: string, settlement?: Settlement): RpcAccount | null {
+    const ref = this.state.accounts.get(address);
+    const exists = (mint: string) => this.state.tokens.has(mint) || settlement?.mint === mint;
+
+    if (ref?.kind === 'ata') {
+      const key = holdingKey(ref.mint, ref.owner);
+      if (!this.state.holdings.has(key) && !settlement?.tokens.has(key)) return null;
+      const data = Buffer.alloc(165);
+      new PublicKey(ref.mint).toBuffer().copy(data, 0);
+      new PublicKey(ref.owner).toBuffer().copy(data, 32);
+      data.writeBigUInt64LE(toTokenUnits(this.tokenBalance(ref.owner, ref.mint) + (settlement?.tokens.get(key) ?? 0)), 64);
+      data[108] = 1; // initialized
+      return rpcAccount(TOKEN_ACCOUNT_RENT, TOKEN_PROGRAM_ID.toBase58(), data);
+    }
+    if (ref?.kind === 'mint') {
+      return exists(ref.mint) ? rpcAccount(MINT_ACCOUNT_RENT, TOKEN_PROGRAM_ID.toBase58(), Buffer.alloc(82)) : null;
+    }
+    if (ref?.kind === 'curve') {
+      if (!exists(ref.mint)) return null;
+      const curve = settlement?.mint === ref.mint && settlement.curve ? settlement.curve : this.state.tokens.get(ref.mint)!.curve;
+      return rpcAccount(Number(toLamports(curve.reserves.realSolReserves)), PROGRAM_ID, Buffer.alloc(0));
+    }
+    return rpcAccount(this.lamportsOf(address) + (settlement?.lamports.get(address) ?? 0), SystemProgram.programId.toBase58(), Buffer.alloc(0));
+  }
+
+  // ============ Transactions ============
+
+  /**
+   * Build an unsigned transaction for `intent`, remembered by its blockhash until executed
+   */
+  private prepareTransaction(
+    intent: DistributiveOmit<Intent, 'blockhash' | 'message' | 'signers'>,
+    programId: string,
+    data: Buffer,
+    keys: AccountMeta[],
+    signers: Keypair[] = []
+  ): string {
+    const blockhash = this.issueBlockhash();
+    const transaction = new Transaction({
+      feePayer: new PublicKey(intent.wallet),
+      blockhash,
+      lastValidBlockHeight: this.state.slot + BLOCKHASH_LIFETIME,
+    });
+    transaction.add(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: COMPUTE_UNIT_LIMIT }),
+      new TransactionInstruction({ programId: new PublicKey(programId), keys, data })
+    );
+    if (signers.length > 0) {
+      transaction.partialSign(...signers);
+    }
+    const serialized = transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+    const { message } = VersionedTransaction.deserialize(serialized);
+    this.state.pending.set(blockhash, {
+      ...intent,
+      blockhash,
+      message: Buffer.from(message.serialize()).toString('base64'),
+      signers: message.header.numRequiredSignatures,
+    } as Intent);
+    return serialized.toString('base64');
+  }
+
+  /**
+   * Match a signed transaction to what was prepared and check every signature
+   */
+  private acceptSigned(transaction: string, encoding?: string): { intent: Intent; signature: string } {
+    const tx = decodeTransaction(transaction, encoding);
+    const { intent, messageBytes } = this.matchIntent(tx);
+    const keys = tx.message.staticAccountKeys;
+    const nacl = require('tweetnacl');
+    for (let i = 0; i < tx.message.header.numRequiredSignatures; i++) {
+      if (!nacl.sign.detached.verify(messageBytes, tx.signatures[i], keys[i].toBytes())) {
+        throw badRequest(`Missing or invalid signature for ${keys[i].toBase58()}`);
+      }
+    }
+    const signature = bs58.encode(tx.signatures[0]);
+    if (this.state.signatures.has(signature)) {
+      throw badRequest('Transaction already processed');
+    }
+    return { intent, signature };
+  }
+
+  private matchIntent(tx: VersionedTransaction): { intent: Intent; messageBytes: Uint8Array } {
+    const messageBytes = tx.message.serialize();
+    const blockhash = tx.message.recentBlockhash;
+    const intent = this.state.pending.get(blockhash) ?? this.transferIntent(tx);
+    if (!intent) {
+      throw badRequest('Blockhash not found');
+    }
+    if (intent.message !== Buffer.from(messageBytes).toString('base64')) {
+      throw badRequest('Transaction does not match the prepared transaction');
+    }
+    return { intent, messageBytes };
+  }
+
+  /**
+   * Plain SOL transfers signed against a blockhash from `getLatestBlockhash`
+   */
+  private transferIntent(tx: VersionedTransaction): Intent | undefined {
+    if (!this.state.blockhashes.has(tx.message.recentBlockhash)) return undefined;
+    const keys = tx.message.staticAccountKeys;
+    const wallet = keys[0].toBase58();
+    const transfers: { to: string; lamports: number }[] = [];
+    for (const ix of tx.message.compiledInstructions) {
+      const programId = keys[ix.programIdIndex];
+      if (programId.equals(ComputeBudgetProgram.programId)) continue;
+      const data = Buffer.from(ix.data);
+      const isTransfer = programId.equals(SystemProgram.programId) && data.length >= 12 && data.readUInt32LE(0) === 2;
+      if (!isTransfer || keys[ix.accountKeyIndexes[0]].toBase58() !== wallet) {
+        throw badRequest('Only SOL transfers from the fee payer can be sent to the fake RPC');
+      }
+      transfers.push({ to: keys[ix.accountKeyIndexes[1]].toBase58(), lamports: Number(data.readBigUInt64LE(4)) });
+    }
+    return {
+      kind: 'transfer',
+      wallet,
+      transfers,
+      blockhash: tx.message.recentBlockhash,
+      message: Buffer.from(tx.message.serialize()).toString('base64'),
+      signers: tx.message.header.numRequiredSignatures,
+    };
+  }
+
+  /**
+   * Work out what a transaction changes, throwing if it would fail on-chain
+   */
+  private settle(intent: Intent): Settlement {
+    const settlement: Settlement = { lamports: new Map(), tokens: new Map() };
+    const pay = (address: string, lamports: number) => {
+      settlement.lamports.set(address, (settlement.lamports.get(address) ?? 0) + lamports);
+    };
+    const spend = (lamports: number) => {
+      if (this.lamportsOf(intent.wallet) + (settlement.lamports.get(intent.wallet) ?? 0) < lamports) {
+        throw badRequest('Insufficient SOL balance');
+      }
+      pay(intent.wallet, -lamports);
+    };
+    spend(intent.signers * FEE_LAMPORTS_PER_SIGNATURE);
+
+    if (intent.kind === 'transfer') {
+      for (const { to, lamports } of intent.transfers) {
+        spend(lamports);
+        pay(to, lamports);
+      }
+      return settlement;
+    }
+
+    let curve: BondingCurve;
+    let creator: string;
+    if (intent.kind === 'create') {
+      if (this.state.tokens.has(intent.mint)) {
+        throw new HttpError(409, { success: false, error: 'Token already exists' });
+      }
+      curve = BondingCurve.initial({ feeBps: this.feeBps });
+      creator = intent.wallet;
+      settlement.mint = intent.mint;
+      settlement.curve = curve;
+      if (intent.amount === 0) return settlement;
+    } else {
+      const token = this.requireToken(intent.mint);
+      if (intent.route === 'curve' && token.curve.graduated) {
+        throw new HttpError(400, { success: false, graduated: true, error: 'Token has graduated; trade it through Jupiter', redirectTo: '/api/trade/jupiter' });
+      }
+      if (intent.route === 'jupiter' && !token.curve.graduated) {
+        throw badRequest('Token has not graduated; trade it on the bonding curve');
+      }
+      curve = token.curve;
+      creator = token.creator;
+      settlement.mint = intent.mint;
+    }
+
+    const type = intent.kind === 'create' ? 'buy' : intent.type;
+    const key = holdingKey(intent.mint, intent.wallet);
+    const quote = curve.quote(type, intent.amount);
+    if (quote.output < intent.minOut) {
+      throw badRequest(`Slippage exceeded: expected at least ${intent.minOut}, got ${quote.output}`);
+    }
+    if (type === 'buy') {
+      spend(Number(toLamports(intent.amount)));
+      settlement.tokens.set(key, quote.output);
+      settlement.curve = curve.applyBuy(intent.amount);
+      settlement.trade = { type, sol: intent.amount, tokens: quote.output, fee: quote.fee };
+    } else {
+      if (this.tokenBalance(intent.wallet, intent.mint) < intent.amount) {
+        throw badRequest('Insufficient token balance');
+      }
+      pay(intent.wallet, Number(toLamports(quote.output)));
+      settlement.tokens.set(key, -intent.amount);
+      settlement.curve = curve.applySell(intent.amount);
+      settlement.trade = { type, sol: quote.output, tokens: intent.amount, fee: quote.fee };
+    }
+    // Half the fee goes to the creator, half to the protocol
+    pay(creator, Number(toLamports(quote.fee / 2)));
+    return settlement;
+  }
+
+  /**
+   * Apply a settlement; returns the trade it recorded, if any
+   */
+  private commit(intent: Intent, settlement: Settlement, signature: string, details: Partial<FakeTokenSeed> = {}): TradeRecord | undefined {
+    const { state } = this;
+    const at = this.tick();
+    for (const [address, lamports] of settlement.lamports) {
+      state.lamports.set(address, this.lamportsOf(address) + lamports);
+    }
+    for (const [key, tokens] of settlement.tokens) {
+      state.holdings.set(key, Math.max(0, (state.holdings.get(key) ?? 0) + tokens));
+    }
+    state.pending.delete(intent.blockhash);
+    this.record(signature);
+    this.touchUser(intent.wallet);
+    if (intent.kind === 'transfer') return undefined;
+
+    if (intent.kind === 'create') {
+      state.tokens.set(intent.mint, {
+        mint: intent.mint,
+        name: intent.name,
+        symbol: intent.symbol,
+        description: details.description,
+        image: details.image,
+        twitter: details.twitter,
+        telegram: details.telegram,
+        website: details.website,
+        creator: intent.wallet,
+        curve: BondingCurve.initial({ feeBps: this.feeBps }),
+        ath: BondingCurve.initial({ feeBps: this.feeBps }).spotPrice,
+        createdAt: at,
+        updatedAt: at,
+      });
+      this.registerAccounts(intent.wallet, intent.mint);
+    }
+
+    const token = state.tokens.get(intent.mint)!;
+    token.curve = settlement.curve!;
+    token.updatedAt = at;
+    if (!settlement.trade) return undefined;
+
+    this.registerAccounts(intent.wallet, intent.mint);
+    token.ath = Math.max(token.ath, token.curve.spotPrice);
+    token.lastTradeAt = at;
+    const trade: TradeRecord = {
+      id: this.nextId('trade'),
+      mint: intent.mint,
+      ...settlement.trade,
+      trader: intent.wallet,
+      signature,
+      priceAfter: token.curve.spotPrice,
+      at,
+    };
+    state.trades.push(trade);
+    return trade;
+  }
+
+  private curveKeys(wallet: PublicKey, mint: PublicKey, create: boolean): AccountMeta[] {
+    this.registerAccounts(wallet.toBase58(), mint.toBase58());
+    return [
+      { pubkey: wallet, isSigner: true, isWritable: true },
+      { pubkey: mint, isSigner: create, isWritable: create },
+      { pubkey: new PublicKey(this.curveAddress(mint.toBase58())), isSigner: false, isWritable: true },
+      { pubkey: getAssociatedTokenAddressSync(mint, wallet, true), isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ];
+  }
+
+  private registerAccounts(wallet: string, mint: string): void {
+    const { accounts } = this.state;
+    accounts.set(mint, { kind: 'mint', mint });
+    accounts.set(this.curveAddress(mint), { kind: 'curve', mint });
+    accounts.set(getAssociatedTokenAddressSync(new PublicKey(mint), new PublicKey(wallet), true).toBase58(), { kind: 'ata', mint, owner: wallet });
+  }
+
+  private curveAddress(mint: string): string {
+    let address = this.curveAddresses.get(mint);
+    if (!address) {
+      address = PublicKey.findProgramAddressSync(
+        [Buffer.from('bonding_curve'), new PublicKey(mint).toBuffer()],
+        new PublicKey(PROGRAM_ID)
+      )[0].toBase58();
+      this.curveAddresses.set(mint, address);
+    }
+    return address;
+  }
+
+  // ============ Auth ============
+
+  /**
+   * Wallet behind a session token or a signed request
+   */
+  private authenticate(ctx: RouteContext, body: object, action: string, allowSession = true): string {
+    const token = bearerToken(ctx.request);
+    if (token && allowSession) {
+      const session = this.activeSession(token);
+      if (!session) throw new HttpError(401, { error: 'Invalid or expired session' });
+      return session.wallet;
+    }
+
+    const wallet = ctx.request.headers.get('X-Wallet');
+    const signature = ctx.request.headers.get('X-Signature');
+    if (!wallet || !signature) throw new HttpError(401, { error: 'Unauthorized' });
+    const signedAction = ctx.request.headers.get('X-Action') ?? action;
+    const signData = signedAction === 'session' ? { action: 'create_session' } : body;
+    // Accept the current and previous 5-minute window
+    const window = Math.floor(Date.now() / 1000 / 300) * 300;
+    const valid = signedAction === action && [window, window - 300].some(candidate =>
+      verifySignature(`ClawdVault:${signedAction}:${candidate}:${JSON.stringify(signData)}`, signature, wallet));
+    if (!valid) throw new HttpError(401, { error: 'Invalid signature' });
+    return wallet;
+  }
+
+  private activeSession(token: string): { wallet: string; expiresAt: number } | null {
+    const session = this.state.sessions.get(token);
+    return session && session.expiresAt > Date.now() ? session : null;
+  }
+
+  // ============ Views ============
+
+  private toToken(token: TokenRecord): Token {
+    const { curve } = token;
+    const dayAgo = this.state.clock - DAY_MS;
+    const recent = this.tradesOf(token.mint).filter(trade => trade.at > dayAgo);
+    const price24hAgo = this.priceAt(token, dayAgo);
+    return {
+      mint: token.mint,
+      name: token.name,
+      symbol: token.symbol,
+      description: token.description,
+      image: token.image,
+      creator: token.creator,
+      creator_name: this.state.profiles.get(token.creator)?.username,
+      price_sol: curve.spotPrice,
+      price_usd: curve.spotPrice * this.solPrice,
+      market_cap_sol: curve.marketCap,
+      market_cap_usd: curve.marketCap * this.solPrice,
+      volume_24h: recent.reduce((sum, trade) => sum + trade.sol, 0),
+      trades_24h: recent.length,
+      holders: this.holdersOf(token.mint).length,
+      price_change_24h: ((curve.spotPrice - price24hAgo) / price24hAgo) * 100,
+      ath: token.ath,
+      price_24h_ago: price24hAgo,
+      virtual_sol_reserves: curve.reserves.virtualSolReserves,
+      virtual_token_reserves: curve.reserves.virtualTokenReserves,
+      real_sol_reserves: curve.reserves.realSolReserves,
+      real_token_reserves: curve.reserves.realTokenReserves,
+      graduated: curve.graduated,
+      raydium_pool: curve.graduated ? this.curveAddress(token.mint) : undefined,
+      twitter: token.twitter,
+      telegram: token.telegram,
+      website: token.website,
+      last_trade_at: token.lastTradeAt !== undefined ? iso(token.lastTradeAt) : undefined,
+      created_at: iso(token.createdAt),
+      updated_at: iso(token.updatedAt),
+    };
+  }
+
+  private toTrade(trade: TradeRecord): Trade {
+    const price = trade.sol / trade.tokens;
+    return {
+      id: trade.id,
+      type: trade.type,
+      sol_amount: trade.sol,
+      token_amount: trade.tokens,
+      price_sol: price,
+      price_usd: price * this.solPrice,
+      sol_price_usd: this.solPrice,
+      trader: trade.trader,
+      username: this.state.profiles.get(trade.trader)?.username ?? null,
+      signature: trade.signature,
+      created_at: iso(trade.at),
+    };
+  }
+
+  private toChatMessage(message: ChatRecord): ChatMessage {
+    return {
+      id: message.id,
+      wallet: message.wallet,
+      username: this.state.profiles.get(message.wallet)?.username,
+      message: message.message,
+      reply_to: message.replyTo,
+      reactions: message.reactions,
+      created_at: iso(message.at),
+    };
+  }
+
+  /** Spot price as of `time` */
+  private priceAt(token: TokenRecord, time: number): number {
+    const trade = this.tradesOf(token.mint).find(candidate => candidate.at <= time);
+    return trade?.priceAfter ?? BondingCurve.initial({ feeBps: this.feeBps }).spotPrice;
+  }
+
+  private walletStats(wallet: string): { tokens_created: number; total_volume: number; total_fees: number } {
+    const created = new Set([...this.state.tokens.values()].filter(token => token.creator === wallet).map(token => token.mint));
+    let volume = 0;
+    let fees = 0;
+    for (const trade of this.state.trades) {
+      if (trade.trader === wallet) volume += trade.sol;
+      if (created.has(trade.mint)) fees += trade.fee / 2;
+    }
+    return { tokens_created: created.size, total_volume: volume, total_fees: fees };
+  }
+
+  // ============ State Helpers ============
+
+  private emptyState(): FakeState {
+    return {
+      clock: this.startTime,
+      slot: 1,
+      counters: {},
+      tokens: new Map(),
+      trades: [],
+      messages: [],
+      profiles: new Map(),
+      users: new Map(),
+      agents: new Map(),
+      sessions: new Map(),
+      lamports: new Map(),
+      holdings: new Map(),
+      accounts: new Map(),
+      pending: new Map(),
+      blockhashes: new Set(),
+      signatures: new Map(),
+      pageViews: 0,
+    };
+  }
+
+  private requireToken(mint: string): TokenRecord {
+    const token = this.state.tokens.get(mint);
+    if (!token) throw new HttpError(404, { success: false, error: 'Token not found' });
+    return token;
+  }
+
+  /** Newest first */
+  private tradesOf(mint: string): TradeRecord[] {
+    return this.state.trades.filter(trade => trade.mint === mint).reverse();
+  }
+
+  private holdersOf(mint: string): [string, number][] {
+    const prefix = `${mint}:`;
+    return [...this.state.holdings]
+      .filter(([key, balance]) => key.startsWith(prefix) && balance > 0)
+      .map(([key, balance]) => [key.slice(prefix.length), balance]);
+  }
+
+  private lamportsOf(address: string): number {
+    return this.state.lamports.get(address) ?? this.walletLamports;
+  }
+
+  private touchUser(wallet: string): string {
+    let user = this.state.users.get(wallet);
+    if (!user) {
+      user = { id: this.nextId('user'), createdAt: this.state.clock };
+      this.state.users.set(wallet, user);
+    }
+    return user.id;
+  }
+
+  private record(signature: string): string {
+    this.state.signatures.set(signature, this.state.slot++);
+    return signature;
+  }
+
+  private explorerUrl(signature: string): string {
+    return `https://explorer.solana.com/tx/${signature}?cluster=custom`;
+  }
+
+  private tick(): number {
+    const now = this.state.clock;
+    this.state.clock += 1000;
+    return now;
+  }
+
+  private nextId(kind: string): string {
+    const n = (this.state.counters[kind] ?? 0) + 1;
+    this.state.counters[kind] = n;
+    return `${kind}_${n}`;
+  }
+
+  private nextMint(): Keypair {
+    return Keypair.fromSeed(this.derive(this.nextId('mint')));
+  }
+
+  private issueBlockhash(): string {
+    const blockhash = bs58.encode(this.derive(this.nextId('blockhash')));
+    this.state.blockhashes.add(blockhash);
+    return blockhash;
+  }
+
+  private fakeSignature(kind: string): string {
+    return bs58.encode(this.derive(this.nextId(kind), 64));
+  }
+
+  /** Deterministic bytes for `label` under this server's seed */
+  private derive(label: string, length = 32): Uint8Array {
+    const nacl = require('tweetnacl');
+    return (nacl.hash(new TextEncoder().encode(`${this.seed}:${label}`)) as Uint8Array).slice(0, length);
+  }
+}
+
+/**
+ * Create an in-memory ClawdVault API
+ */
+export function createFakeServer(options?: FakeServerOptions): FakeClawdVaultServer {
+  return new FakeClawdVaultServer(options);
+}
+
+// ============ Helpers ============
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function badRequest(error: string): HttpError {
+  return new HttpError(400, { success: false, error });
+}
+
+function requireFields(body: Record<string, unknown>, fields: string[]): void {
+  const missing = fields.filter(field => body?.[field] === undefined || body[field] === null || body[field] === '');
+  if (missing.length > 0) throw badRequest(`Missing required fields: ${missing.join(', ')}`);
+}
+
+function requireParam(query: URLSearchParams, name: string): string {
+  const value = query.get(name);
+  if (!value) throw badRequest(`Missing required parameter: ${name}`);
+  return value;
+}
+
+function requireSide(type: unknown): 'buy' | 'sell' {
+  if (type !== 'buy' && type !== 'sell') throw badRequest('type must be "buy" or "sell"');
+  return type;
+}
+
+function requireAmount(amount: unknown, name: string): number {
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    throw badRequest(`${name} must be a positive number`);
+  }
+  return amount;
+}
+
+function optionalAmount(amount: unknown, name: string): number {
+  return amount === undefined || amount === null || amount === 0 ? 0 : requireAmount(amount, name);
+}
+
+function requireAddress(value: unknown, name: string): PublicKey {
+  try {
+    return new PublicKey(value as string);
+  } catch {
+    throw badRequest(`Invalid ${name} address`);
+  }
+}
+
+function isAddress(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function rpcAddress(value: unknown): string {
+  if (typeof value !== 'string' || !isAddress(value)) throw new RpcError(-32602, `Invalid param: ${String(value)}`);
+  return value;
+}
+
+function decodeTransaction(transaction: string, encoding = 'base64'): VersionedTransaction {
+  try {
+    return encoding === 'base58'
+      ? VersionedTransaction.deserialize(bs58.decode(transaction))
+      : deserializeTransaction(transaction);
+  } catch {
+    throw badRequest('Invalid transaction encoding');
+  }
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  return header?.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+function positiveInt(value: string | null, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+function pageParams(query: URLSearchParams, perPageParam: string, fallback: number): { page: number; perPage: number } {
+  return { page: positiveInt(query.get('page'), 1), perPage: Math.min(positiveInt(query.get(perPageParam), fallback), 100) };
+}
+
+/** Items after the `before` cursor (newest-first lists), capped at `limit` */
+function beforeCursor<T extends { id: string }>(items: T[], query: URLSearchParams, fallback: number): T[] {
+  const before = query.get('before');
+  const start = before ? items.findIndex(item => item.id === before) + 1 : 0;
+  if (before && start === 0) return [];
+  return items.slice(start, start + positiveInt(query.get('limit'), fallback));
+}
+
+function leaderboardPage<T extends { total_volume?: number; tokens_created?: number; total_fees?: number }>(
+  entries: T[],
+  query: URLSearchParams
+): T[] {
+  const sortKeys: Record<string, keyof T> = { volume: 'total_volume', tokens: 'tokens_created', fees: 'total_fees' };
+  const key = sortKeys[query.get('sortBy') ?? 'volume'] ?? 'total_volume';
+  const { page, perPage } = pageParams(query, 'limit', 25);
+  return [...entries]
+    .sort((a, b) => (Number(b[key]) || 0) - (Number(a[key]) || 0))
+    .slice((page - 1) * perPage, page * perPage);
+}
+
+function leaderboardMeta(entries: unknown[], query: URLSearchParams): { total: number; page: number; per_page: number } {
+  const { page, perPage } = pageParams(query, 'limit', 25);
+  return { total: entries.length, page, per_page: perPage };
+}
+
+function instructionData(tag: number, amount: bigint, limit: bigint): Buffer {
+  const data = Buffer.alloc(17);
+  data.writeUInt8(tag, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.writeBigUInt64LE(limit, 9);
+  return data;
+}
+
+function instructionName(intent: Intent): string {
+  if (intent.kind === 'transfer') return 'Transfer';
+  if (intent.kind === 'create') return 'Create';
+  return intent.type === 'buy' ? 'Buy' : 'Sell';
+}
+
+function rpcAccount(lamports: number, owner: string, data: Buffer): RpcAccount {
+  return { lamports, owner, data: [data.toString('base64'), 'base64'], executable: false, rentEpoch: 0, space: data.length };
+}
+
+function holdingKey(mint: string, wallet: string): string {
+  return `${mint}:${wallet}`;
+}
+
+function toLamports(sol: number): bigint {
+  return BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+}
+
+function toTokenUnits(tokens: number): bigint {
+  return BigInt(Math.max(0, Math.round(tokens * TOKEN_UNITS)));
+}
+
+function sanitizeFilename(file: File): string {
+  return (file.name || 'image.png').replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+function iso(time: number): string {
+  return new Date(time).toISOString();
+}
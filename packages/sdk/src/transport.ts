@@ -0,0 +1,64 @@
+/**
+ * Pluggable HTTP transport for the ClawdVault client
+ * A `fetch` implementation wrapped by an ordered middleware chain
+ */
+
+/**
+ * Minimal `fetch` signature the client depends on
+ */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing request as seen by middleware
+ * Middleware may mutate it or pass a modified copy to `next`
+ */
+export interface TransportRequest {
+  method: 'GET' | 'POST' | 'DELETE';
+  /** Absolute URL including the query string */
+  url: string;
+  /** API path without the base URL, e.g. `/trade/prepare` */
+  path: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+  /** Attempt number (1-based) when the client retries */
+  attempt: number;
+}
+
+export type TransportNext = (request: TransportRequest) => Promise<Response>;
+
+/**
+ * Request/response interceptor
+ * Call `next(request)` to continue down the chain, or return a Response
+ * directly to short-circuit (e.g. serve from cache or a test fixture)
+ */
+export type Middleware = (request: TransportRequest, next: TransportNext) => Promise<Response>;
+
+/**
+ * Build the handler that sends a request through every middleware, then `fetch`
+ * Middleware runs in array order on the way out and reverse order on the way back
+ */
+export function composeMiddleware(middleware: Middleware[], fetchImpl: FetchLike): TransportNext {
+  const send: TransportNext = ({ url, method, headers, body, signal }) =>
+    fetchImpl(url, { method, headers, body, signal });
+
+  return middleware.reduceRight<TransportNext>(
+    (next, mw) => (request) => mw(request, next),
+    send
+  );
+}
+
+/**
+ * Match API paths against a route pattern where `*` stands for one path segment,
+ * e.g. `/tokens/*` matches `/tokens/MINT` but not `/tokens`
+ */
+export function routePattern(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('[^/]+')}$`);
+}
+
+/**
+ * Default `fetch`, resolved at call time so polyfills and test stubs installed
+ * after the client was created are still picked up
+ */
+export const globalFetch: FetchLike = (input, init) => fetch(input, init);
@@ -21,6 +21,9 @@ type RequestBody<T> = T extends { requestBody: { content: { 'application/json':
 /** Extract JSON response body from a path operation's 200 response */
 type ResponseBody<T> = T extends { responses: { 200: { content: { 'application/json': infer R } } } } ? R : never;
 
+/** Extract JSON response body from a path operation's error response */
+type ErrorResponseBody<T, S extends number> = T extends { responses: { [K in S]: { content: { 'application/json': infer R } } } } ? R : never;
+
 /** Extract query parameters from a path operation (handles optional query) */
 type QueryParams<T> = T extends { parameters: { query?: infer Q } } 
   ? (Q extends undefined ? Record<string, never> : NonNullable<Q>)
@@ -66,6 +69,7 @@ export type SessionResponse = ResponseBody<paths['/auth/session']['post']>;
 export type SessionValidateResponse = ResponseBody<paths['/auth/session']['get']>;
 export type UploadResponse = ResponseBody<paths['/upload']['post']>;
 export type NetworkStatusResponse = ResponseBody<paths['/network']['get']>;
+export type WalletBalancesResponse = ResponseBody<paths['/wallet/balances']['get']>;
 
 // ============ Query Parameter Types ============
 
@@ -115,6 +119,32 @@ export type AgentEntry = components['schemas']['AgentEntry'];
 /** User leaderboard entry */
 export type UserEntry = components['schemas']['UserEntry'];
 
+// ============ Solana RPC Proxy (from OpenAPI schemas) ============
+
+/** JSON-RPC 2.0 request accepted by /rpc */
+export type SolanaRpcRequest = components['schemas']['SolanaRpcRequest'];
+
+/** JSON-RPC 2.0 response returned by /rpc */
+export type SolanaRpcResponse = components['schemas']['SolanaRpcResponse'];
+
+// ============ Error Types (from OpenAPI paths) ============
+
+/** Body returned by /trade/prepare when the token has graduated */
+export type TokenGraduatedErrorBody = ErrorResponseBody<paths['/trade/prepare']['post'], 400>;
+
+/** JSON-RPC error envelope returned by the /rpc proxy */
+export type SolanaRpcErrorBody = components['schemas']['SolanaRpcError'];
+
+/** Body returned by /wallet/balances when the upstream RPC fails */
+export type RpcUnavailableErrorBody = ErrorResponseBody<paths['/wallet/balances']['get'], 503>;
+
+/** Any documented error body, or the generic `{ error, message }` shape */
+export type ApiErrorBody =
+  | TokenGraduatedErrorBody
+  | RpcUnavailableErrorBody
+  | SolanaRpcErrorBody
+  | { error?: string; message?: string };
+
 // ============ Full API paths export for advanced usage ============
 
 export type { paths, components } from './generated/api';
@@ -0,0 +1,234 @@
+/**
+ * Polling watchers
+ * Fallback for environments that strip `text/event-stream` responses -
+ * emits the same events as the SSE streams by polling the REST API
+ */
+
+import type { ClawdVaultClient } from './client';
+import type { Token, Trade } from './types';
+import { LiveConnection, type StreamTrade, type StreamTokenUpdate } from './streaming';
+import { RateLimitError, RequestAbortedError } from './errors';
+
+export interface WatchOptions {
+  /** Poll interval in ms (default: 3000) */
+  intervalMs?: number;
+  /** Upper bound for the interval while backing off in ms (default: 60000) */
+  maxIntervalMs?: number;
+  /**
+   * Give up after this many consecutive failed polls (default: 10).
+   * 429s only slow polling down and never count as failures.
+   */
+  maxConsecutiveErrors?: number;
+}
+
+export interface WatchTradesOptions extends WatchOptions {
+  /** Trades fetched per poll (default: 50) */
+  pageSize?: number;
+  /** Pages to walk back with the `before` cursor when a poll finds only new trades (default: 5) */
+  maxCatchUpPages?: number;
+}
+
+/** Trade ids remembered for dedupe */
+const SEEN_TRADES_LIMIT = 5000;
+
+/**
+ * Base class for polling watchers: interval scheduling, backoff and lifecycle
+ */
+abstract class PollingConnection extends LiveConnection {
+  private options: Required<WatchOptions>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private controller: AbortController | null = null;
+  private active = false;
+  private live = false;
+  private consecutiveErrors = 0;
+  private backoffMs = 0;
+
+  constructor(options: WatchOptions) {
+    super();
+    this.options = {
+      intervalMs: options.intervalMs ?? 3000,
+      maxIntervalMs: options.maxIntervalMs ?? 60_000,
+      maxConsecutiveErrors: options.maxConsecutiveErrors ?? 10,
+    };
+  }
+
+  /** Whether the last poll succeeded */
+  get connected(): boolean {
+    return this.live;
+  }
+
+  connect(): void {
+    if (this.active) return;
+    this.active = true;
+    this.consecutiveErrors = 0;
+    this.backoffMs = 0;
+    this.tick();
+  }
+
+  disconnect(): void {
+    this.active = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    if (this.live) {
+      this.live = false;
+      this.emitDisconnect();
+    }
+  }
+
+  /** Fetch once and emit whatever changed */
+  protected abstract poll(signal: AbortSignal): Promise<void>;
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      await this.poll(controller.signal);
+      if (!this.active) return;
+      this.consecutiveErrors = 0;
+      this.backoffMs = 0;
+      if (!this.live) {
+        this.live = true;
+        this.emitConnect();
+      }
+    } catch (err) {
+      if (!this.active || err instanceof RequestAbortedError) return;
+
+      if (err instanceof RateLimitError) {
+        // Double the interval until requests stop bouncing, honoring Retry-After
+        const doubled = Math.max(this.backoffMs, this.options.intervalMs) * 2;
+        this.backoffMs = Math.min(
+          this.options.maxIntervalMs,
+          Math.max(doubled, (err.retryAfter ?? 0) * 1000)
+        );
+      } else {
+        this.consecutiveErrors++;
+        if (this.live) {
+          this.live = false;
+          this.emitDisconnect();
+        }
+        if (this.consecutiveErrors >= this.options.maxConsecutiveErrors) {
+          this.active = false;
+          this.emitError(err as Error);
+          return;
+        }
+      }
+    }
+
+    if (this.active) {
+      this.timer = setTimeout(() => this.tick(), this.backoffMs || this.options.intervalMs);
+    }
+  }
+}
+
+/**
+ * Polls `/trades` and emits `trade` events for new trades, oldest first
+ */
+export class TradeWatcher extends PollingConnection {
+  private seen = new Set<string>();
+  private seeded = false;
+  private pageSize: number;
+  private maxCatchUpPages: number;
+
+  constructor(private client: ClawdVaultClient, readonly mint: string, options: WatchTradesOptions = {}) {
+    super(options);
+    this.pageSize = options.pageSize ?? 50;
+    this.maxCatchUpPages = options.maxCatchUpPages ?? 5;
+  }
+
+  protected async poll(signal: AbortSignal): Promise<void> {
+    const fresh: Trade[] = [];
+    let before: string | undefined;
+
+    // Walk back from the newest trade until we reach one we have already seen
+    for (let page = 0; page < this.maxCatchUpPages; page++) {
+      const { trades = [] } = await this.client.getTrades(
+        { mint: this.mint, limit: this.pageSize, before },
+        { signal }
+      );
+      // Trades without an id or signature cannot be deduped, so they are never emitted
+      const unseen = trades.filter(t => {
+        const key = tradeKey(t);
+        return key !== undefined && !this.seen.has(key);
+      });
+      fresh.push(...unseen);
+
+      const cursor = trades[trades.length - 1]?.id;
+      // First poll only records what already exists - like a stream, report new trades only
+      if (!this.seeded || unseen.length < trades.length || trades.length < this.pageSize || !cursor) break;
+      before = cursor;
+    }
+
+    for (const trade of fresh) {
+      this.remember(tradeKey(trade)!);
+    }
+    if (!this.seeded) {
+      this.seeded = true;
+      return;
+    }
+    for (const trade of fresh.reverse()) {
+      const event: StreamTrade = { ...trade, mint: this.mint };
+      this.emit('trade', event);
+    }
+  }
+
+  private remember(key: string): void {
+    this.seen.add(key);
+    if (this.seen.size > SEEN_TRADES_LIMIT) {
+      // Sets iterate in insertion order, so this drops the oldest id
+      this.seen.delete(this.seen.values().next().value!);
+    }
+  }
+}
+
+/**
+ * Polls `/tokens/{mint}` and emits `connected` with the first snapshot,
+ * then `update` whenever price, market cap or reserves change
+ */
+export class TokenWatcher extends PollingConnection {
+  private last: string | null = null;
+
+  constructor(private client: ClawdVaultClient, readonly mint: string, options: WatchOptions = {}) {
+    super(options);
+  }
+
+  protected async poll(signal: AbortSignal): Promise<void> {
+    const { token } = await this.client.getToken(this.mint, { signal });
+    if (!token) return;
+
+    const update = toTokenUpdate(token);
+    const key = JSON.stringify({ ...update, timestamp: undefined });
+    if (key === this.last) return;
+
+    const event = this.last === null ? 'connected' : 'update';
+    this.last = key;
+    this.emit(event, update);
+  }
+}
+
+function tradeKey(trade: Trade): string | undefined {
+  return trade.id ?? trade.signature;
+}
+
+function toTokenUpdate(token: Token): StreamTokenUpdate {
+  return {
+    mint: token.mint,
+    price_sol: token.price_sol,
+    price_usd: token.price_usd,
+    market_cap_sol: token.market_cap_sol,
+    market_cap_usd: token.market_cap_usd,
+    volume_24h: token.volume_24h,
+    holders: token.holders,
+    virtual_sol_reserves: token.virtual_sol_reserves,
+    virtual_token_reserves: token.virtual_token_reserves,
+    real_sol_reserves: token.real_sol_reserves,
+    real_token_reserves: token.real_token_reserves,
+    graduated: token.graduated,
+    timestamp: Date.now(),
+  };
+}
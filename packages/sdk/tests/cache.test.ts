@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createClient, MemoryCacheStore, RequestAbortedError } from '../src';
+
+function jsonFetch(body: (url: string) => unknown = () => ({ price: 150 })) {
+  return vi.fn(async (url: string) => new Response(JSON.stringify(body(url)), {
+    headers: { 'Content-Type': 'application/json' },
+  }));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('response cache', () => {
+  it('serves cached GETs until the route TTL expires', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch();
+    const client = createClient({ baseUrl: 'http://test/api', fetch, cache: true });
+
+    await client.getSolPrice();
+    await vi.advanceTimersByTimeAsync(59_000);
+    await expect(client.getSolPrice()).resolves.toEqual({ price: 150 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await client.getSolPrice();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves unlisted routes and non-GETs alone', async () => {
+    const fetch = jsonFetch();
+    const client = createClient({ baseUrl: 'http://test/api', fetch, cache: { routes: { '/sol-price': null } } });
+
+    await client.getSolPrice();
+    await client.getSolPrice();
+    await client.getTrades({ mint: 'MINT' });
+    await client.getTrades({ mint: 'MINT' });
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps graduation status forever once graduated', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch(url => ({ success: true, graduated: url.includes('GRAD') }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch, cache: true });
+
+    await client.getJupiterStatus('GRAD');
+    await client.getJupiterStatus('BOND');
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60_000);
+    await client.getJupiterStatus('GRAD');
+    await client.getJupiterStatus('BOND');
+    expect(fetch.mock.calls.map(c => new URL(c[0]).searchParams.get('mint'))).toEqual(['GRAD', 'BOND', 'BOND']);
+  });
+
+  it('coalesces identical in-flight requests', async () => {
+    let release!: () => void;
+    const fetch = vi.fn(() => new Promise<Response>(resolve => {
+      release = () => resolve(new Response(JSON.stringify({ token: { mint: 'MINT' } })));
+    }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch, cache: true });
+
+    const pending = [client.getToken('MINT'), client.getToken('MINT'), client.getToken('MINT')];
+    await new Promise(r => setTimeout(r, 0));
+    release();
+    const results = await Promise.all(pending);
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(results.every(r => r.token?.mint === 'MINT')).toBe(true);
+  });
+
+  it('lets one waiter abort without cancelling the shared request', async () => {
+    let release!: () => void;
+    const fetch = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      release = () => resolve(new Response(JSON.stringify({ price: 1 })));
+    }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch, cache: true });
+
+    const controller = new AbortController();
+    const aborted = client.getSolPrice({ signal: controller.signal });
+    const kept = client.getSolPrice();
+    await new Promise(r => setTimeout(r, 0));
+    controller.abort();
+    release();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(kept).resolves.toEqual({ price: 1 });
+  });
+
+  it('evicts the least recently used entry and supports invalidation', async () => {
+    const store = new MemoryCacheStore(2);
+    const fetch = jsonFetch(url => ({ token: { mint: new URL(url).pathname } }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch, cache: { store } });
+
+    await client.getToken('A');
+    await client.getToken('B');
+    await client.getToken('A');
+    await client.getToken('C');
+    expect(store.size).toBe(2);
+    await client.getToken('B');
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    await client.cache!.invalidate('/tokens/*');
+    await client.getToken('C');
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createClient,
+  normalizeCandles,
+  fillGaps,
+  resample,
+  loadCandles,
+  closes,
+  sma,
+  ema,
+  rsi,
+  vwap,
+  bollinger,
+  atr,
+  type Candle,
+} from '../src';
+
+const HOUR = 3600;
+
+function candle(time: number, close: number, volume = 1): Candle {
+  return { time, open: close, high: close + 1, low: close - 1, close, volume };
+}
+
+const nan = (values: Float64Array) => Array.from(values, v => (Number.isNaN(v) ? null : v));
+
+describe('candles', () => {
+  it('normalizes, gap-fills and resamples', () => {
+    const candles = normalizeCandles([
+      { time: 2 * HOUR, open: 11, high: 13, low: 10, close: 12, volume: 5 },
+      { time: 0, open: 9, high: 11, low: 8, close: 10, volume: 2 },
+      { time: HOUR, close: 99 },
+      { time: 5 * HOUR, open: 12, high: 15, low: 12, close: 14, volume: 1 },
+    ]);
+    expect(candles.map(c => c.time)).toEqual([0, 2 * HOUR, 5 * HOUR]);
+
+    const filled = fillGaps(candles, '1h');
+    expect(filled.map(c => c.time)).toEqual([0, 1, 2, 3, 4, 5].map(h => h * HOUR));
+    expect(filled[1]).toEqual({ time: HOUR, open: 10, high: 10, low: 10, close: 10, volume: 0 });
+
+    expect(resample(filled, '4h')).toEqual([
+      { time: 0, open: 9, high: 13, low: 8, close: 12, volume: 7 },
+      { time: 4 * HOUR, open: 12, high: 15, low: 12, close: 14, volume: 1 },
+    ]);
+  });
+
+  it('starts weekly buckets on Monday', () => {
+    const wednesday = Date.UTC(2026, 0, 7) / 1000;
+    const [week] = resample([candle(wednesday, 1)], '1w');
+    expect(new Date(week.time * 1000).toISOString()).toBe('2026-01-05T00:00:00.000Z');
+  });
+
+  it('fetches the largest native interval and resamples it', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      candles: [candle(0, 1), candle(HOUR, 2), candle(4 * HOUR, 3)],
+    })));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const candles = await loadCandles(client, { mint: 'MINT', interval: '4h' });
+    expect(fetch.mock.calls[0][0]).toBe('http://test/api/candles?mint=MINT&interval=1h');
+    expect(candles.map(c => [c.time, c.close, c.volume])).toEqual([[0, 2, 2], [4 * HOUR, 3, 1]]);
+    await expect(loadCandles(client, { mint: 'MINT', interval: '90s' as string })).rejects.toThrow('Invalid candle interval');
+  });
+
+  it('computes indicators aligned with the candles', () => {
+    const values = [1, 2, 3, 4, 5, 6];
+    expect(nan(sma(values, 3))).toEqual([null, null, 2, 3, 4, 5]);
+    expect(nan(ema(values, 3))).toEqual([null, null, 2, 3, 4, 5]);
+    expect(nan(rsi(values, 3))).toEqual([null, null, null, 100, 100, 100]);
+    const wilder = rsi([3, 2, 3, 2, 3], 2);
+    expect(nan(wilder.subarray(0, 4))).toEqual([null, null, 50, 25]);
+    expect(wilder[4]).toBeCloseTo(62.5);
+
+    const bands = bollinger([1, 3, 1, 3], 2, 2);
+    expect(nan(bands.middle)).toEqual([null, 2, 2, 2]);
+    expect(nan(bands.upper)).toEqual([null, 4, 4, 4]);
+
+    const candles = [candle(0, 10, 1), candle(HOUR, 20, 3)];
+    expect(nan(vwap(candles))).toEqual([10, 17.5]);
+    expect(nan(vwap(candles, '1h'))).toEqual([10, 20]);
+    expect(nan(atr(candles, 1))).toEqual([2, 11]);
+    expect(closes(candles)).toBeInstanceOf(Float64Array);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { createFakeServer } from '../src/testing';
+
+/**
+ * Drives the built CLI (`npm run build` in packages/cli) against the fake server over HTTP
+ */
+const CLI_PATH = path.join(__dirname, '../../cli/dist/index.js');
+const run = promisify(execFile);
+
+describe.skipIf(!fs.existsSync(CLI_PATH))('CLI against the fake server', () => {
+  const server = createFakeServer({ seed: 'cli' });
+  const keypair = Keypair.fromSeed(new Uint8Array(32).fill(3));
+  const wallet = keypair.publicKey.toBase58();
+  let home: string;
+  let env: NodeJS.ProcessEnv;
+
+  const cli = async (...args: string[]) => (await run('node', [CLI_PATH, ...args], { env, timeout: 30_000 })).stdout;
+
+  beforeAll(async () => {
+    const baseUrl = await server.listen();
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'clawdvault-cli-'));
+    const walletPath = path.join(home, 'wallet.json');
+    fs.writeFileSync(walletPath, JSON.stringify(Array.from(keypair.secretKey)));
+    env = {
+      PATH: process.env.PATH,
+      HOME: home,
+      CLAWDVAULT_ENV: 'localnet',
+      CLAWDVAULT_API_URL: baseUrl,
+      SOLANA_RPC_URL: `${baseUrl}/rpc`,
+      CLAWDVAULT_WALLET: walletPath,
+      CLAWDVAULT_NO_CACHE: '1',
+      NO_COLOR: '1',
+    };
+  });
+
+  afterAll(async () => {
+    await server.close();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('buys, sells and rebuilds PnL from the trades', async () => {
+    const { mint } = server.seedToken({ name: 'Cli', symbol: 'CLI' });
+
+    expect(await cli('trade', 'buy', '--mint', mint!, '--sol', '2')).toContain('Trade executed successfully');
+    const bought = server.tokenBalance(wallet, mint!);
+    expect(bought).toBeGreaterThan(0);
+    await cli('trade', 'sell', '--mint', mint!, '--percent', '100');
+    expect(server.tokenBalance(wallet, mint!)).toBe(0);
+
+    const { trades } = JSON.parse(await cli('trade', 'history', '--mint', mint!, '--json'));
+    expect(trades.map((t: { type: string; trader: string }) => [t.type, t.trader])).toEqual([
+      ['sell', wallet],
+      ['buy', wallet],
+    ]);
+
+    // The position is closed, so only the wallet's on-chain history can find it
+    const { positions } = JSON.parse(await cli('pnl', '--json'));
+    expect(positions).toEqual([expect.objectContaining({ mint, amount: 0, buys: 1, sells: 1 })]);
+    expect(positions[0].realizedPnlSol).toBeLessThan(0);
+  }, 120_000);
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  createClient,
+  KeypairSigner,
+  TimeoutError,
+  RequestAbortedError,
+  AbortedAfterSigningError,
+  ClawdVaultApiError,
+  RateLimitError,
+  NotFoundError,
+  TokenGraduatedError,
+  UpstreamRpcError,
+  NetworkError,
+  type Middleware,
+} from '../src';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function mockFetch(...responses: Array<Response | Error>) {
+  const fn = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) {
+      fn.mockRejectedValueOnce(response);
+    } else {
+      fn.mockResolvedValueOnce(response);
+    }
+  }
+  vi.stubGlobal('fetch', fn);
+  return fn;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('errors', () => {
+  it('maps documented error bodies to typed errors', async () => {
+    mockFetch(jsonResponse(400, {
+      success: false,
+      graduated: true,
+      error: 'Token has graduated',
+      redirectTo: '/api/trade/jupiter',
+    }));
+    const client = createClient({ baseUrl: 'http://test/api' });
+
+    const err = await client.prepareTrade({ mint: 'M', type: 'buy', amount: 1, wallet: 'W' }).catch(e => e);
+    expect(err).toBeInstanceOf(TokenGraduatedError);
+    expect(err).toBeInstanceOf(ClawdVaultApiError);
+    expect(err.redirectTo).toBe('/api/trade/jupiter');
+    expect(err.status).toBe(400);
+    expect(err.path).toBe('/trade/prepare');
+  });
+
+  it('parses Retry-After and JSON-RPC error bodies', async () => {
+    mockFetch(
+      jsonResponse(429, { error: 'Too many requests' }, { 'Retry-After': '7' }),
+      jsonResponse(502, { jsonrpc: '2.0', error: { code: -32603, message: 'upstream down' }, id: 1 }),
+      jsonResponse(404, { error: 'Token not found' }),
+    );
+    const client = createClient({ baseUrl: 'http://test/api' });
+
+    const rateLimited = await client.getSolPrice().catch(e => e);
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect(rateLimited.retryAfter).toBe(7);
+
+    const upstream = await client.getStats('M').catch(e => e);
+    expect(upstream).toBeInstanceOf(UpstreamRpcError);
+    expect(upstream.rpcCode).toBe(-32603);
+    expect(upstream.message).toBe('upstream down');
+
+    const missing = await client.getToken('M').catch(e => e);
+    expect(missing).toBeInstanceOf(NotFoundError);
+  });
+
+  it('wraps fetch failures in NetworkError', async () => {
+    mockFetch(new TypeError('fetch failed'));
+    const onError = vi.fn();
+    const client = createClient({ baseUrl: 'http://test/api', onError });
+
+    const err = await client.getSolPrice().catch(e => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.cause).toBeInstanceOf(TypeError);
+    expect(onError).toHaveBeenCalledWith(err);
+  });
+});
+
+describe('retry', () => {
+  it('retries idempotent calls on transient failures', async () => {
+    const fetch = mockFetch(
+      jsonResponse(502, { error: 'Bad gateway' }),
+      jsonResponse(504, { error: 'Gateway timeout' }),
+      jsonResponse(200, { price: 150 }),
+    );
+    const onError = vi.fn();
+    const client = createClient({ baseUrl: 'http://test/api', onError, retry: { baseDelayMs: 1 } });
+
+    await expect(client.getSolPrice()).resolves.toEqual({ price: 150 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('never retries execute calls', async () => {
+    const fetch = mockFetch(jsonResponse(502, { error: 'Bad gateway' }));
+    const client = createClient({ baseUrl: 'http://test/api', retry: { baseDelayMs: 1 } });
+
+    const err = await client.executeTrade({ signedTransaction: 'tx', mint: 'M', type: 'buy', wallet: 'W' }).catch(e => e);
+    expect(err).toBeInstanceOf(UpstreamRpcError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least Retry-After on 429', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetch = mockFetch(
+        jsonResponse(429, { error: 'Too many requests' }, { 'Retry-After': '2' }),
+        jsonResponse(200, { price: 150 }),
+      );
+      const client = createClient({ baseUrl: 'http://test/api', retry: { baseDelayMs: 1 } });
+
+      const pending = client.getSolPrice();
+      await vi.advanceTimersByTimeAsync(1900);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(200);
+      await expect(pending).resolves.toEqual({ price: 150 });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('cancellation', () => {
+  function hangingFetch() {
+    const fn = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }));
+    vi.stubGlobal('fetch', fn);
+    return fn;
+  }
+
+  it('times out hung requests', async () => {
+    hangingFetch();
+    const client = createClient({ baseUrl: 'http://test/api', timeoutMs: 20 });
+
+    const err = await client.getHolders('M').catch(e => e);
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err.timeoutMs).toBe(20);
+  });
+
+  it('aborts through the per-call signal', async () => {
+    hangingFetch();
+    const client = createClient({ baseUrl: 'http://test/api', retry: true });
+    const controller = new AbortController();
+
+    const pending = client.getHolders('M', undefined, { signal: controller.signal });
+    controller.abort();
+    const err = await pending.catch(e => e);
+    expect(err).toBeInstanceOf(RequestAbortedError);
+    expect(err).not.toBeInstanceOf(AbortedAfterSigningError);
+  });
+
+  it('reports aborts between signing and execute distinctly', async () => {
+    const keypair = Keypair.generate();
+    const tx = new Transaction({
+      feePayer: keypair.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    }).add(SystemProgram.transfer({ fromPubkey: keypair.publicKey, toPubkey: keypair.publicKey, lamports: 1 }));
+    const unsigned = tx.serialize({ requireAllSignatures: false }).toString('base64');
+
+    const fetch = mockFetch(jsonResponse(200, { success: true, transaction: unsigned }));
+    const controller = new AbortController();
+    const signer = new KeypairSigner(keypair);
+    const signTransaction = signer.signTransaction.bind(signer);
+    signer.signTransaction = async (t) => {
+      const signed = await signTransaction(t);
+      controller.abort();
+      return signed;
+    };
+    const client = createClient({ baseUrl: 'http://test/api', signer });
+
+    const err = await client.buy('M', 0.1, 0.01, { signal: controller.signal }).catch(e => e);
+    expect(err).toBeInstanceOf(AbortedAfterSigningError);
+    expect(err.submitted).toBe(false);
+    expect(Transaction.from(Buffer.from(err.signedTransaction, 'base64')).verifySignatures()).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('transport', () => {
+  it('uses a custom fetch instead of the global one', async () => {
+    const globalFetch = mockFetch();
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse(200, { price: 150 }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch: customFetch });
+
+    await client.getSolPrice();
+    expect(customFetch).toHaveBeenCalledWith('http://test/api/sol-price', expect.objectContaining({ method: 'GET' }));
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  it('runs middleware in order around each attempt', async () => {
+    const calls: string[] = [];
+    const tag = (name: string): Middleware => async (req, next) => {
+      calls.push(`${name}>${req.attempt}`);
+      const res = await next({ ...req, headers: { ...req.headers, [`X-${name}`]: '1' } });
+      calls.push(`<${name}`);
+      return res;
+    };
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(503, { error: 'down' }))
+      .mockResolvedValueOnce(jsonResponse(200, { holders: [] }));
+    const client = createClient({
+      baseUrl: 'http://test/api',
+      fetch,
+      middleware: [tag('a'), tag('b')],
+      retry: { baseDelayMs: 1, jitter: false },
+    });
+
+    await client.getHolders('M');
+    expect(calls).toEqual(['a>1', 'b>1', '<b', '<a', 'a>2', 'b>2', '<b', '<a']);
+    expect(fetch.mock.calls[1][1].headers).toMatchObject({ 'X-a': '1', 'X-b': '1' });
+  });
+
+  it('lets middleware short-circuit the request', async () => {
+    const fetch = vi.fn();
+    const client = createClient({
+      baseUrl: 'http://test/api',
+      fetch,
+      middleware: [async () => jsonResponse(404, { error: 'Token not found' })],
+    });
+
+    await expect(client.getToken('M')).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { BondingCurve, GRADUATION_THRESHOLD_SOL } from '../src';
+
+const curve = new BondingCurve({
+  virtualSolReserves: 40,
+  virtualTokenReserves: 800_000_000,
+  realSolReserves: 10,
+  realTokenReserves: 700_000_000,
+});
+
+describe('BondingCurve', () => {
+  it('prices off the virtual reserves', () => {
+    expect(curve.spotPrice).toBeCloseTo(5e-8);
+    expect(curve.marketCap).toBeCloseTo(50);
+  });
+
+  it('quotes buys with the fee taken from the SOL in', () => {
+    const quote = curve.quoteBuy(10);
+    expect(quote.fee).toBeCloseTo(0.1);
+    // 800M * 9.9 / (40 + 9.9)
+    expect(quote.output).toBeCloseTo(158_717_434.87, 1);
+    expect(quote.current_price).toBe(curve.spotPrice);
+    expect(quote.price_impact).toBeGreaterThan(0);
+  });
+
+  it('quotes sells with the fee taken from the SOL out', () => {
+    const quote = curve.quoteSell(200_000_000);
+    // 40 * 200M / 1B = 8 SOL gross
+    expect(quote.fee).toBeCloseTo(0.08);
+    expect(quote.output).toBeCloseTo(7.92);
+  });
+
+  it('round-trips a buy then sell for less than the input', () => {
+    const tokens = curve.quoteBuy(1).output;
+    const after = curve.applyBuy(1);
+    expect(after.reserves.realSolReserves).toBeCloseTo(10.99);
+    expect(after.quoteSell(tokens).output).toBeLessThan(1);
+    expect(after.quoteSell(tokens).output).toBeCloseTo(0.99 * 0.99, 6);
+  });
+
+  it('inverts solForTokens against quoteBuy', () => {
+    const sol = curve.solForTokens(50_000_000);
+    expect(curve.quoteBuy(sol).output).toBeCloseTo(50_000_000, 0);
+  });
+
+  it('tracks graduation', () => {
+    expect(curve.graduationProgress()).toBeCloseTo(10 / GRADUATION_THRESHOLD_SOL);
+    expect(curve.solRemainingToGraduation()).toBe(110);
+    expect(curve.solToGraduate()).toBeCloseTo(110 / 0.99);
+
+    const graduated = curve.applyBuy(curve.solToGraduate());
+    expect(graduated.reserves.realSolReserves).toBeCloseTo(GRADUATION_THRESHOLD_SOL);
+    expect(graduated.spotPrice).toBeCloseTo(curve.graduationState().price);
+  });
+
+  it('rejects invalid amounts', () => {
+    expect(() => curve.quoteBuy(-1)).toThrow('Invalid amount');
+    expect(() => curve.quoteSell(NaN)).toThrow('Invalid amount');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { decodeTransaction } from '../src';
+
+const wallet = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const blockhash = Keypair.generate().publicKey.toBase58();
+
+describe('decodeTransaction', () => {
+  it('labels legacy instructions and decodes compute budget and transfers', () => {
+    const source = getAssociatedTokenAddressSync(mint, wallet.publicKey);
+    const destination = getAssociatedTokenAddressSync(mint, recipient);
+    const tx = new Transaction({ feePayer: wallet.publicKey, recentBlockhash: blockhash }).add(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 5_000 }),
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: recipient, lamports: 1_500_000 }),
+      createTransferCheckedInstruction(source, mint, destination, wallet.publicKey, 42n, 6),
+    );
+    tx.sign(wallet);
+
+    const decoded = decodeTransaction(tx.serialize().toString('base64'));
+    expect(decoded.version).toBe('legacy');
+    expect(decoded.recentBlockhash).toBe(blockhash);
+    expect(decoded.feePayer).toBe(wallet.publicKey.toBase58());
+    expect(decoded.signatures[0].signature).not.toBeNull();
+    expect(decoded.instructions.map(ix => `${ix.program}:${ix.name}`)).toEqual([
+      'Compute Budget:setComputeUnitLimit',
+      'Compute Budget:setComputeUnitPrice',
+      'System:transfer',
+      'Token:transferChecked',
+    ]);
+    expect(decoded.computeBudget).toEqual({ unitLimit: 200_000, unitPrice: 5_000n });
+    expect(decoded.transfers).toEqual([
+      { instruction: 2, kind: 'sol', from: wallet.publicKey.toBase58(), to: recipient.toBase58(), amount: 1_500_000n },
+      {
+        instruction: 3,
+        kind: 'token',
+        from: source.toBase58(),
+        mint: mint.toBase58(),
+        to: destination.toBase58(),
+        authority: wallet.publicKey.toBase58(),
+        amount: 42n,
+        decimals: 6,
+      },
+    ]);
+    expect(decoded.instructions[2].accounts[0]).toEqual({ address: wallet.publicKey.toBase58(), signer: true, writable: true });
+  });
+
+  it('marks lookup table accounts in v0 transactions', () => {
+    const table = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: { deactivationSlot: BigInt(2) ** BigInt(64) - BigInt(1), lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, addresses: [recipient] },
+    });
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: recipient, lamports: 7 })],
+    }).compileToV0Message([table]);
+    const tx = new VersionedTransaction(message);
+
+    const decoded = decodeTransaction(Buffer.from(tx.serialize()).toString('base64'));
+    expect(decoded.version).toBe(0);
+    expect(decoded.signatures).toEqual([{ signer: wallet.publicKey.toBase58(), signature: null }]);
+    expect(decoded.instructions[0].accounts[1]).toEqual({
+      signer: false,
+      writable: true,
+      lookupTable: table.key.toBase58(),
+      lookupIndex: 0,
+    });
+    expect(decoded.transfers[0]).toMatchObject({ kind: 'sol', to: undefined, amount: 7n });
+  });
+
+  it('leaves unknown programs unlabeled', () => {
+    const programId = Keypair.generate().publicKey;
+    const tx = new Transaction({ feePayer: wallet.publicKey, recentBlockhash: blockhash }).add({
+      programId,
+      keys: [],
+      data: Buffer.from([9, 9]),
+    });
+    const decoded = decodeTransaction(tx.serialize({ requireAllSignatures: false }).toString('base64'));
+    expect(decoded.instructions[0]).toMatchObject({ programId: programId.toBase58(), program: undefined, name: undefined, data: 'CQk=' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createClient,
+  validateEnvironment,
+  EnvironmentMismatchError,
+  ENVIRONMENTS,
+  PROGRAM_ID,
+} from '../src';
+
+const MAINNET_GENESIS = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d';
+const DEVNET_GENESIS = 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG';
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+/** API on `network` whose /rpc proxy and the direct RPC report the given genesis hashes */
+function deployment(network: string, apiGenesis: string, rpcGenesis: string, programId = PROGRAM_ID) {
+  const api = vi.fn(async (url: string) => url.endsWith('/network')
+    ? json({ network, programId, configInitialized: true })
+    : json({ jsonrpc: '2.0', id: 1, result: apiGenesis }));
+  const rpc = vi.fn(async () => json({ jsonrpc: '2.0', id: 1, result: rpcGenesis }));
+  return { api, rpc };
+}
+
+describe('environments', () => {
+  it('picks the base URL from the environment unless overridden', () => {
+    expect(createClient().environment).toMatchObject({ name: 'mainnet', cluster: 'mainnet-beta' });
+    expect(createClient({ environment: 'devnet', baseUrl: 'http://localhost:3000/api' }).environment)
+      .toMatchObject({ name: 'devnet', baseUrl: 'http://localhost:3000/api', rpcUrl: 'https://api.devnet.solana.com' });
+    expect(createClient({ environment: 'localnet', baseUrl: 'http://localhost:4000/api/' }).environment)
+      .toMatchObject({ name: 'localnet', baseUrl: 'http://localhost:4000/api', rpcUrl: 'http://127.0.0.1:8899' });
+    expect(() => createClient({ environment: 'testnet' as any })).toThrow(/Unknown environment "testnet"/);
+  });
+
+  it('requires a base URL for devnet, which has no public API', async () => {
+    const fetch = vi.fn();
+    const client = createClient({ environment: 'devnet', fetch });
+    await expect(client.getSolPrice()).rejects.toThrow('Environment "devnet" has no public API - pass baseUrl');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('passes when the API and RPC agree with the environment', async () => {
+    const { api, rpc } = deployment('mainnet-beta', MAINNET_GENESIS, MAINNET_GENESIS);
+    const client = createClient({ fetch: api });
+
+    await expect(validateEnvironment(client, { fetch: rpc })).resolves.toMatchObject({
+      network: 'mainnet-beta',
+      programId: PROGRAM_ID,
+      rpcGenesisHash: MAINNET_GENESIS,
+    });
+    expect(rpc.mock.calls[0][0]).toBe('https://api.mainnet-beta.solana.com');
+  });
+
+  it('lists every disagreement', async () => {
+    const { api, rpc } = deployment('devnet', DEVNET_GENESIS, MAINNET_GENESIS, 'OtherProgram111');
+    const client = createClient({
+      fetch: api,
+      environment: { ...ENVIRONMENTS.devnet, name: 'staging', baseUrl: 'https://staging.example.com/api', rpcUrl: 'https://rpc.example.com' },
+    });
+
+    const err = await validateEnvironment(client, { fetch: rpc }).catch(e => e);
+    expect(err).toBeInstanceOf(EnvironmentMismatchError);
+    expect(err.environment).toBe('staging');
+    expect(err.mismatches).toEqual([
+      `API runs program OtherProgram111, expected ${PROGRAM_ID}`,
+      `RPC https://rpc.example.com is on a different cluster than the API (genesis ${MAINNET_GENESIS} vs ${DEVNET_GENESIS})`,
+      'RPC https://rpc.example.com is not on devnet',
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createClient,
+  ClawdVaultApiError,
+  RateLimitError,
+  AuthError,
+  NotFoundError,
+  TokenGraduatedError,
+  UpstreamRpcError,
+  NetworkError,
+} from '../src';
+import { createApiError, parseRetryAfter } from '../src/errors';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createApiError', () => {
+  it('maps 401 and 403 to AuthError', () => {
+    for (const status of [401, 403]) {
+      const err = createApiError(status, { error: 'Invalid signature' }, { method: 'POST', path: '/chat' });
+      expect(err).toBeInstanceOf(AuthError);
+      expect(err).toMatchObject({ status, message: 'Invalid signature', method: 'POST', path: '/chat' });
+    }
+  });
+
+  it('maps 404 to NotFoundError', () => {
+    const err = createApiError(404, { success: false, error: 'Token not found' });
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect(err).toMatchObject({ status: 404, message: 'Token not found' });
+  });
+
+  it('maps 429 to RateLimitError with Retry-After', () => {
+    const err = createApiError(429, { error: 'Too many requests' }, { retryAfter: '12' });
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect((err as RateLimitError).retryAfter).toBe(12);
+
+    const dated = createApiError(429, {}, { retryAfter: new Date(Date.now() + 30_000).toUTCString() });
+    expect((dated as RateLimitError).retryAfter).toBeGreaterThan(25);
+    expect(dated.message).toBe('HTTP 429');
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+
+  it('maps a graduated 400 to TokenGraduatedError', () => {
+    const err = createApiError(400, {
+      success: false,
+      graduated: true,
+      error: 'Token has graduated',
+      redirectTo: '/api/trade/jupiter',
+    });
+    expect(err).toBeInstanceOf(TokenGraduatedError);
+    expect((err as TokenGraduatedError).redirectTo).toBe('/api/trade/jupiter');
+  });
+
+  it('maps upstream RPC failures to UpstreamRpcError', () => {
+    const err = createApiError(502, { jsonrpc: '2.0', error: { code: -32005, message: 'Node is behind' }, id: 1 });
+    expect(err).toBeInstanceOf(UpstreamRpcError);
+    expect(err).toMatchObject({ status: 502, message: 'Node is behind', rpcCode: -32005, rpcMessage: 'Node is behind' });
+
+    expect(createApiError(503, { error: 'RPC unavailable' })).toBeInstanceOf(UpstreamRpcError);
+  });
+
+  it('falls back to ClawdVaultApiError for other statuses', () => {
+    const err = createApiError(400, { error: 'Invalid amount' });
+    expect(err.constructor).toBe(ClawdVaultApiError);
+    expect(err.message).toBe('Invalid amount');
+  });
+});
+
+describe('network failures', () => {
+  it('wraps a rejected fetch in NetworkError', async () => {
+    const cause = new TypeError('fetch failed');
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(cause));
+    const client = createClient({ baseUrl: 'http://test/api' });
+
+    const err = await client.getSolPrice().catch(e => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err).not.toBeInstanceOf(ClawdVaultApiError);
+    expect(err).toMatchObject({ cause, method: 'GET', path: '/sol-price' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createClient, exportTrades, formatTradeExport, type Trade } from '../src';
+
+function trade(id: string, day: number, trader = 'WALLET'): Trade {
+  return {
+    id,
+    type: 'buy',
+    sol_amount: 1,
+    token_amount: 1000,
+    price_sol: 0.001,
+    price_usd: 0.2,
+    sol_price_usd: 200,
+    trader,
+    signature: `sig-${id}`,
+    created_at: new Date(Date.UTC(2026, 0, day)).toISOString(),
+  };
+}
+
+function tradesFetch(byMint: Record<string, Trade[]>) {
+  return vi.fn(async (url: string) => {
+    const params = new URL(url).searchParams;
+    // Single page per mint
+    const trades = params.get('before') ? [] : byMint[params.get('mint')!] ?? [];
+    return new Response(JSON.stringify({ trades }));
+  });
+}
+
+describe('exportTrades', () => {
+  it('merges mints oldest first within the date bounds', async () => {
+    const fetch = tradesFetch({
+      A: [trade('a3', 20), trade('a2', 10), trade('a1', 1)],
+      B: [trade('b2', 15, 'OTHER'), trade('b1', 5)],
+    });
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const rows = await exportTrades(client, { mints: ['A', 'B'], from: '2026-01-02', to: '2026-01-20' });
+    expect(rows.map(r => r.signature)).toEqual(['sig-b1', 'sig-a2', 'sig-b2']);
+
+    const mine = await exportTrades(client, { mints: ['A', 'B'], trader: 'WALLET', network: 'devnet' });
+    expect(mine.map(r => r.signature)).toEqual(['sig-a1', 'sig-b1', 'sig-a2', 'sig-a3']);
+    expect(mine[0].explorer).toBe('https://explorer.solana.com/tx/sig-a1?cluster=devnet');
+  });
+
+  it('formats CSV with a header row and NDJSON one object per line', async () => {
+    const client = createClient({ baseUrl: 'http://test/api', fetch: tradesFetch({ A: [trade('a1', 1)] }) });
+    const rows = await exportTrades(client, { mints: ['A'] });
+
+    expect(formatTradeExport(rows, 'csv').split('\n')).toEqual([
+      'timestamp,mint,type,sol_amount,token_amount,price_sol,price_usd,sol_price_usd,trader,signature,explorer',
+      '2026-01-01T00:00:00.000Z,A,buy,1,1000,0.001,0.2,200,WALLET,sig-a1,https://explorer.solana.com/tx/sig-a1',
+    ]);
+    expect(JSON.parse(formatTradeExport(rows, 'ndjson'))).toEqual(rows[0]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeHolders, diffHolders } from '../src';
+
+const holders = [
+  { address: 'CURVE', balance: 600_000_000, percentage: 60, label: 'Bonding Curve' },
+  { address: 'CREATOR', balance: 100_000_000, percentage: 10 },
+  { address: 'A', balance: 100_000_000, percentage: 10 },
+  { address: 'B', balance: 100_000_000, percentage: 10 },
+  { address: 'C', balance: 100_000_000, percentage: 10 },
+];
+
+describe('holder analytics', () => {
+  it('measures concentration without the bonding curve', () => {
+    const stats = analyzeHolders(holders, { creator: 'CREATOR', thresholds: [5, 20] });
+
+    expect(stats.holders).toBe(4);
+    expect(stats.excluded.map(h => h.address)).toEqual(['CURVE']);
+    expect(stats.top10Share).toBe(40);
+    expect(stats.creatorShare).toBe(10);
+    expect(stats.gini).toBeCloseTo(0);
+    expect(stats.hhi).toBeCloseTo(2500);
+    expect(stats.thresholds).toEqual([{ percent: 5, count: 4 }, { percent: 20, count: 0 }]);
+  });
+
+  it('approaches 1 for a single dominant holder and computes shares from balances', () => {
+    const stats = analyzeHolders([
+      { address: 'WHALE', balance: 999_000 },
+      ...Array.from({ length: 9 }, (_, i) => ({ address: `S${i}`, balance: 1 })),
+    ], { totalSupply: 1_000_000 });
+
+    expect(stats.gini).toBeGreaterThan(0.89);
+    expect(stats.hhi).toBeGreaterThan(9_900);
+    expect(stats.top10Share).toBeCloseTo(99.9009);
+    expect(stats.creatorShare).toBeNull();
+  });
+
+  it('diffs two snapshots', () => {
+    const later = [
+      { address: 'CREATOR', balance: 50_000_000, percentage: 5 },
+      { address: 'A', balance: 150_000_000, percentage: 15 },
+      { address: 'B', balance: 100_000_000, percentage: 10 },
+      { address: 'D', balance: 25_000_000, percentage: 2.5 },
+    ];
+    const diff = diffHolders(holders.slice(1), later);
+
+    expect(diff.changes.map(c => [c.address, c.kind])).toEqual([
+      ['C', 'exited'],
+      ['CREATOR', 'distributed'],
+      ['A', 'accumulated'],
+      ['D', 'new'],
+      ['B', 'unchanged'],
+    ]);
+    expect(diff.changes[1].shareChange).toBe(-5);
+    expect(diff).toMatchObject({ accumulated: 75_000_000, distributed: 150_000_000, newHolders: 1, exitedHolders: 1 });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  ComputeBudgetProgram,
+} from '@solana/web3.js';
+import {
+  createApproveInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import {
+  createClient,
+  inspectTransaction,
+  assertSafeTransaction,
+  KeypairSigner,
+  PROGRAM_ID,
+  UnsafeTransactionError,
+} from '../src';
+
+const wallet = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+const stranger = Keypair.generate().publicKey;
+
+/** Program ID of a real Jupiter v6 swap, kept literal so a bad constant cannot pass */
+const JUPITER_V6 = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+function build(instructions: TransactionInstruction[], feePayer = wallet.publicKey): string {
+  const tx = new Transaction({ feePayer, recentBlockhash: Keypair.generate().publicKey.toBase58() });
+  tx.add(...instructions);
+  return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+}
+
+function curveInstruction(): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(PROGRAM_ID),
+    keys: [
+      { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1, 2, 3]),
+  });
+}
+
+function codes(tx: string): string[] {
+  return inspectTransaction(tx, wallet.publicKey).issues.map(i => i.code);
+}
+
+describe('inspectTransaction', () => {
+  it('accepts a typical bonding curve trade', () => {
+    const tx = build([
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1000 }),
+      curveInstruction(),
+    ]);
+    const inspection = inspectTransaction(tx, wallet.publicKey);
+    expect(inspection.issues).toEqual([]);
+    expect(inspection.feePayer).toBe(wallet.publicKey.toBase58());
+    expect(inspection.programIds[1]).toBe(PROGRAM_ID);
+  });
+
+  it('accepts a Jupiter v6 swap for graduated tokens', () => {
+    const swap = new TransactionInstruction({
+      programId: new PublicKey(JUPITER_V6),
+      keys: [
+        { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
+        { pubkey: getAssociatedTokenAddressSync(mint, wallet.publicKey), isSigner: false, isWritable: true },
+      ],
+      data: Buffer.from([229, 23, 203, 151, 122, 227, 173, 42]),
+    });
+    const tx = build([ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }), swap]);
+    expect(assertSafeTransaction(tx, wallet.publicKey).programIds[1]).toBe(JUPITER_V6);
+  });
+
+  it('allows transfers to the wallet\'s own token accounts', () => {
+    const source = getAssociatedTokenAddressSync(mint, stranger);
+    const ownAta = getAssociatedTokenAddressSync(mint, wallet.publicKey);
+    const tx = build([curveInstruction(), createTransferInstruction(source, ownAta, wallet.publicKey, 5n)]);
+    expect(codes(tx)).toEqual([]);
+    expect(inspectTransaction(tx, wallet.publicKey).transfers).toEqual([
+      { instruction: 1, kind: 'token', to: ownAta.toBase58(), amount: 5n },
+    ]);
+  });
+
+  it('flags a foreign fee payer', () => {
+    const tx = build([curveInstruction()], stranger);
+    expect(codes(tx)).toContain('FEE_PAYER_MISMATCH');
+  });
+
+  it('flags unknown programs', () => {
+    const rogue = new TransactionInstruction({ programId: Keypair.generate().publicKey, keys: [], data: Buffer.alloc(0) });
+    expect(codes(build([curveInstruction(), rogue]))).toEqual(['PROGRAM_NOT_ALLOWED']);
+  });
+
+  it('flags SOL and token transfers to unexpected accounts', () => {
+    const ownAta = getAssociatedTokenAddressSync(mint, wallet.publicKey);
+    const tx = build([
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: stranger, lamports: 1_000_000 }),
+      createTransferInstruction(ownAta, stranger, wallet.publicKey, 10n),
+    ]);
+    const inspection = inspectTransaction(tx, wallet.publicKey);
+    expect(inspection.issues.map(i => i.code)).toEqual(['UNEXPECTED_TRANSFER', 'UNEXPECTED_TRANSFER']);
+    expect(inspection.transfers.map(t => t.amount)).toEqual([1_000_000n, 10n]);
+  });
+
+  it('allows explicitly trusted recipients', () => {
+    const tx = build([SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: stranger, lamports: 1 })]);
+    const inspection = inspectTransaction(tx, wallet.publicKey, { allowedRecipients: [stranger.toBase58()] });
+    expect(inspection.issues).toEqual([]);
+  });
+
+  it('flags delegate approvals and wallet reassignment', () => {
+    const ownAta = getAssociatedTokenAddressSync(mint, wallet.publicKey);
+    const tx = build([
+      createApproveInstruction(ownAta, stranger, wallet.publicKey, 1n),
+      SystemProgram.assign({ accountPubkey: wallet.publicKey, programId: stranger }),
+    ]);
+    expect(codes(tx)).toEqual(['DANGEROUS_INSTRUCTION', 'DANGEROUS_INSTRUCTION']);
+  });
+
+  it('flags co-signers the server has not signed for', () => {
+    const other = Keypair.generate().publicKey;
+    const ix = curveInstruction();
+    ix.keys.push({ pubkey: other, isSigner: true, isWritable: false });
+    expect(codes(build([ix]))).toEqual(['UNEXPECTED_SIGNER']);
+  });
+
+  it('reports truncated transfer data instead of throwing', () => {
+    const ownAta = getAssociatedTokenAddressSync(mint, wallet.publicKey);
+    const solTransfer = SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: stranger, lamports: 1 });
+    solTransfer.data = solTransfer.data.subarray(0, 6);
+    const tokenTransfer = createTransferInstruction(ownAta, stranger, wallet.publicKey, 10n);
+    tokenTransfer.data = tokenTransfer.data.subarray(0, 3);
+
+    const inspection = inspectTransaction(build([solTransfer, tokenTransfer]), wallet.publicKey);
+    expect(inspection.issues).toEqual([
+      expect.objectContaining({ code: 'DECODE_FAILED', instruction: 0 }),
+      expect.objectContaining({ code: 'DECODE_FAILED', instruction: 1 }),
+    ]);
+    expect(inspection.transfers).toEqual([]);
+  });
+
+  it('reports undecodable input', () => {
+    expect(codes('bm90IGEgdHJhbnNhY3Rpb24=')).toEqual(['DECODE_FAILED']);
+  });
+});
+
+describe('transaction guard', () => {
+  it('refuses to sign an unsafe prepared transaction', async () => {
+    const unsafe = build([SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: stranger, lamports: 1 })]);
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ success: true, transaction: unsafe })));
+    const signer = new KeypairSigner(wallet);
+    const sign = vi.spyOn(signer, 'signTransaction');
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer });
+
+    const err = await client.buy(mint.toBase58(), 0.1).catch(e => e);
+    expect(err).toBeInstanceOf(UnsafeTransactionError);
+    expect(err.issues[0].code).toBe('UNEXPECTED_TRANSFER');
+    expect(sign).not.toHaveBeenCalled();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('can be disabled', async () => {
+    const unsafe = build([SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: stranger, lamports: 1 })]);
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, transaction: unsafe })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, signature: 'sig' })));
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer: new KeypairSigner(wallet), transactionGuard: false });
+
+    await expect(client.buy(mint.toBase58(), 0.1)).resolves.toMatchObject({ signature: 'sig' });
+  });
+});
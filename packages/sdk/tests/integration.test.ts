@@ -253,11 +253,6 @@ async function testTokenCreation(): Promise<void> {
     
     state.createdTokenMint = result.mint;
     
-    // Get token amount from the trade details if available
-    if (result.trade?.tokenAmount) {
-      state.tokenAmount = result.trade.tokenAmount;
-    }
-    
     log(`Mint: ${result.mint}`);
     log(`Signature: ${result.signature}`);
   }, true); // Critical
@@ -266,7 +261,7 @@ async function testTokenCreation(): Promise<void> {
   await sleep(3000);
   
   await runTest('SDK: verify token in list', async () => {
-    const result = await state.client!.listTokens({ limit: 20 });
+    const result = await state.client!.listTokens({ per_page: 20 });
     const found = result.tokens?.find(t => t.mint === state.createdTokenMint);
     if (!found) throw new Error('Token not found in list');
     log(`Found token: ${found.name} (${found.symbol})`);
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createClient } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function trade(id: number, minutesAgo = id) {
+  return { id: `t${id}`, created_at: new Date(Date.UTC(2026, 0, 1, 12) - minutesAgo * 60_000).toISOString() };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('iterateTokens', () => {
+  it('walks pages until a short page', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ tokens: [{ mint: 'A' }, { mint: 'B' }], per_page: 2 }))
+      .mockResolvedValueOnce(jsonResponse({ tokens: [{ mint: 'C' }], per_page: 2 }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const tokens = await collect(client.iterateTokens({ per_page: 2 }));
+    expect(tokens.map(t => t.mint)).toEqual(['A', 'B', 'C']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1][0]).toBe('http://test/api/tokens?per_page=2&page=2');
+  });
+
+  it('skips items that shifted onto the next page', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ tokens: [{ mint: 'A' }, { mint: 'B' }], total: 4 }))
+      .mockResolvedValueOnce(jsonResponse({ tokens: [{ mint: 'B' }, { mint: 'C' }], total: 4 }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const tokens = await collect(client.iterateTokens());
+    expect(tokens.map(t => t.mint)).toEqual(['A', 'B', 'C']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops fetching once maxItems is reached', async () => {
+    const fetch = vi.fn().mockImplementation(async () =>
+      jsonResponse({ tokens: [{ mint: `M${fetch.mock.calls.length}` }], per_page: 1 })
+    );
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const tokens = await collect(client.iterateTokens({}, { maxItems: 3 }));
+    expect(tokens).toHaveLength(3);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('iterateTrades', () => {
+  it('follows the before cursor until an empty page', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ trades: [trade(1), trade(2)] }))
+      .mockResolvedValueOnce(jsonResponse({ trades: [trade(3)] }))
+      .mockResolvedValueOnce(jsonResponse({ trades: [] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const trades = await collect(client.iterateTrades({ mint: 'M' }));
+    expect(trades.map(t => t.id)).toEqual(['t1', 't2', 't3']);
+    expect(fetch.mock.calls.map(c => new URL(c[0]).searchParams.get('before'))).toEqual([null, 't2', 't3']);
+  });
+
+  it('stops when the server repeats the cursor item', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ trades: [trade(1), trade(2)] }))
+      .mockResolvedValue(jsonResponse({ trades: [trade(2)] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const trades = await collect(client.iterateTrades({ mint: 'M' }));
+    expect(trades.map(t => t.id)).toEqual(['t1', 't2']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at the first trade older than `since`', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ trades: [trade(1), trade(5)] }))
+      .mockResolvedValueOnce(jsonResponse({ trades: [trade(9), trade(30)] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const since = new Date(Date.UTC(2026, 0, 1, 12) - 10 * 60_000);
+    const trades = await collect(client.iterateTrades({ mint: 'M' }, { since }));
+    expect(trades.map(t => t.id)).toEqual(['t1', 't5', 't9']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at a custom condition', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(jsonResponse({ trades: [trade(1), trade(2), trade(3)] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const trades = await collect(client.iterateTrades({ mint: 'M' }, { stopWhen: (t) => t.id === 't3' }));
+    expect(trades.map(t => t.id)).toEqual(['t1', 't2']);
+  });
+});
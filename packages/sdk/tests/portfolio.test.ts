@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createClient, Portfolio, PROGRAM_ID, type Trade } from '../src';
+
+const WALLET = 'WALLET';
+
+function trade(type: 'buy' | 'sell', sol: number, tokens: number, minute: number, trader = WALLET): Trade {
+  return {
+    id: `${type}-${minute}`,
+    type,
+    sol_amount: sol,
+    token_amount: tokens,
+    trader,
+    signature: `sig-${minute}`,
+    created_at: new Date(Date.UTC(2026, 0, 1, 12, minute)).toISOString(),
+  };
+}
+
+// Buy 100 @ 0.01, buy 100 @ 0.03, sell 100 for 3 SOL
+const history = [trade('sell', 3, 100, 3), trade('buy', 3, 100, 2), trade('buy', 1, 100, 1)];
+
+describe('Portfolio', () => {
+  it('matches sells against the oldest buys in FIFO mode', () => {
+    const portfolio = new Portfolio(WALLET, { feeBps: 100 });
+    portfolio.addTrades('MINT', history);
+    portfolio.setPrice('MINT', { priceSol: 0.05, priceUsd: 5 });
+
+    const p = portfolio.position('MINT');
+    expect(p.amount).toBe(100);
+    expect(p.costBasisSol).toBeCloseTo(3);
+    expect(p.realizedPnlSol).toBeCloseTo(2);
+    expect(p.valueSol).toBeCloseTo(5);
+    expect(p.unrealizedPnlSol).toBeCloseTo(2);
+    expect(p.unrealizedPnlUsd).toBeCloseTo(200);
+    expect(p.feesSol).toBeCloseTo(0.07);
+    expect(p.feesEstimated).toBe(true);
+    expect([p.buys, p.sells]).toEqual([2, 1]);
+  });
+
+  it('uses the running average in average-cost mode', () => {
+    const portfolio = new Portfolio(WALLET, { method: 'average' });
+    portfolio.addTrades('MINT', history);
+
+    const p = portfolio.position('MINT');
+    expect(p.averageCostSol).toBeCloseTo(0.02);
+    expect(p.realizedPnlSol).toBeCloseTo(1);
+    expect(p.unrealizedPnlSol).toBeNull();
+  });
+
+  it('ignores other traders, dedupes receipts by signature and reports exact fees', () => {
+    const portfolio = new Portfolio(WALLET);
+    portfolio.addTrades('MINT', [trade('buy', 1, 100, 1), trade('buy', 5, 500, 2, 'OTHER')]);
+    portfolio.addReceipt({
+      signature: 'sig-1',
+      trade: { mint: 'MINT', trader: WALLET, type: 'buy', solAmount: 1, tokenAmount: 100, protocolFee: 0.01 },
+    });
+    portfolio.addReceipt({
+      signature: 'sig-9',
+      blockTime: Date.UTC(2026, 0, 1, 13) / 1000,
+      trade: { mint: 'MINT', trader: WALLET, type: 'sell', solAmount: 0.5, tokenAmount: 150, protocolFee: 0.004, creatorFee: 0.001 },
+    });
+
+    const p = portfolio.position('MINT');
+    expect(p.amount).toBe(0);
+    expect(p.unmatchedTokens).toBe(50);
+    // Only the 100 matched tokens count: 0.5 * 100/150 - 1
+    expect(p.realizedPnlSol).toBeCloseTo(-2 / 3);
+    expect(p.feesSol).toBeCloseTo(0.015);
+  });
+
+  it('loads history for every held mint', async () => {
+    const fetch = stubApi({ balances: { MINT: 100 } });
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const portfolio = await Portfolio.load(client, WALLET);
+    expect(portfolio.mints).toEqual(['MINT']);
+    expect(portfolio.totals()).toMatchObject({ realizedPnlSol: 2, valueSol: 2, valueUsd: 200 });
+    expect(fetch.mock.calls.map(call => call[0])).toContain('http://test/api/trades?mint=MINT&limit=100');
+  });
+
+  it('skips mints the API does not know', async () => {
+    const fetch = stubApi({ balances: { MINT: 100, [USDC]: 25 } });
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const portfolio = await Portfolio.load(client, WALLET);
+    expect(portfolio.mints).toEqual(['MINT']);
+    expect(fetch.mock.calls.map(call => call[0])).not.toContain(`http://test/api/trades?mint=${USDC}&limit=100`);
+  });
+
+  it('keeps realized PnL of closed positions found in on-chain history', async () => {
+    const fetch = stubApi({
+      balances: {},
+      transactions: [
+        { accountKeys: [WALLET, PROGRAM_ID], owner: WALLET, mint: 'MINT' },
+        { accountKeys: [WALLET, 'SomeOtherProgram'], owner: WALLET, mint: 'OTHER' },
+      ],
+      trades: [...history, trade('sell', 4, 100, 4)],
+    });
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const portfolio = await Portfolio.load(client, WALLET);
+    expect(portfolio.mints).toEqual(['MINT']);
+    const p = portfolio.position('MINT');
+    expect(p.amount).toBe(0);
+    expect(p.realizedPnlSol).toBeCloseTo(3);
+  });
+
+  it('caps the on-chain scan at maxSignatures', async () => {
+    const fetch = stubApi({
+      balances: {},
+      transactions: [
+        { accountKeys: [WALLET, 'SomeOtherProgram'], owner: WALLET, mint: 'OTHER' },
+        { accountKeys: [WALLET, PROGRAM_ID], owner: WALLET, mint: 'MINT' },
+      ],
+    });
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    expect((await Portfolio.load(client, WALLET, { maxSignatures: 1 })).mints).toEqual([]);
+    expect((await Portfolio.load(client, WALLET)).mints).toEqual(['MINT']);
+    const listCall = fetch.mock.calls.find(call => String(call[1]?.body).includes('getSignaturesForAddress'));
+    expect(JSON.parse(String(listCall![1]!.body)).params[1]).toEqual({ limit: 1 });
+  });
+});
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+interface ChainTransaction {
+  accountKeys: string[];
+  owner: string;
+  mint: string;
+}
+
+/**
+ * ClawdVault API that knows one token, `MINT`, plus a wallet's on-chain history behind `/rpc`
+ */
+function stubApi(state: {
+  balances: Record<string, number>;
+  transactions?: ChainTransaction[];
+  trades?: Trade[];
+}) {
+  const { balances, transactions = [], trades = history } = state;
+  const rpc = (request: { id: number; method: string; params: unknown[] }) => {
+    const result = request.method === 'getSignaturesForAddress'
+      ? transactions
+        .slice(0, (request.params[1] as { limit: number }).limit)
+        .map((_, i) => ({ signature: `chain-${i}`, blockTime: 1_767_268_800, err: null }))
+      : (() => {
+          const tx = transactions[Number(String(request.params[0]).split('-')[1])];
+          return {
+            transaction: { message: { accountKeys: tx.accountKeys } },
+            meta: { err: null, preTokenBalances: [], postTokenBalances: [{ mint: tx.mint, owner: tx.owner }] },
+          };
+        })();
+    return { jsonrpc: '2.0', id: request.id, result };
+  };
+
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const { pathname, searchParams } = new URL(url);
+    if (pathname === '/api/rpc') {
+      const body = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify(Array.isArray(body) ? body.map(rpc) : rpc(body)));
+    }
+    if (pathname === '/api/wallet/balances') {
+      return new Response(JSON.stringify({ balances }));
+    }
+    if (pathname === '/api/trades') {
+      return new Response(JSON.stringify({ trades: [...trades, trade('buy', 9, 900, 0, 'OTHER')] }));
+    }
+    if (searchParams.get('mint') === 'MINT' || pathname.endsWith('/MINT')) {
+      return new Response(JSON.stringify({ token: { mint: 'MINT', price_sol: 0.02, price_usd: 2 } }));
+    }
+    return new Response(JSON.stringify({ success: false, error: 'Token not found' }), { status: 404 });
+  });
+}
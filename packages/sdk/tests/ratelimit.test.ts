@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createClient, RateLimiter, TimeoutError, type TransportRequest } from '../src';
+
+function jsonFetch(status = 200, headers: Record<string, string> = {}) {
+  return vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ success: true }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  }));
+}
+
+function request(method: TransportRequest['method'], path: string): TransportRequest {
+  return { method, path, url: `http://test/api${path}`, headers: {}, attempt: 1 };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('rate limiter', () => {
+  it('sends a burst, then paces requests at the refill rate', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch();
+    const client = createClient({
+      baseUrl: 'http://test/api',
+      fetch,
+      rateLimit: { default: { limit: 60, intervalMs: 60_000, burst: 2 } },
+    });
+
+    const calls = [1, 2, 3, 4].map(() => client.getSolPrice());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(client.rateLimiter!.metrics().groups.default.queued.normal).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await Promise.all(calls);
+    expect(client.rateLimiter!.metrics()).toMatchObject({
+      queued: 0,
+      groups: { default: { sent: 4, delayed: 2, maxWaitMs: 2_000 } },
+    });
+  });
+
+  it('releases trade calls ahead of queued analytics reads', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ default: { limit: 1, intervalMs: 1_000 } });
+    const order: string[] = [];
+    const send = async (req: TransportRequest) => {
+      order.push(req.path);
+      return new Response('{}');
+    };
+
+    const pending = [
+      limiter.middleware(request('GET', '/holders'), send),
+      limiter.middleware(request('GET', '/holders'), send),
+      limiter.middleware(request('GET', '/trades'), send),
+      limiter.middleware(request('POST', '/trade/execute'), send),
+    ];
+    expect(limiter.metrics().groups.default.queued).toEqual({ high: 1, normal: 0, low: 2 });
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    await Promise.all(pending);
+    expect(order).toEqual(['/holders', '/trade/execute', '/holders', '/trades']);
+  });
+
+  it('keeps route groups on separate budgets', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch();
+    const client = createClient({
+      baseUrl: 'http://test/api',
+      fetch,
+      rateLimit: {
+        default: { limit: 1, intervalMs: 60_000 },
+        groups: { holders: { routes: ['/holders'], limit: 100, intervalMs: 60_000 } },
+      },
+    });
+
+    await client.getSolPrice();
+    await Promise.all([1, 2, 3].map(() => client.getHolders('MINT')));
+    const queued = client.getSolPrice();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(client.rateLimiter!.metrics().groups.default.queued.normal).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await queued;
+  });
+
+  it('paces client.rpc through the rpc group instead of its own throttle', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch();
+    const client = createClient({
+      baseUrl: 'http://test/api',
+      fetch,
+      rateLimit: { groups: { rpc: { routes: ['/rpc'], limit: 2, intervalMs: 60_000 } } },
+    });
+
+    const calls = [1, 2, 3].map(id => client.rpc.send({ jsonrpc: '2.0', id, method: 'getSlot' }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(client.rateLimiter!.metrics().groups).toMatchObject({
+      rpc: { sent: 2, queued: { normal: 1 } },
+      default: { sent: 0 },
+    });
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await Promise.all(calls);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('pauses a group after a 429 with Retry-After', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch(429, { 'Retry-After': '5' });
+    const client = createClient({ baseUrl: 'http://test/api', fetch, rateLimit: true });
+
+    await client.getSolPrice().catch(() => undefined);
+    const next = client.getSolPrice().catch(() => undefined);
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.rateLimiter!.metrics().groups.default.available).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops queued requests that time out', async () => {
+    vi.useFakeTimers();
+    const fetch = jsonFetch();
+    const client = createClient({
+      baseUrl: 'http://test/api',
+      fetch,
+      timeoutMs: 1_000,
+      rateLimit: { default: { limit: 1, intervalMs: 60_000 } },
+    });
+
+    await client.getSolPrice();
+    const timedOut = client.getSolPrice().catch(e => e);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(await timedOut).toBeInstanceOf(TimeoutError);
+    expect(client.rateLimiter!.metrics().queued).toBe(0);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
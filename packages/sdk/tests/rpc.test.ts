@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { createClient, UpstreamRpcError } from '../src';
+
+type RpcBody = { id: number; method: string; params?: unknown[] };
+
+/** Fake /rpc endpoint answering each request with `handler(method, params)` */
+function rpcFetch(handler: (method: string, params?: unknown[]) => unknown) {
+  return vi.fn(async (_url: string, init?: RequestInit) => {
+    const body = JSON.parse(String(init!.body)) as RpcBody | RpcBody[];
+    const answer = (req: RpcBody) => ({ jsonrpc: '2.0', id: req.id, result: handler(req.method, req.params) });
+    // Reverse batches to prove responses are matched by id
+    const json = Array.isArray(body) ? body.map(answer).reverse() : answer(body);
+    return new Response(JSON.stringify(json), { headers: { 'Content-Type': 'application/json' } });
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('client.rpc', () => {
+  it('calls a method and unwraps the result', async () => {
+    const fetch = rpcFetch(() => ({ context: { slot: 1 }, value: 42 }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    await expect(client.rpc.call('getBalance', ['WALLET'])).resolves.toEqual({ context: { slot: 1 }, value: 42 });
+    expect(fetch.mock.calls[0][0]).toBe('http://test/api/rpc');
+    expect(JSON.parse(String(fetch.mock.calls[0][1]!.body))).toMatchObject({ jsonrpc: '2.0', method: 'getBalance', params: ['WALLET'] });
+  });
+
+  it('throws UpstreamRpcError for JSON-RPC errors', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Invalid param' },
+    })));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const err = await client.rpc.call('getBalance', ['bad']).catch(e => e);
+    expect(err).toBeInstanceOf(UpstreamRpcError);
+    expect(err.rpcCode).toBe(-32602);
+  });
+
+  it('batches calls into one request and returns responses in call order', async () => {
+    const fetch = rpcFetch((method) => method);
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const responses = await client.rpc.batch([{ method: 'getSlot' }, { method: 'getBlockHeight' }]);
+    expect(responses.map(r => r.result)).toEqual(['getSlot', 'getBlockHeight']);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it('throttles to the configured requests per minute', async () => {
+    vi.useFakeTimers();
+    const fetch = rpcFetch(() => 1);
+    const client = createClient({ baseUrl: 'http://test/api', fetch, rpc: { requestsPerMinute: 2 } });
+
+    const calls = [1, 2, 3].map(() => client.rpc.call('getSlot'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await expect(Promise.all(calls)).resolves.toEqual([1, 1, 1]);
+  });
+
+  it('routes a web3.js Connection through the proxy', async () => {
+    const fetch = rpcFetch(() => ({ context: { slot: 1 }, value: 1_500_000_000 }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+    const connection = client.rpc.connection('confirmed');
+
+    await expect(connection.getBalance(Keypair.generate().publicKey)).resolves.toBe(1_500_000_000);
+    expect(fetch.mock.calls[0][0]).toBe('http://test/api/rpc');
+    expect(JSON.parse(String(fetch.mock.calls[0][1]!.body))).toMatchObject({ method: 'getBalance' });
+  });
+
+  it('polls signature status until the commitment is reached', async () => {
+    vi.useFakeTimers();
+    const statuses = [null, { err: null, confirmationStatus: 'processed' }, { err: null, confirmationStatus: 'confirmed' }];
+    const fetch = rpcFetch(() => ({ context: { slot: 1 }, value: [statuses.shift()] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const confirmed = client.rpc.confirmTransaction('SIG', { intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(confirmed).resolves.toBeUndefined();
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createClient, compileFilter, screenTokens, FilterSyntaxError, type Token } from '../src';
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+const hoursAgo = (h: number) => new Date(NOW - h * 3_600_000).toISOString();
+
+const tokens: Token[] = [
+  { mint: 'A', symbol: 'PEPE', name: 'Pepe Cash', market_cap_usd: 50_000, holders: 80, graduated: false, created_at: hoursAgo(1) },
+  { mint: 'B', symbol: 'DOGE', name: 'Doge', market_cap_usd: 25_000, holders: 60, graduated: false, created_at: hoursAgo(5) },
+  { mint: 'C', symbol: 'CAT', name: 'Cat', market_cap_usd: 90_000, holders: 300, graduated: true, created_at: hoursAgo(1) },
+  { mint: 'D', symbol: 'NEW', name: 'New', holders: 2, graduated: false, created_at: hoursAgo(0.5) },
+];
+
+const matching = (expression: string) => tokens.filter(t => compileFilter(expression)(t, NOW)).map(t => t.mint);
+
+describe('compileFilter', () => {
+  it('evaluates comparisons, durations and boolean logic', () => {
+    expect(matching('market_cap_usd > 20000 and holders >= 50 and age < 2h and not graduated')).toEqual(['A']);
+    expect(matching('graduated or (holders < 10 and age <= 30m)')).toEqual(['C', 'D']);
+    expect(matching('name ~ "cash" or symbol = \'DOGE\'')).toEqual(['A', 'B']);
+    expect(matching('market_cap_usd == null')).toEqual(['D']);
+    expect(matching('created_at < "2026-01-01T10:00:00Z"')).toEqual(['B']);
+  });
+
+  it('accepts negative numbers', () => {
+    const movers: Token[] = [
+      { mint: 'UP', price_change_24h: 12 },
+      { mint: 'FLAT', price_change_24h: -4.5 },
+      { mint: 'DOWN', price_change_24h: -31 },
+    ];
+    const down = compileFilter('price_change_24h < -10');
+    expect(movers.filter(t => down(t)).map(t => t.mint)).toEqual(['DOWN']);
+    expect(movers.filter(t => compileFilter('price_change_24h > -10')(t)).map(t => t.mint)).toEqual(['UP', 'FLAT']);
+    expect(compileFilter('price_change_24h >= -4.5e0')(movers[1])).toBe(true);
+  });
+
+  it('reports syntax errors with a position', () => {
+    const error = (expression: string) => {
+      try {
+        compileFilter(expression);
+      } catch (err) {
+        return err as FilterSyntaxError;
+      }
+      throw new Error('expected a syntax error');
+    };
+
+    expect(error('holders >= 50 and')).toBeInstanceOf(FilterSyntaxError);
+    expect(error('volume > 1').message).toContain('Unknown field "volume"');
+    expect(error('holders >= 50 and (age < 2h').message).toContain('Expected ")"');
+    expect(error('holders # 5').position).toBe(8);
+  });
+});
+
+describe('screenTokens', () => {
+  it('pages through /tokens, filters and sorts', async () => {
+    vi.useFakeTimers({ now: NOW });
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ tokens: tokens.slice(0, 2), per_page: 2 })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ tokens: tokens.slice(2), per_page: 2 })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ tokens: [], per_page: 2 })));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const result = await screenTokens(client, 'holders >= 50', { sort: 'market_cap_usd', order: 'asc' });
+    expect(result.map(t => t.mint)).toEqual(['B', 'A', 'C']);
+    expect(fetch.mock.calls[0][0]).toBe('http://test/api/tokens?sort=created_at&per_page=100&page=1');
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import {
+  createClient,
+  KeypairSigner,
+  AuthError,
+  FileSessionStore,
+  LocalStorageSessionStore,
+  MemorySessionStore,
+} from '../src';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** Issues tok-1, tok-2, ... and rejects tokens listed in `revoked` */
+function sessionServer(revoked: string[] = [], expiresIn = 3600) {
+  let issued = 0;
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    if (url.endsWith('/auth/session') && init?.method === 'POST') {
+      expect(headers['X-Signature']).toBeDefined();
+      return json({ success: true, token: `tok-${++issued}`, expiresIn });
+    }
+    const token = headers['Authorization']?.replace('Bearer ', '');
+    if (!token || revoked.includes(token)) return json({ error: 'Unauthorized' }, 401);
+    return json({ success: true, message: { id: token } });
+  });
+}
+
+function chatPaths(fetch: ReturnType<typeof sessionServer>): string[] {
+  return fetch.mock.calls.map(([url, init]) => {
+    const auth = (init?.headers as Record<string, string>)['Authorization'];
+    return `${new URL(url).pathname}${auth ? ` ${auth}` : ''}`;
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('session manager', () => {
+  const signer = new KeypairSigner(Keypair.generate());
+
+  it('creates a session on first use and shares it', async () => {
+    const fetch = sessionServer();
+    const store = new MemorySessionStore();
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer, session: { store } });
+
+    await Promise.all([
+      client.sendChat({ mint: 'MINT', message: 'gm' }),
+      client.sendChat({ mint: 'MINT', message: 'gm' }),
+    ]);
+    expect(chatPaths(fetch)).toEqual([
+      '/api/auth/session',
+      '/api/chat Bearer tok-1',
+      '/api/chat Bearer tok-1',
+    ]);
+    expect(store.load()).toMatchObject({ sessionToken: 'tok-1', wallet: signer.publicKey.toBase58() });
+  });
+
+  it('renews shortly before expiry', async () => {
+    vi.useFakeTimers();
+    const fetch = sessionServer([], 600);
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer, session: true });
+
+    await client.sendChat({ mint: 'MINT', message: 'gm' });
+    await vi.advanceTimersByTimeAsync(4 * 60_000);
+    await client.sendChat({ mint: 'MINT', message: 'gm' });
+    await vi.advanceTimersByTimeAsync(60_000);
+    await client.sendChat({ mint: 'MINT', message: 'gm' });
+    expect(chatPaths(fetch)).toEqual([
+      '/api/auth/session',
+      '/api/chat Bearer tok-1',
+      '/api/chat Bearer tok-1',
+      '/api/auth/session',
+      '/api/chat Bearer tok-2',
+    ]);
+  });
+
+  it('retries once with a fresh session on 401', async () => {
+    const fetch = sessionServer(['stale']);
+    const store = new MemorySessionStore();
+    store.save({ sessionToken: 'stale', wallet: signer.publicKey.toBase58() });
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer, session: { store } });
+
+    await expect(client.sendChat({ mint: 'MINT', message: 'gm' })).resolves.toMatchObject({ message: { id: 'tok-1' } });
+    expect(chatPaths(fetch)).toEqual(['/api/chat Bearer stale', '/api/auth/session', '/api/chat Bearer tok-1']);
+
+    const rejectAll = sessionServer(['tok-1', 'tok-2']);
+    const unlucky = createClient({ baseUrl: 'http://test/api', fetch: rejectAll, signer, session: true });
+    const err = await unlucky.sendChat({ mint: 'MINT', message: 'gm' }).catch(e => e);
+    expect(err).toBeInstanceOf(AuthError);
+    expect(rejectAll).toHaveBeenCalledTimes(4);
+  });
+
+  it('uses a stored session without a signer until it expires', async () => {
+    const fetch = sessionServer();
+    const store = new MemorySessionStore();
+    store.save({ sessionToken: 'saved', expiresAt: new Date(Date.now() + 60_000).toISOString() });
+    const client = createClient({ baseUrl: 'http://test/api', fetch, session: { store } });
+
+    await client.sendChat({ mint: 'MINT', message: 'gm' });
+    expect(chatPaths(fetch)).toEqual(['/api/chat Bearer saved']);
+  });
+
+  it('persists sessions to a file and localStorage', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawdvault-session-'));
+    try {
+      const file = new FileSessionStore(path.join(dir, 'auth.json'));
+      expect(file.load()).toBeNull();
+      file.save({ sessionToken: 'tok', wallet: 'W', expiresAt: '2030-01-01T00:00:00.000Z' });
+      expect(new FileSessionStore(file.filePath).load()).toEqual({
+        sessionToken: 'tok',
+        wallet: 'W',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+      });
+      file.clear();
+      expect(file.load()).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key),
+    };
+    const local = new LocalStorageSessionStore('session', storage);
+    local.save({ sessionToken: 'tok' });
+    expect(JSON.parse(items.get('session')!)).toEqual({ sessionToken: 'tok' });
+    expect(local.load()).toEqual({ sessionToken: 'tok' });
+    local.clear();
+    expect(local.load()).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Keypair, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  createClient,
+  KeypairSigner,
+  PROGRAM_ID,
+  SimulationFailedError,
+  UpstreamRpcError,
+} from '../src';
+
+const wallet = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+const ata = getAssociatedTokenAddressSync(mint, wallet.publicKey);
+
+function preparedTransaction(): string {
+  const tx = new Transaction({ feePayer: wallet.publicKey, recentBlockhash: Keypair.generate().publicKey.toBase58() });
+  tx.add(new TransactionInstruction({
+    programId: new PublicKey(PROGRAM_ID),
+    keys: [
+      { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
+      { pubkey: ata, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  }));
+  return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+}
+
+function tokenAccount(amount: bigint) {
+  const data = Buffer.alloc(165);
+  mint.toBuffer().copy(data, 0);
+  wallet.publicKey.toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(amount, 64);
+  return { lamports: 2_039_280, owner: TOKEN_PROGRAM_ID.toBase58(), data: [data.toString('base64'), 'base64'] };
+}
+
+const systemAccount = (lamports: number) => ({ lamports, owner: '11111111111111111111111111111111', data: ['', 'base64'] });
+
+function rpcFetch(simulation: unknown) {
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    if (path === '/api/trade/prepare') {
+      return new Response(JSON.stringify({ success: true, transaction: preparedTransaction() }));
+    }
+    if (path === '/api/rpc') {
+      const [pre, sim] = JSON.parse(String(init!.body));
+      return new Response(JSON.stringify([
+        { jsonrpc: '2.0', id: sim.id, result: simulation },
+        { jsonrpc: '2.0', id: pre.id, result: { value: [systemAccount(5_000_000_000), null] } },
+      ]));
+    }
+    return new Response(JSON.stringify({ success: true, signature: 'sig' }));
+  });
+}
+
+describe('simulation', () => {
+  it('simulates the signed transaction before executing and returns the result', async () => {
+    const fetch = rpcFetch({
+      value: {
+        err: null,
+        logs: ['Program log: Buy'],
+        unitsConsumed: 42_000,
+        accounts: [systemAccount(4_000_000_000), tokenAccount(1_000_000n)],
+      },
+    });
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer: new KeypairSigner(wallet) });
+
+    const result = await client.buy(mint.toBase58(), 1, 0.01, { simulate: true });
+
+    const paths = fetch.mock.calls.map(c => new URL(c[0]).pathname);
+    expect(paths).toEqual(['/api/trade/prepare', '/api/rpc', '/api/trade/execute']);
+    const [, simulate] = JSON.parse(String(fetch.mock.calls[1][1]!.body));
+    expect(simulate.method).toBe('simulateTransaction');
+    expect(simulate.params[1].accounts.addresses).toEqual([wallet.publicKey.toBase58(), ata.toBase58()]);
+
+    expect(result.signature).toBe('sig');
+    expect(result.simulation).toEqual({
+      success: true,
+      err: null,
+      logs: ['Program log: Buy'],
+      unitsConsumed: 42_000,
+      balances: [
+        { address: wallet.publicKey.toBase58(), preLamports: 5_000_000_000, postLamports: 4_000_000_000 },
+        {
+          address: ata.toBase58(),
+          preLamports: null,
+          postLamports: 2_039_280,
+          mint: mint.toBase58(),
+          preTokenAmount: null,
+          postTokenAmount: 1_000_000n,
+        },
+      ],
+    });
+  });
+
+  it('refuses to execute when simulation fails', async () => {
+    const fetch = rpcFetch({
+      value: { err: { InstructionError: [0, { Custom: 6001 }] }, logs: ['Program log: Slippage exceeded'], accounts: null },
+    });
+    const client = createClient({ baseUrl: 'http://test/api', fetch, signer: new KeypairSigner(wallet) });
+
+    const err = await client.sell(mint.toBase58(), 1000, 0.01, { simulate: true }).catch(e => e);
+    expect(err).toBeInstanceOf(SimulationFailedError);
+    expect(err.message).toContain('Slippage exceeded');
+    expect(err.simulation.success).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('surfaces JSON-RPC errors from the proxy', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify([
+      { jsonrpc: '2.0', id: 1, result: { value: [] } },
+      { jsonrpc: '2.0', id: 2, error: { code: -32602, message: 'invalid transaction' } },
+    ])));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+
+    const err = await client.simulateTransaction(preparedTransaction()).catch(e => e);
+    expect(err).toBeInstanceOf(UpstreamRpcError);
+    expect(err.rpcCode).toBe(-32602);
+    expect(err.rpcMessage).toBe('invalid transaction');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createClient, createStreaming, NetworkError, type EventSourceLike } from '../src';
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  closed = false;
+  private handlers = new Map<string, Array<(event: { data: string }) => void>>();
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(event: string, handler: (event: { data: string }) => void): void {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(event: string, data: unknown): void {
+    for (const handler of this.handlers.get(event) ?? []) handler({ data: JSON.stringify(data) });
+  }
+}
+
+const EventSource = FakeEventSource as unknown as EventSourceLike;
+const latest = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+afterEach(() => {
+  FakeEventSource.instances = [];
+  vi.useRealTimers();
+});
+
+describe('ClawdVaultStreaming', () => {
+  it('opens per-token streams and dispatches parsed events', async () => {
+    const streaming = createStreaming('http://test/api/', { EventSource });
+    const conn = streaming.streamToken('MINT');
+    const onConnect = vi.fn();
+    const updates: number[] = [];
+    conn.onConnect(onConnect);
+    conn.on<{ price_sol: number }>('update', (data) => updates.push(data.price_sol));
+    conn.connect();
+    await flush();
+
+    expect(latest().url).toBe('http://test/api/stream/token?mint=MINT');
+    latest().onopen!();
+    latest().emit('update', { price_sol: 0.01 });
+    expect(onConnect).toHaveBeenCalledOnce();
+    expect(updates).toEqual([0.01]);
+    expect(conn.connected).toBe(true);
+
+    conn.disconnect();
+    expect(latest().closed).toBe(true);
+    expect(conn.connected).toBe(false);
+  });
+
+  it('reconnects with backoff and keeps listeners', async () => {
+    vi.useFakeTimers();
+    const streaming = createStreaming('http://test/api', { EventSource, reconnectDelayMs: 100 });
+    const trades: string[] = [];
+    streaming.onTrades('MINT', (trade) => trades.push(trade.id!));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const first = latest();
+    first.onopen!();
+    first.onerror!(new Event('error'));
+    expect(first.closed).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(FakeEventSource.instances).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(FakeEventSource.instances).toHaveLength(2);
+
+    latest().emit('trade', { id: 't1' });
+    expect(trades).toEqual(['t1']);
+    streaming.disconnectAll();
+  });
+
+  it('reports an error once reconnects are exhausted', async () => {
+    const streaming = createStreaming('http://test/api', { EventSource, autoReconnect: false });
+    const conn = streaming.streamChat('MINT');
+    const onError = vi.fn();
+    conn.onError(onError);
+    conn.connect();
+    await flush();
+
+    latest().onerror!(new Event('error'));
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(NetworkError);
+    expect(onError.mock.calls[0][0].path).toBe('/stream/chat');
+  });
+});
+
+describe('polling watchers', () => {
+  function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+  }
+
+  it('emits only new trades, oldest first, deduped by id', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(200, { trades: [{ id: 't2' }, { id: 't1' }] }))
+      .mockResolvedValueOnce(jsonResponse(200, { trades: [{ id: 't4' }, { id: 't3' }, { id: 't2' }] }))
+      .mockResolvedValue(jsonResponse(200, { trades: [{ id: 't4' }, { id: 't3' }] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+    const watcher = client.watchTrades('MINT', { intervalMs: 1000 });
+    const seen: string[] = [];
+    const onConnect = vi.fn();
+    watcher.on<{ id: string; mint: string }>('trade', (trade) => seen.push(`${trade.mint}:${trade.id}`));
+    watcher.onConnect(onConnect);
+
+    watcher.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(seen).toEqual([]);
+    expect(onConnect).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(seen).toEqual(['MINT:t3', 'MINT:t4']);
+    watcher.disconnect();
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('walks the before cursor to catch up on a burst of trades', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(200, { trades: [{ id: 't1' }] }))
+      .mockResolvedValueOnce(jsonResponse(200, { trades: [{ id: 't5' }, { id: 't4' }] }))
+      .mockResolvedValueOnce(jsonResponse(200, { trades: [{ id: 't3' }, { id: 't2' }] }))
+      .mockResolvedValueOnce(jsonResponse(200, { trades: [{ id: 't1' }] }));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+    const watcher = client.watchTrades('MINT', { intervalMs: 1000, pageSize: 2 });
+    const seen: string[] = [];
+    watcher.on<{ id: string }>('trade', (trade) => seen.push(trade.id));
+
+    watcher.connect();
+    await vi.advanceTimersByTimeAsync(1000);
+    watcher.disconnect();
+
+    expect(seen).toEqual(['t2', 't3', 't4', 't5']);
+    expect(fetch.mock.calls.map(c => new URL(c[0]).searchParams.get('before'))).toEqual([null, null, 't4', 't2']);
+  });
+
+  it('backs off on 429 and emits token updates only on change', async () => {
+    vi.useFakeTimers();
+    const token = (price: number) => jsonResponse(200, { token: { mint: 'MINT', price_sol: price } });
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(token(1))
+      .mockResolvedValueOnce(jsonResponse(429, { error: 'slow down' }, { 'Retry-After': '10' }))
+      .mockResolvedValueOnce(token(1))
+      .mockResolvedValueOnce(token(2));
+    const client = createClient({ baseUrl: 'http://test/api', fetch });
+    const watcher = client.watchToken('MINT', { intervalMs: 1000 });
+    const events: string[] = [];
+    watcher.on<{ price_sol: number }>('connected', (u) => events.push(`connected:${u.price_sol}`));
+    watcher.on<{ price_sol: number }>('update', (u) => events.push(`update:${u.price_sol}`));
+
+    watcher.connect();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    watcher.disconnect();
+    expect(events).toEqual(['connected:1', 'update:2']);
+  });
+});
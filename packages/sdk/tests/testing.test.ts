@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { Connection, Keypair } from '@solana/web3.js';
+import {
+  createClient,
+  validateEnvironment,
+  BondingCurve,
+  KeypairSigner,
+  signAndSerialize,
+  AuthError,
+  ClawdVaultApiError,
+  TokenGraduatedError,
+  GRADUATION_THRESHOLD_SOL,
+} from '../src';
+import { createFakeServer } from '../src/testing';
+
+function setup(seed = 'test') {
+  const server = createFakeServer({ seed });
+  const signer = new KeypairSigner(Keypair.fromSeed(new Uint8Array(32).fill(7)));
+  const client = createClient({ baseUrl: 'http://fake/api', fetch: server.fetch, signer, session: true });
+  return { server, signer, client, wallet: signer.publicKey.toBase58() };
+}
+
+describe('fake server', () => {
+  it('creates and trades tokens on the bonding curve', async () => {
+    const { server, client, wallet } = setup();
+
+    const created = await client.createToken({ name: 'Test', symbol: 'TEST', initialBuy: 1 });
+    const mint = created.mint!;
+    let curve = BondingCurve.initial().applyBuy(1);
+    expect(created.token).toMatchObject({ creator: wallet, price_sol: curve.spotPrice, holders: 1 });
+
+    const quote = await client.getQuote({ mint, type: 'buy', amount: 2 });
+    expect(quote).toEqual(curve.quoteBuy(2));
+    const bought = await client.buy(mint, 2);
+    curve = curve.applyBuy(2);
+    expect(bought.trade).toMatchObject({ trader: wallet, type: 'buy', solAmount: 2, tokenAmount: quote.output });
+
+    const { balance } = await client.getBalance(wallet, mint);
+    await client.sellPercent(mint, 50, 0.01, { simulate: true });
+    curve = curve.applySell(balance! / 2);
+
+    const { token, trades } = await client.getToken(mint);
+    expect(token!.virtual_sol_reserves).toBeCloseTo(curve.reserves.virtualSolReserves, 9);
+    expect(trades!.map(trade => trade.type)).toEqual(['sell', 'buy', 'buy']);
+    expect(server.tokenBalance(wallet, mint)).toBeCloseTo(balance! / 2, 6);
+    expect((await client.getHolders(mint)).holders![0]).toMatchObject({ label: 'Bonding Curve' });
+  });
+
+  it('only accepts the prepared transaction, signed, once', async () => {
+    const { server, client, signer, wallet } = setup();
+    const { mint } = server.seedToken({ name: 'Seeded', symbol: 'SEED' });
+
+    const prepared = await client.prepareTrade({ mint: mint!, type: 'buy', amount: 1, wallet });
+    const unsigned = client.executeTrade({ signedTransaction: prepared.transaction!, mint: mint!, type: 'buy', wallet });
+    await expect(unsigned).rejects.toThrow(/Missing or invalid signature/);
+
+    const other = await client.prepareTrade({ mint: mint!, type: 'buy', amount: 5, wallet });
+    const signed = await signAndSerialize(other.transaction!, signer);
+    await client.executeTrade({ signedTransaction: signed, mint: mint!, type: 'buy', wallet });
+    const replay = await client.executeTrade({ signedTransaction: signed, mint: mint!, type: 'buy', wallet }).catch(e => e);
+    expect(replay).toBeInstanceOf(ClawdVaultApiError);
+    expect(replay.status).toBe(400);
+    await expect(client.sell(mint!, 1e12)).rejects.toThrow(/Insufficient token balance/);
+  });
+
+  it('routes graduated tokens through Jupiter', async () => {
+    const { server, client, wallet } = setup();
+    server.airdrop(wallet, 500);
+    const { mint } = server.seedToken({ name: 'Moon', symbol: 'MOON' });
+
+    await client.buy(mint!, GRADUATION_THRESHOLD_SOL * 1.1);
+    await expect(client.buy(mint!, 1)).rejects.toBeInstanceOf(TokenGraduatedError);
+    const swap = await client.smartBuy(mint!, 1);
+    expect(swap.trade).toMatchObject({ type: 'buy', solAmount: 1 });
+    expect((await client.getJupiterStatus(mint!)).graduated).toBe(true);
+  });
+
+  it('handles chat, profiles and sessions', async () => {
+    const { server, client, wallet } = setup();
+    const { mint } = server.seedToken({ name: 'Chat', symbol: 'CHAT' });
+
+    await client.updateProfile({ username: 'tester' });
+    const { message } = await client.sendChat({ mint: mint!, message: 'gm' });
+    await client.addReaction(message!.id!, '🚀');
+    expect(await client.validateSession()).toEqual({ valid: true, wallet });
+
+    const { messages } = await client.getChat({ mint: mint! });
+    expect(messages).toEqual([expect.objectContaining({ username: 'tester', message: 'gm', reactions: { '🚀': [wallet] } })]);
+
+    const anonymous = createClient({ baseUrl: 'http://fake/api', fetch: server.fetch });
+    await expect(anonymous.sendChat({ mint: mint!, message: 'hi' })).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('is deterministic and serves HTTP and RPC', async () => {
+    const first = setup();
+    const second = setup();
+    const [a, b] = await Promise.all([
+      first.client.createToken({ name: 'Same', symbol: 'SAME', initialBuy: 0.5 }),
+      second.client.createToken({ name: 'Same', symbol: 'SAME', initialBuy: 0.5 }),
+    ]);
+    expect(a).toEqual(b);
+
+    const baseUrl = await first.server.listen();
+    try {
+      const client = createClient({ environment: first.server.environment() });
+      await expect(validateEnvironment(client)).resolves.toMatchObject({ network: 'localnet' });
+      expect((await client.getToken(a.mint!)).token!.symbol).toBe('SAME');
+
+      const connection = new Connection(`${baseUrl}/rpc`, 'confirmed');
+      const lamports = await connection.getBalance(first.signer.publicKey);
+      expect(lamports).toBe(Math.round(first.server.solBalance(first.wallet) * 1e9));
+    } finally {
+      await first.server.close();
+    }
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Runs against a live dev server via `npx tsx`, see the header of the file
+    exclude: ['tests/integration.test.ts'],
+  },
+});